@@ -0,0 +1,54 @@
+import { ToolAccess } from './ToolDefinition';
+
+/**
+ * Result of an audited tool call
+ */
+export type AuditOutcome = 'success' | 'error';
+
+/**
+ * An Azure DevOps object changed by a tool call
+ */
+export interface AuditTarget {
+  type: 'workItem' | 'pullRequest' | 'repository' | 'project' | 'comment' | 'thread' | 'classificationNode' | 'operation';
+  id: string | number;
+  rev?: number; // Work item revision after the change
+}
+
+/**
+ * One line of the audit log
+ */
+export interface AuditEntry {
+  timestamp: string;
+  sessionId: string; // MCP session ID, or `stdio` for the stdio transport
+  tool: string;
+  access: ToolAccess;
+  organization: string;
+  project: string;
+  params: Record<string, any>; // Parameters with secrets and long text redacted
+  targets: AuditTarget[];
+  outcome: AuditOutcome;
+  traceId?: string; // Trace of the tool call, see Services/Tracer.ts
+  error?: string;
+  errorCode?: string;
+}
+
+/**
+ * Configuration for the audit log
+ */
+export interface AuditConfig {
+  enabled: boolean;
+  file?: string; // JSONL file; defaults to audit.jsonl in the log directory
+}
+
+/**
+ * Filters for reading the audit log
+ */
+export interface AuditQuery {
+  tool?: string;
+  sessionId?: string;
+  outcome?: AuditOutcome;
+  targetId?: string | number;
+  since?: string; // ISO date
+  until?: string; // ISO date
+  top?: number;
+}
@@ -1,4 +1,6 @@
 import { EntraAuthHandler } from "../Services/EntraAuthHandler";
+import { RetryConfig } from "./Retry";
+import { ParameterDefaults } from "./ConfigFile";
 
 /**
  * Defines the possible authentication types for Azure DevOps.
@@ -55,6 +57,10 @@ export interface AzureDevOpsConfig {
   apiVersion?: string; // API version for on-premises
   auth?: AzureDevOpsAuthConfig; // Updated to use the new union type
   entraAuthHandler?: EntraAuthHandler;
+  name?: string; // Named connection the configuration was resolved from
+  connections?: Record<string, AzureDevOpsConfig>; // Named connections, selected per call with `organization`
+  retry?: RetryConfig; // Retries of throttled and transient failures, shared by all connections
+  defaults?: ParameterDefaults; // Team and repository used when a tool call leaves them out
 }
 
 /**
@@ -0,0 +1,14 @@
+/**
+ * Kinds of rarely changing metadata kept in the metadata cache
+ */
+export const METADATA_ENTITIES = ['workItemTypes', 'workItemTypeFields', 'areas', 'iterations', 'teams'] as const;
+
+export type MetadataEntity = typeof METADATA_ENTITIES[number];
+
+/**
+ * Configuration for the metadata cache
+ */
+export interface CacheConfig {
+  ttlSeconds: Record<MetadataEntity, number>; // How long entries stay fresh; 0 disables caching of the entity
+  file?: string; // JSON file the cache is persisted to across restarts
+}
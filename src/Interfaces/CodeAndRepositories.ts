@@ -1,7 +1,9 @@
+import { ResponseBudgetParams } from './ResponseBudget';
+
 /**
  * Interface for listing repositories
  */
-export interface ListRepositoriesParams {
+export interface ListRepositoriesParams extends ResponseBudgetParams {
   projectId?: string;
   includeHidden?: boolean;
   includeAllUrls?: boolean;
@@ -46,9 +48,10 @@ export interface SearchCodeParams {
 /**
  * Interface for browsing repository
  */
-export interface BrowseRepositoryParams {
+export interface BrowseRepositoryParams extends ResponseBudgetParams {
   repositoryId: string;
   path?: string;
+  recursive?: boolean;
   versionDescriptor?: {
     version?: string;
     versionOptions?: string;
@@ -59,7 +62,7 @@ export interface BrowseRepositoryParams {
 /**
  * Interface for getting file content
  */
-export interface GetFileContentParams {
+export interface GetFileContentParams extends ResponseBudgetParams {
   repositoryId: string;
   path: string;
   versionDescriptor?: {
@@ -114,7 +117,7 @@ export interface GetPullRequestParams {
 /**
  * Interface for getting pull request comments
  */
-export interface GetPullRequestCommentsParams {
+export interface GetPullRequestCommentsParams extends ResponseBudgetParams {
   repositoryId: string;
   pullRequestId: number;
   threadId?: number;
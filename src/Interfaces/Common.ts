@@ -1,3 +1,5 @@
+import { classifyError } from "../utils/errors";
+
 /**
  * Interface for MCP-compatible response format
  */
@@ -6,11 +8,16 @@ export interface McpResponse {
     type: "text";
     text: string;
   }>;
+  structuredContent?: Record<string, any>; // Typed result, matching the tool's output schema
+  isError?: boolean;
   [key: string]: any; // Add index signature
 }
 
 /**
- * Formats a response for MCP compatibility
+ * Formats a response for MCP compatibility.
+ *
+ * The text block carries a short summary for the model to read, while the data itself is returned
+ * as `structuredContent` so clients can consume it without parsing the text.
  * @param data The data to format
  * @param message Optional message to display
  * @param isError Whether this is an error response
@@ -22,23 +29,55 @@ export function formatMcpResponse(data: any, message?: string, isError = false):
       {
         type: "text",
         text: message || (isError ? "Error occurred" : "Request successful")
-      },
-      {
-        type: "text",
-        text: typeof data === 'string' ? data : JSON.stringify(data, null, 2)
       }
     ],
-    rawData: data,
+    structuredContent: toStructuredContent(data),
     isError
   };
 }
 
 /**
- * Creates an error response
+ * Creates an error response.
+ *
+ * The error is classified so the response carries an error code, the Azure DevOps message ID
+ * and a hint the agent can act on, e.g. `PAT lacks vso.work_write scope`.
  * @param error The error that occurred
  * @returns MCP-compatible error response
  */
 export function formatErrorResponse(error: any): McpResponse {
-  const errorMessage = error instanceof Error ? error.message : String(error);
-  return formatMcpResponse({ error: errorMessage }, `Error: ${errorMessage}`, true);
-} 
\ No newline at end of file
+  const classified = classifyError(error);
+  const label = [classified.code, classified.messageId].filter(Boolean).join(', ');
+  const lines = [`Error (${label}): ${classified.message}`];
+  if (classified.hint) {
+    lines.push(`Hint: ${classified.hint}`);
+  }
+  return formatMcpResponse({
+    error: classified.message,
+    code: classified.code,
+    messageId: classified.messageId,
+    statusCode: classified.statusCode,
+    hint: classified.hint,
+    fields: classified.fields,
+    retryAfterSeconds: classified.retryAfterSeconds
+  }, lines.join('\n'), true);
+}
+
+/**
+ * Converts tool data into a JSON object, as MCP requires `structuredContent` to be an object.
+ * Dates become ISO strings, arrays are wrapped as `{ items, count }` and other values as `{ value }`.
+ * @param data The data to convert
+ * @returns The structured content
+ */
+function toStructuredContent(data: any): Record<string, any> {
+  const json = data === undefined ? null : JSON.parse(JSON.stringify(data));
+  if (json === null) {
+    return {};
+  }
+  if (Array.isArray(json)) {
+    return { items: json, count: json.length };
+  }
+  if (typeof json === 'object') {
+    return json;
+  }
+  return { value: json };
+}
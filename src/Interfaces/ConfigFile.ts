@@ -0,0 +1,30 @@
+import { AzureDevOpsAuthType } from './AzureDevOps';
+import { ToolSafetyMode } from './ToolDefinition';
+
+/**
+ * Parameters filled in when a tool call leaves them out
+ */
+export interface ParameterDefaults {
+  team?: string; // Team name or ID, for `teamId`
+  repository?: string; // Repository name or ID, for `repositoryId`
+}
+
+/**
+ * A named set of connection settings under `profiles` in `azuredevops-mcp.config.json` or `.yaml`
+ */
+export interface ConfigProfile {
+  orgUrl: string;
+  project?: string;
+  authType?: AzureDevOpsAuthType;
+  personalAccessToken?: string;
+  isOnPremises?: boolean;
+  collection?: string;
+  apiVersion?: string;
+  username?: string;
+  password?: string;
+  domain?: string;
+  mode?: ToolSafetyMode;
+  allowedTools?: string[]; // Same tokens as ALLOWED_TOOLS
+  deniedTools?: string[]; // Same tokens as DENIED_TOOLS
+  defaults?: ParameterDefaults;
+}
@@ -0,0 +1,17 @@
+import { z } from 'zod';
+
+/**
+ * Zod shape of the `project` and `organization` parameters added to every tool
+ */
+export const connectionSchema = {
+  project: z.string().optional().describe("Project to run against instead of the configured default"),
+  organization: z.string().optional().describe("Named connection, organization name, or URL of a configured connection to run against instead of the configured default")
+};
+
+/**
+ * Parameters accepted by every tool to run it against another project or organization
+ */
+export interface ConnectionParams {
+  project?: string;
+  organization?: string; // Named connection, organization name or organization URL
+}
@@ -0,0 +1,26 @@
+/**
+ * Outcome of a single diagnostic check
+ */
+export type DiagnosticStatus = 'pass' | 'warn' | 'fail' | 'skip';
+
+/**
+ * A single diagnostic check and, when it did not pass, how to fix it
+ */
+export interface DiagnosticCheck {
+  name: string;
+  status: DiagnosticStatus;
+  message: string;
+  hint?: string; // Remediation for a failed or warning check
+}
+
+/**
+ * Result of diagnosing the Azure DevOps connection
+ */
+export interface DiagnosticReport {
+  orgUrl: string;
+  project: string;
+  authType: string;
+  isOnPremises: boolean;
+  healthy: boolean; // No check failed
+  checks: DiagnosticCheck[];
+}
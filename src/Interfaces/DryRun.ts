@@ -0,0 +1,44 @@
+import { z } from 'zod';
+import { formatMcpResponse, McpResponse } from './Common';
+
+/**
+ * Zod schema of the `dryRun` parameter added to every write tool that has a plan
+ */
+export const dryRunSchema = z.boolean().optional().describe("Return the planned change without applying it");
+
+/**
+ * Parameter accepted by write tools with a plan to preview their change
+ */
+export interface DryRunParams {
+  dryRun?: boolean;
+}
+
+/**
+ * The change a write tool would make, returned instead of calling Azure DevOps when `dryRun` is set
+ */
+export interface WritePlan {
+  dryRun: true;
+  operation: string; // Name of the tool that would run
+  target: Record<string, any>; // Resolved target, e.g. project, work item revision, PR status
+  payload: any; // Request body that would be sent
+  changes?: FieldChange[]; // Field values before and after, when known
+  summary: string; // Human-readable description of the change
+}
+
+/**
+ * A single field change in a write plan
+ */
+export interface FieldChange {
+  field: string;
+  from: any;
+  to: any;
+}
+
+/**
+ * Formats a write plan for MCP, returned as the `plan` property of the structured content
+ * @param plan The write plan
+ * @returns MCP-compatible response
+ */
+export function formatPlanResponse(plan: WritePlan): McpResponse {
+  return formatMcpResponse({ plan }, `Dry run: ${plan.summary}`);
+}
@@ -0,0 +1,11 @@
+import { LogLevel } from '../utils/logger';
+
+/**
+ * Configuration for the server log
+ */
+export interface LoggingConfig {
+  level: LogLevel; // Least severe level written to the log file
+  directory: string; // Directory log files are written to
+  maxFileSizeBytes: number; // Size at which the log file is rotated; 0 disables rotation
+  maxFiles: number; // Number of rotated log files kept
+}
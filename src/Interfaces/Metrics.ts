@@ -0,0 +1,39 @@
+/**
+ * Latency percentiles of recent calls, in milliseconds
+ */
+export interface LatencySummary {
+  p50: number;
+  p95: number;
+  max: number;
+}
+
+/**
+ * Metrics of one tool since the server started
+ */
+export interface ToolMetrics {
+  tool: string;
+  calls: number;
+  errors: number;
+  errorsByCode: Record<string, number>; // Error code, e.g. NOT_FOUND, to number of failed calls
+  upstreamRequests: number; // Azure DevOps requests sent by the tool's calls, including retries
+  latencyMs: LatencySummary;
+}
+
+/**
+ * Metrics of the requests sent to Azure DevOps since the server started
+ */
+export interface UpstreamMetrics {
+  requests: number; // Every attempt, including retries
+  retries: number;
+  byStatus: Record<string, number>; // HTTP status, or `network` for requests that failed without one
+}
+
+/**
+ * Snapshot of the server metrics
+ */
+export interface ServerMetrics {
+  startedAt: string;
+  uptimeSeconds: number;
+  tools: ToolMetrics[];
+  upstream: UpstreamMetrics;
+}
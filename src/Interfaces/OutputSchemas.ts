@@ -0,0 +1,1039 @@
+import { z } from 'zod';
+
+/**
+ * Zod schemas describing the structured output of the tools.
+ *
+ * Azure DevOps objects carry many optional properties, so each schema lists the commonly
+ * used ones and lets the rest pass through.
+ */
+
+/**
+ * Azure DevOps identity (user or group)
+ */
+export const identityRefSchema = z.object({
+  id: z.string().optional(),
+  displayName: z.string().optional(),
+  uniqueName: z.string().optional(),
+  url: z.string().optional(),
+  imageUrl: z.string().optional()
+}).passthrough();
+
+/**
+ * Reference to a work item returned by WIQL queries
+ */
+export const workItemReferenceSchema = z.object({
+  id: z.number().optional(),
+  url: z.string().optional()
+}).passthrough();
+
+/**
+ * Link from a work item to another work item or artifact
+ */
+export const workItemRelationSchema = z.object({
+  rel: z.string().optional(),
+  url: z.string().optional(),
+  attributes: z.record(z.any()).optional()
+}).passthrough();
+
+/**
+ * Work item with its fields keyed by reference name, e.g. `System.Title`
+ */
+export const workItemSchema = z.object({
+  id: z.number().optional(),
+  rev: z.number().optional(),
+  url: z.string().optional(),
+  fields: z.record(z.any()).optional(),
+  relations: z.array(workItemRelationSchema).optional()
+}).passthrough();
+
+/**
+ * Output of WIQL based work item queries
+ */
+export const workItemQueryResultShape = {
+  queryType: z.any().optional(),
+  queryResultType: z.any().optional(),
+  asOf: z.string().optional(),
+  columns: z.array(z.any()).optional(),
+  sortColumns: z.array(z.any()).optional(),
+  workItems: z.array(workItemReferenceSchema).optional(),
+  workItemRelations: z.array(z.any()).optional(),
+  query: z.string().optional(), // WIQL built from structured filters
+  table: z.object({
+    columns: z.array(z.string()),
+    rows: z.array(z.array(z.any()))
+  }).optional(), // Work item fields, when the query was hydrated
+  truncated: z.boolean().optional(), // More work items match than were returned
+  continuationToken: z.string().optional() // Token of the next page, for paged queries
+};
+
+/**
+ * Change of a work item field, with a line diff for text such as descriptions
+ */
+export const workItemFieldChangeSchema = z.object({
+  field: z.string(),
+  oldValue: z.any().optional(),
+  newValue: z.any().optional(),
+  diff: z.string().optional(),
+  rev: z.number().optional(),
+  changedBy: z.string().optional(),
+  changedDate: z.string().optional()
+});
+
+/**
+ * Link added to or removed from a work item
+ */
+export const workItemRelationChangeSchema = z.object({
+  rel: z.string().optional(),
+  id: z.number().optional(),
+  url: z.string().optional(),
+  comment: z.string().optional()
+});
+
+/**
+ * Changes of one revision of a work item
+ */
+export const workItemRevisionChangesSchema = z.object({
+  rev: z.number().optional(),
+  changedBy: z.string().optional(),
+  changedDate: z.string().optional(),
+  fields: z.array(workItemFieldChangeSchema),
+  relationsAdded: z.array(workItemRelationChangeSchema),
+  relationsRemoved: z.array(workItemRelationChangeSchema)
+});
+
+/**
+ * Reaction to a work item comment and how many people reacted so
+ */
+export const workItemCommentReactionSchema = z.object({
+  type: z.any().optional(),
+  count: z.number().optional(),
+  isCurrentUserEngaged: z.boolean().optional()
+}).passthrough();
+
+/**
+ * Work item comment
+ */
+export const workItemCommentSchema = z.object({
+  id: z.number().optional(),
+  text: z.string().optional(),
+  version: z.number().optional(),
+  createdBy: identityRefSchema.optional(),
+  createdDate: z.string().optional(),
+  modifiedBy: identityRefSchema.optional(),
+  modifiedDate: z.string().optional(),
+  isDeleted: z.boolean().optional(),
+  reactions: z.array(workItemCommentReactionSchema).optional()
+}).passthrough();
+
+/**
+ * Team project
+ */
+export const projectSchema = z.object({
+  id: z.string().optional(),
+  name: z.string().optional(),
+  description: z.string().optional(),
+  state: z.any().optional(),
+  visibility: z.any().optional(),
+  url: z.string().optional()
+}).passthrough();
+
+/**
+ * Process template
+ */
+export const processSchema = z.object({
+  id: z.string().optional(),
+  name: z.string().optional(),
+  description: z.string().optional()
+}).passthrough();
+
+/**
+ * Reference to a long-running operation, such as creating a project
+ */
+export const operationReferenceSchema = z.object({
+  id: z.string().optional(),
+  status: z.any().optional(),
+  url: z.string().optional()
+}).passthrough();
+
+/**
+ * Git repository
+ */
+export const repositorySchema = z.object({
+  id: z.string().optional(),
+  name: z.string().optional(),
+  defaultBranch: z.string().optional(),
+  project: projectSchema.optional(),
+  remoteUrl: z.string().optional(),
+  webUrl: z.string().optional(),
+  size: z.number().optional()
+}).passthrough();
+
+/**
+ * Branch with ahead/behind statistics
+ */
+export const branchSchema = z.object({
+  name: z.string().optional(),
+  aheadCount: z.number().optional(),
+  behindCount: z.number().optional(),
+  isBaseVersion: z.boolean().optional(),
+  commit: z.any().optional()
+}).passthrough();
+
+/**
+ * File or folder in a repository
+ */
+export const gitItemSchema = z.object({
+  path: z.string().optional(),
+  objectId: z.string().optional(),
+  gitObjectType: z.any().optional(),
+  isFolder: z.boolean().optional(),
+  url: z.string().optional()
+}).passthrough();
+
+/**
+ * Commit
+ */
+export const commitSchema = z.object({
+  commitId: z.string().optional(),
+  comment: z.string().optional(),
+  author: z.any().optional(),
+  committer: z.any().optional(),
+  url: z.string().optional()
+}).passthrough();
+
+/**
+ * Pull request
+ */
+export const pullRequestSchema = z.object({
+  pullRequestId: z.number().optional(),
+  title: z.string().optional(),
+  description: z.string().optional(),
+  status: z.union([z.string(), z.number()]).optional(),
+  mergeStatus: z.union([z.string(), z.number()]).optional(),
+  isDraft: z.boolean().optional(),
+  sourceRefName: z.string().optional(),
+  targetRefName: z.string().optional(),
+  createdBy: identityRefSchema.optional(),
+  creationDate: z.string().optional(),
+  reviewers: z.array(z.any()).optional(),
+  repository: repositorySchema.optional(),
+  url: z.string().optional()
+}).passthrough();
+
+/**
+ * Pull request reviewer and their vote
+ */
+export const reviewerSchema = identityRefSchema.extend({
+  vote: z.number().optional()
+}).passthrough();
+
+/**
+ * Pull request comment
+ */
+export const pullRequestCommentSchema = z.object({
+  id: z.number().optional(),
+  content: z.string().optional(),
+  author: identityRefSchema.optional(),
+  parentCommentId: z.number().optional(),
+  publishedDate: z.string().optional()
+}).passthrough();
+
+/**
+ * Pull request comment thread
+ */
+export const commentThreadSchema = z.object({
+  id: z.number().optional(),
+  status: z.any().optional(),
+  threadContext: z.any().optional(),
+  comments: z.array(pullRequestCommentSchema).optional()
+}).passthrough();
+
+/**
+ * Board reference
+ */
+export const boardSchema = z.object({
+  id: z.string().optional(),
+  name: z.string().optional(),
+  url: z.string().optional()
+}).passthrough();
+
+/**
+ * Board column
+ */
+export const boardColumnSchema = z.object({
+  id: z.string().optional(),
+  name: z.string().optional(),
+  columnType: z.any().optional(),
+  itemLimit: z.number().optional(),
+  stateMappings: z.record(z.string()).optional()
+}).passthrough();
+
+/**
+ * Team iteration (sprint)
+ */
+export const sprintSchema = z.object({
+  id: z.string().optional(),
+  name: z.string().optional(),
+  path: z.string().optional(),
+  attributes: z.object({
+    startDate: z.string().optional(),
+    finishDate: z.string().optional(),
+    timeFrame: z.any().optional()
+  }).passthrough().optional(),
+  url: z.string().optional()
+}).passthrough();
+
+/**
+ * Team
+ */
+export const teamSchema = z.object({
+  id: z.string().optional(),
+  name: z.string().optional(),
+  description: z.string().optional(),
+  url: z.string().optional()
+}).passthrough();
+
+/**
+ * Area or iteration classification node
+ */
+export const classificationNodeShape = {
+  id: z.string().optional(),
+  name: z.string().optional(),
+  path: z.string().optional(),
+  structureType: z.string().optional(),
+  attributes: z.record(z.any()).optional(),
+  message: z.string().optional()
+};
+
+/**
+ * Work item type of a process
+ */
+export const workItemTypeSchema = z.object({
+  referenceName: z.string().optional(),
+  name: z.string().optional(),
+  description: z.string().optional(),
+  color: z.string().optional(),
+  isDisabled: z.boolean().optional()
+}).passthrough();
+
+/**
+ * Reference to a test, with the measurements of the tool that returned it
+ */
+export const testReferenceSchema = z.object({
+  testId: z.union([z.number(), z.string()]).optional(),
+  name: z.string().optional()
+}).passthrough();
+
+/**
+ * Security finding or vulnerability
+ */
+export const securityFindingSchema = z.object({
+  id: z.string().optional(),
+  title: z.string().optional(),
+  severity: z.string().optional(),
+  description: z.string().optional(),
+  status: z.string().optional(),
+  fixedVersion: z.string().optional()
+}).passthrough();
+
+/**
+ * Artifact feed
+ */
+export const artifactFeedSchema = z.object({
+  id: z.string().optional(),
+  name: z.string().optional(),
+  description: z.string().optional(),
+  type: z.string().optional(),
+  visibility: z.string().optional(),
+  url: z.string().optional(),
+  createdDate: z.string().optional()
+}).passthrough();
+
+/**
+ * Version of a package in a feed
+ */
+export const packageVersionSchema = z.object({
+  version: z.string().optional(),
+  publishedDate: z.string().optional(),
+  views: z.array(z.string()).optional(),
+  downloadsCount: z.number().optional(),
+  isLatest: z.boolean().optional()
+}).passthrough();
+
+/**
+ * Container image of a repository
+ */
+export const containerImageSchema = z.object({
+  name: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+  size: z.string().optional(),
+  lastUpdated: z.string().optional(),
+  pullCount: z.number().optional(),
+  manifest: z.record(z.any()).optional()
+}).passthrough();
+
+/**
+ * Tag of a container image
+ */
+export const containerImageTagSchema = z.object({
+  tag: z.string().optional(),
+  createdDate: z.string().optional(),
+  size: z.string().optional(),
+  digest: z.string().optional(),
+  pullCount: z.number().optional()
+}).passthrough();
+
+/**
+ * Finding in source code, such as a review comment or code smell
+ */
+export const codeFindingSchema = z.object({
+  file: z.string().optional(),
+  line: z.number().optional(),
+  issue: z.string().optional(),
+  recommendation: z.string().optional(),
+  severity: z.string().optional()
+}).passthrough();
+
+/**
+ * Automated test run that was started
+ */
+export const automatedTestRunShape = {
+  success: z.boolean().optional(),
+  testRunId: z.number().optional(),
+  message: z.string().optional()
+};
+
+/**
+ * Progress and results of an automated test run
+ */
+export const testRunStatusShape = {
+  testRunId: z.number().optional(),
+  status: z.string().optional(),
+  completedTests: z.number().optional(),
+  totalTests: z.number().optional(),
+  passedTests: z.number().optional(),
+  failedTests: z.number().optional()
+};
+
+/**
+ * Configured test agent
+ */
+export const testAgentShape = {
+  agentName: z.string().optional(),
+  enabled: z.boolean().optional(),
+  capabilities: z.record(z.any()).optional(),
+  status: z.string().optional()
+};
+
+/**
+ * Test data generator
+ */
+export const testDataGeneratorShape = {
+  generatorId: z.string().optional(),
+  name: z.string().optional(),
+  recordCount: z.number().optional(),
+  status: z.string().optional()
+};
+
+/**
+ * Test environment and the action applied to it
+ */
+export const testEnvironmentShape = {
+  environmentName: z.string().optional(),
+  action: z.string().optional(),
+  status: z.string().optional(),
+  properties: z.record(z.any()).optional()
+};
+
+/**
+ * Flaky tests and how often they fail
+ */
+export const testFlakinessShape = {
+  flakyTests: z.array(testReferenceSchema).optional(),
+  timeRange: z.string().optional()
+};
+
+/**
+ * Test coverage gaps by area
+ */
+export const testGapAnalysisShape = {
+  coverage: z.number().optional(),
+  untested: z.array(z.record(z.any())).optional(),
+  areaPath: z.string().optional()
+};
+
+/**
+ * Tests impacted by the changes of a build
+ */
+export const testImpactAnalysisShape = {
+  buildId: z.number().optional(),
+  impactedTests: z.array(testReferenceSchema).optional(),
+  totalTests: z.number().optional(),
+  impactedTestCount: z.number().optional()
+};
+
+/**
+ * Overall test health and its trends
+ */
+export const testHealthDashboardShape = {
+  overallHealth: z.number().optional(),
+  passRate: z.number().optional(),
+  flakiness: z.number().optional(),
+  coverage: z.number().optional(),
+  executionTime: z.string().optional(),
+  trends: z.record(z.any()).optional()
+};
+
+/**
+ * Suggested optimizations of a test plan
+ */
+export const testOptimizationShape = {
+  testPlanId: z.number().optional(),
+  optimizationGoal: z.string().optional(),
+  results: z.record(z.any()).optional()
+};
+
+/**
+ * Exploratory testing session
+ */
+export const exploratorySessionShape = {
+  sessionId: z.number().optional(),
+  title: z.string().optional(),
+  description: z.string().optional(),
+  status: z.string().optional(),
+  createdDate: z.string().optional()
+};
+
+/**
+ * Findings recorded for an exploratory testing session
+ */
+export const exploratoryTestResultsShape = {
+  sessionId: z.number().optional(),
+  recordedFindings: z.number().optional(),
+  status: z.string().optional(),
+  summary: z.record(z.any()).optional()
+};
+
+/**
+ * Work items created from exploratory testing findings
+ */
+export const convertedFindingsShape = {
+  sessionId: z.number().optional(),
+  workItemIds: z.array(z.number()).optional(),
+  status: z.string().optional(),
+  workItemType: z.string().optional()
+};
+
+/**
+ * Exploratory testing statistics
+ */
+export const exploratoryTestStatisticsShape = {
+  sessionCount: z.number().optional(),
+  totalFindings: z.number().optional(),
+  convertedToWorkItems: z.number().optional(),
+  timeSpent: z.string().optional(),
+  findingsPerSession: z.number().optional(),
+  timeRange: z.string().optional()
+};
+
+/**
+ * Security scan that was started
+ */
+export const securityScanShape = {
+  scanId: z.string().optional(),
+  repositoryId: z.string().optional(),
+  branch: z.string().optional(),
+  scanType: z.string().optional(),
+  status: z.string().optional(),
+  startTime: z.string().optional(),
+  estimatedCompletionTime: z.string().optional()
+};
+
+/**
+ * Findings of a security scan
+ */
+export const securityScanResultsShape = {
+  scanId: z.string().optional(),
+  status: z.string().optional(),
+  completionTime: z.string().optional(),
+  summary: z.record(z.any()).optional(),
+  findings: z.array(securityFindingSchema).optional()
+};
+
+/**
+ * Tracked security vulnerabilities and their statistics
+ */
+export const securityVulnerabilitiesShape = {
+  vulnerabilities: z.array(securityFindingSchema).optional(),
+  statistics: z.record(z.any()).optional(),
+  timeRange: z.string().optional()
+};
+
+/**
+ * Compliance with a security standard by category
+ */
+export const securityComplianceShape = {
+  standardType: z.string().optional(),
+  generatedDate: z.string().optional(),
+  overallCompliance: z.number().optional(),
+  categories: z.array(z.record(z.any())).optional(),
+  evidence: z.record(z.any()).optional()
+};
+
+/**
+ * Results imported from a SARIF file
+ */
+export const sarifImportShape = {
+  filePath: z.string().optional(),
+  processed: z.boolean().optional(),
+  importedResults: z.number().optional(),
+  workItemsCreated: z.number().optional(),
+  summary: z.record(z.any()).optional(),
+  tools: z.array(z.string()).optional()
+};
+
+/**
+ * Results of compliance checks
+ */
+export const complianceChecksShape = {
+  complianceStandard: z.string().optional(),
+  scopeId: z.string().optional(),
+  status: z.string().optional(),
+  completionTime: z.string().optional(),
+  overallCompliance: z.number().optional(),
+  passedChecks: z.number().optional(),
+  failedChecks: z.number().optional(),
+  waivedChecks: z.number().optional(),
+  criticalFailures: z.number().optional(),
+  recommendations: z.array(z.string()).optional()
+};
+
+/**
+ * Compliance status and its history
+ */
+export const complianceStatusShape = {
+  standardId: z.string().optional(),
+  lastChecked: z.string().optional(),
+  overallCompliance: z.number().optional(),
+  statusByCategory: z.record(z.any()).optional(),
+  history: z.array(z.record(z.any())).optional()
+};
+
+/**
+ * Generated compliance report
+ */
+export const complianceReportShape = {
+  standardId: z.string().optional(),
+  format: z.string().optional(),
+  reportUrl: z.string().optional(),
+  generatedDate: z.string().optional(),
+  expiryDate: z.string().optional(),
+  reportSize: z.string().optional()
+};
+
+/**
+ * Security policy and the action applied to it
+ */
+export const securityPolicyShape = {
+  policyName: z.string().optional(),
+  action: z.string().optional(),
+  status: z.string().optional(),
+  appliedTo: z.array(z.string()).optional(),
+  effectiveDate: z.string().optional(),
+  createdBy: z.string().optional(),
+  version: z.number().optional(),
+  definition: z.record(z.any()).optional()
+};
+
+/**
+ * Security training progress of a team
+ */
+export const securityAwarenessShape = {
+  teamId: z.string().optional(),
+  completionRate: z.number().optional(),
+  trainingModules: z.array(z.record(z.any())).optional(),
+  topPerformers: z.array(z.string()).optional(),
+  needsAttention: z.array(z.string()).optional(),
+  timeRange: z.string().optional()
+};
+
+/**
+ * Rotated secrets
+ */
+export const secretRotationShape = {
+  secretName: z.string().optional(),
+  secretType: z.string().optional(),
+  status: z.string().optional(),
+  rotatedCount: z.number().optional(),
+  previousExpiryDate: z.string().optional(),
+  newExpiryDate: z.string().optional(),
+  affectedServices: z.array(z.string()).optional(),
+  force: z.boolean().optional()
+};
+
+/**
+ * Usage of secrets by service
+ */
+export const secretUsageShape = {
+  secretName: z.string().optional(),
+  timeRange: z.string().optional(),
+  totalUsage: z.number().optional(),
+  usageByService: z.record(z.any()).optional(),
+  unusedSecrets: z.array(z.string()).optional(),
+  highUsageSecrets: z.array(z.string()).optional(),
+  recommendations: z.array(z.string()).optional()
+};
+
+/**
+ * Operation on a key vault
+ */
+export const vaultOperationShape = {
+  vaultUrl: z.string().optional(),
+  secretPath: z.string().optional(),
+  action: z.string().optional(),
+  status: z.string().optional(),
+  timestamp: z.string().optional(),
+  secretValue: z.record(z.any()).optional()
+};
+
+/**
+ * Artifact feeds
+ */
+export const artifactFeedsShape = {
+  feeds: z.array(artifactFeedSchema).optional(),
+  count: z.number().optional(),
+  includeDeleted: z.boolean().optional()
+};
+
+/**
+ * Versions of a package
+ */
+export const packageVersionsShape = {
+  feedId: z.string().optional(),
+  packageName: z.string().optional(),
+  totalVersions: z.number().optional(),
+  versions: z.array(packageVersionSchema).optional()
+};
+
+/**
+ * Published package
+ */
+export const publishedPackageShape = {
+  feedId: z.string().optional(),
+  packageType: z.string().optional(),
+  packageName: z.string().optional(),
+  packageVersion: z.string().optional(),
+  publishDate: z.string().optional(),
+  status: z.string().optional(),
+  packageUrl: z.string().optional()
+};
+
+/**
+ * Package version promoted to another view
+ */
+export const promotedPackageShape = {
+  feedId: z.string().optional(),
+  packageName: z.string().optional(),
+  packageVersion: z.string().optional(),
+  sourceView: z.string().optional(),
+  targetView: z.string().optional(),
+  promotionDate: z.string().optional(),
+  status: z.string().optional(),
+  promotedBy: z.string().optional()
+};
+
+/**
+ * Deleted package version
+ */
+export const deletedPackageVersionShape = {
+  feedId: z.string().optional(),
+  packageName: z.string().optional(),
+  packageVersion: z.string().optional(),
+  deletionDate: z.string().optional(),
+  permanent: z.boolean().optional(),
+  status: z.string().optional(),
+  deletedBy: z.string().optional()
+};
+
+/**
+ * Container images of a repository
+ */
+export const containerImagesShape = {
+  repositoryName: z.string().optional(),
+  images: z.array(containerImageSchema).optional(),
+  count: z.number().optional(),
+  includeDeleted: z.boolean().optional()
+};
+
+/**
+ * Tags of a container image
+ */
+export const containerImageTagsShape = {
+  repositoryName: z.string().optional(),
+  imageName: z.string().optional(),
+  totalTags: z.number().optional(),
+  tags: z.array(containerImageTagSchema).optional()
+};
+
+/**
+ * Vulnerability and compliance scan of a container image
+ */
+export const containerImageScanShape = {
+  repositoryName: z.string().optional(),
+  imageTag: z.string().optional(),
+  scanType: z.string().optional(),
+  scanDate: z.string().optional(),
+  vulnerabilities: z.array(securityFindingSchema).optional(),
+  complianceIssues: z.array(z.any()).optional(),
+  overallRisk: z.string().optional(),
+  scanStatus: z.string().optional()
+};
+
+/**
+ * Container repository policy and the action applied to it
+ */
+export const containerPolicyShape = {
+  repositoryName: z.string().optional(),
+  policyType: z.string().optional(),
+  action: z.string().optional(),
+  status: z.string().optional(),
+  appliedDate: z.string().optional(),
+  appliedBy: z.string().optional(),
+  policySettings: z.record(z.any()).optional()
+};
+
+/**
+ * Universal package and the action applied to it
+ */
+export const universalPackageShape = {
+  packageName: z.string().optional(),
+  action: z.string().optional(),
+  packageVersion: z.string().optional(),
+  status: z.string().optional(),
+  timestamp: z.string().optional(),
+  size: z.string().optional(),
+  packagePath: z.string().optional(),
+  packageUrl: z.string().optional()
+};
+
+/**
+ * Package download report
+ */
+export const packageDownloadReportShape = {
+  feedId: z.string().optional(),
+  packageName: z.string().optional(),
+  timeRange: z.string().optional(),
+  format: z.string().optional(),
+  reportDate: z.string().optional(),
+  totalDownloads: z.number().optional(),
+  reportUrl: z.string().optional(),
+  packages: z.array(z.record(z.any())).optional(),
+  topConsumers: z.array(z.record(z.any())).optional()
+};
+
+/**
+ * Dependencies of a package and their vulnerabilities
+ */
+export const packageDependenciesShape = {
+  packageName: z.string().optional(),
+  packageVersion: z.string().optional(),
+  directDependencies: z.array(z.record(z.any())).optional(),
+  transitiveDependencies: z.array(z.record(z.any())).optional(),
+  vulnerabilities: z.array(securityFindingSchema).optional(),
+  summary: z.record(z.any()).optional()
+};
+
+/**
+ * Code review suggestions for a pull request
+ */
+export const codeReviewShape = {
+  pullRequestId: z.number().optional(),
+  repositoryId: z.string().optional(),
+  suggestions: z.array(codeFindingSchema).optional(),
+  analysisDate: z.string().optional()
+};
+
+/**
+ * Optimization suggestions for a file
+ */
+export const codeOptimizationShape = {
+  repositoryId: z.string().optional(),
+  filePath: z.string().optional(),
+  lineRange: z.string().optional(),
+  optimizationType: z.string().optional(),
+  suggestions: z.array(codeFindingSchema).optional()
+};
+
+/**
+ * Code smells found in a branch
+ */
+export const codeSmellsShape = {
+  repositoryId: z.string().optional(),
+  branch: z.string().optional(),
+  codeSmells: z.array(codeFindingSchema).optional(),
+  severity: z.string().optional()
+};
+
+/**
+ * Code likely to contain bugs
+ */
+export const bugPredictionShape = {
+  repositoryId: z.string().optional(),
+  pullRequestId: z.number().optional(),
+  branch: z.string().optional(),
+  potentialIssues: z.array(codeFindingSchema).optional(),
+  analysisDate: z.string().optional()
+};
+
+/**
+ * Productivity metrics of a developer or team
+ */
+export const developerProductivityShape = {
+  userId: z.string().optional(),
+  teamId: z.string().optional(),
+  timeRange: z.string().optional(),
+  metrics: z.record(z.any()).optional(),
+  trends: z.record(z.any()).optional()
+};
+
+/**
+ * Predicted effort of work items
+ */
+export const effortEstimationShape = {
+  workItemIds: z.array(z.number()).optional(),
+  estimations: z.array(z.record(z.any())).optional(),
+  modelFactors: z.array(z.string()).optional()
+};
+
+/**
+ * Code quality metrics over time
+ */
+export const codeQualityTrendsShape = {
+  repositoryId: z.string().optional(),
+  branch: z.string().optional(),
+  timeRange: z.string().optional(),
+  metrics: z.array(z.string()).optional(),
+  trends: z.record(z.any()).optional(),
+  timePoints: z.array(z.string()).optional()
+};
+
+/**
+ * Suggested refinements of a work item
+ */
+export const workItemRefinementsShape = {
+  workItemId: z.number().optional(),
+  workItemType: z.string().optional(),
+  suggestions: z.array(z.record(z.any())).optional(),
+  similarWorkItems: z.array(z.number()).optional()
+};
+
+/**
+ * Opportunities for automation
+ */
+export const automationOpportunitiesShape = {
+  projectId: z.string().optional(),
+  scopeType: z.string().optional(),
+  opportunities: z.array(z.record(z.any())).optional()
+};
+
+/**
+ * Created alert
+ */
+export const intelligentAlertShape = {
+  alertId: z.string().optional(),
+  alertName: z.string().optional(),
+  alertType: z.string().optional(),
+  conditions: z.record(z.any()).optional(),
+  actions: z.record(z.any()).optional(),
+  status: z.string().optional(),
+  createdDate: z.string().optional()
+};
+
+/**
+ * Predicted build failures
+ */
+export const buildFailurePredictionShape = {
+  buildDefinitionId: z.number().optional(),
+  lookbackPeriod: z.string().optional(),
+  prediction: z.record(z.any()).optional()
+};
+
+/**
+ * Tests selected for the changes of a build
+ */
+export const testSelectionShape = {
+  buildId: z.number().optional(),
+  changedFiles: z.array(z.string()).optional(),
+  selectedTests: z.array(testReferenceSchema).optional(),
+  excludedTests: z.number().optional(),
+  estimatedTimeReduction: z.string().optional()
+};
+
+/**
+ * Result of a single connection diagnostic check
+ */
+export const diagnosticCheckSchema = z.object({
+  name: z.string(),
+  status: z.enum(['pass', 'warn', 'fail', 'skip']),
+  message: z.string(),
+  hint: z.string().optional()
+});
+
+/**
+ * Call metrics of a single tool
+ */
+export const toolMetricsSchema = z.object({
+  tool: z.string(),
+  calls: z.number(),
+  errors: z.number(),
+  errorsByCode: z.record(z.number()),
+  upstreamRequests: z.number(),
+  latencyMs: z.object({ p50: z.number(), p95: z.number(), max: z.number() })
+});
+
+/**
+ * Audit log entry of a tool call that changed Azure DevOps
+ */
+export const auditEntrySchema = z.object({
+  timestamp: z.string(),
+  sessionId: z.string(),
+  tool: z.string(),
+  access: z.string(),
+  organization: z.string(),
+  project: z.string(),
+  params: z.record(z.any()),
+  targets: z.array(z.object({
+    type: z.string(),
+    id: z.union([z.string(), z.number()]),
+    rev: z.number().optional()
+  })),
+  outcome: z.enum(['success', 'error']),
+  traceId: z.string().optional(),
+  error: z.string().optional(),
+  errorCode: z.string().optional()
+});
+
+/**
+ * Properties added by the response budget when a result is shortened or paged
+ */
+export const responsePageShape = {
+  truncated: z.boolean().optional(),
+  total: z.number().optional(),
+  continuationToken: z.string().optional()
+};
+
+/**
+ * Plan returned by write tools called with `dryRun: true`
+ */
+export const writePlanSchema = z.object({
+  dryRun: z.literal(true),
+  operation: z.string(),
+  target: z.record(z.any()),
+  payload: z.any(),
+  changes: z.array(z.object({
+    field: z.string(),
+    from: z.any(),
+    to: z.any()
+  })).optional(),
+  summary: z.string()
+});
@@ -1,3 +1,5 @@
+import { MetadataEntity } from './Cache';
+
 /**
  * Interface for listing projects
  */
@@ -83,4 +85,11 @@ export interface GetWorkItemTypesParams {
 export interface GetWorkItemTypeFieldsParams {
   processId: string;
   witRefName: string;
-} 
\ No newline at end of file
+} 
+
+/**
+ * Interface for clearing the metadata cache
+ */
+export interface ClearCacheParams {
+  entity?: MetadataEntity;
+}
@@ -0,0 +1,32 @@
+import { z, ZodOptional, ZodType, ZodTypeAny, ZodTypeDef } from 'zod';
+import { GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Zod shape of prompt arguments. MCP passes every prompt argument as a string.
+ */
+export type PromptArgsShape = {
+  [name: string]: ZodType<string, ZodTypeDef, string> | ZodOptional<ZodType<string, ZodTypeDef, string>>;
+};
+
+/**
+ * Declarative description of an MCP prompt
+ */
+export interface PromptDefinition<TPrompts = any, TArgs extends PromptArgsShape = PromptArgsShape> {
+  name: string;
+  title: string;
+  description: string;
+  args: TArgs;
+  tools: string[]; // Tools that read the same data as the prompt; the prompt is only exposed when they are all allowed
+  render(prompts: TPrompts, args: z.objectOutputType<TArgs, ZodTypeAny>): Promise<GetPromptResult>;
+}
+
+/**
+ * Declares a prompt, inferring the argument types from its zod shape
+ * @param definition The prompt definition
+ * @returns The same definition
+ */
+export function definePrompt<TPrompts, TArgs extends PromptArgsShape>(
+  definition: PromptDefinition<TPrompts, TArgs>
+): PromptDefinition<TPrompts, TArgs> {
+  return definition;
+}
@@ -0,0 +1,15 @@
+import { ReadResourceResult, Resource } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Declarative description of an MCP resource template
+ */
+export interface ResourceDefinition<TResources = any> {
+  name: string;
+  uriTemplate: string; // RFC 6570 URI template, e.g. `ado://{project}/workitems/{id}`
+  title: string;
+  description: string;
+  mimeType: string;
+  tool: string; // Tool that reads the same data; the resource is only exposed when that tool is allowed
+  read(resources: TResources, variables: Record<string, string>, uri: URL): Promise<ReadResourceResult>;
+  list?(resources: TResources): Promise<Resource[]>; // Recently changed items, returned by resources/list
+}
@@ -0,0 +1,309 @@
+import { createHash } from 'crypto';
+import { z } from 'zod';
+import { formatMcpResponse, McpResponse } from './Common';
+import { containsHtml, htmlToText } from '../utils/text';
+
+/**
+ * Default maximum size of a budgeted result, in characters of JSON
+ */
+export const DEFAULT_MAX_RESPONSE_SIZE = 50000;
+
+// Long strings are cut to this length first, and to no less than the minimum when a single object is still too large
+const DEFAULT_MAX_STRING_LENGTH = 2000;
+const MIN_MAX_STRING_LENGTH = 200;
+
+/**
+ * Zod shape of the parameters added to tools with large results
+ */
+export const responseBudgetSchema = {
+  fields: z.array(z.string()).optional().describe("Only return these properties, as dotted paths such as \"fields.System.Title\""),
+  maxResponseSize: z.number().int().positive().optional().describe(`Maximum size of the result in characters (default ${DEFAULT_MAX_RESPONSE_SIZE})`),
+  continuationToken: z.string().optional().describe("Token from a previous truncated response, to fetch the next page")
+};
+
+/**
+ * Parameters accepted by tools with large results
+ */
+export interface ResponseBudgetParams {
+  fields?: string[];
+  maxResponseSize?: number;
+  continuationToken?: string;
+}
+
+interface ContinuationState {
+  operation: string;
+  offset: number;
+  fingerprint: string;
+}
+
+interface BudgetedValue {
+  value: any;
+  truncated: boolean;
+  offset?: number; // Index of the first list item or character returned
+  returned?: number; // Number of list items or characters returned
+  total?: number;
+  nextOffset?: number;
+}
+
+/**
+ * Formats a response within the caller's response budget.
+ *
+ * The budget applies to `data[key]`: a list is projected to `fields` and paged, a string is split
+ * into chunks, and an object is projected to `fields`. Long strings are shortened only when the
+ * result does not fit. When more data is available the result carries a `continuationToken`
+ * that the same tool accepts, with the same parameters, to return the next page.
+ * @param operation Name of the tool
+ * @param params The tool parameters
+ * @param data The structured result
+ * @param key The property of `data` the budget applies to
+ * @param message Summary of the result
+ * @returns MCP-compatible response
+ */
+export function formatBudgetedResponse(
+  operation: string,
+  params: ResponseBudgetParams,
+  data: Record<string, any>,
+  key: string,
+  message: string
+): McpResponse {
+  const maxSize = params.maxResponseSize || DEFAULT_MAX_RESPONSE_SIZE;
+  const fingerprint = getFingerprint(operation, params);
+  const offset = params.continuationToken ? readContinuationToken(params.continuationToken, operation, fingerprint) : 0;
+
+  // Round-trip through JSON so dates and class instances are measured as they will be sent
+  const value = data[key] === undefined ? undefined : JSON.parse(JSON.stringify(data[key]));
+  let budgeted: BudgetedValue;
+  if (Array.isArray(value)) {
+    budgeted = pageItems(value.map(item => projectFields(item, params.fields)), offset, maxSize);
+  } else if (typeof value === 'string') {
+    budgeted = pageText(value, offset, maxSize);
+  } else {
+    budgeted = shortenToFit(projectFields(value, params.fields), maxSize);
+  }
+
+  const result: Record<string, any> = { ...data, [key]: budgeted.value };
+  if ('count' in data && Array.isArray(budgeted.value)) {
+    result.count = budgeted.value.length;
+  }
+  if (budgeted.truncated) {
+    result.truncated = true;
+  }
+  if (budgeted.total !== undefined && budgeted.returned !== budgeted.total) {
+    result.total = budgeted.total;
+  }
+  if (budgeted.nextOffset !== undefined) {
+    result.continuationToken = createContinuationToken({ operation, offset: budgeted.nextOffset, fingerprint });
+  }
+
+  return formatMcpResponse(result, `${message}${describeBudget(budgeted, Array.isArray(value))}`);
+}
+
+/**
+ * Copies only the given property paths of an object. Azure DevOps field names such as
+ * `System.Title` contain dots, so each path segment matches the longest property name it can.
+ * Paths through a list apply to every element, e.g. `comments.content`.
+ */
+function projectFields(value: any, fields?: string[]): any {
+  if (!fields || fields.length === 0 || !value || typeof value !== 'object') {
+    return value;
+  }
+  const projected: Record<string, any> = {};
+  for (const path of fields) {
+    copyPath(value, projected, path);
+  }
+  return projected;
+}
+
+function copyPath(source: any, target: any, path: string): void {
+  if (Array.isArray(source)) {
+    source.forEach((element, index) => {
+      if (element && typeof element === 'object') {
+        target[index] = target[index] || {};
+        copyPath(element, target[index], path);
+      }
+    });
+    return;
+  }
+
+  const key = Object.keys(source)
+    .filter(name => path === name || path.startsWith(`${name}.`))
+    .sort((a, b) => b.length - a.length)[0];
+  if (key === undefined) {
+    return;
+  }
+  if (key === path) {
+    target[key] = source[key];
+    return;
+  }
+
+  const child = source[key];
+  if (!child || typeof child !== 'object') {
+    return;
+  }
+  target[key] = target[key] || (Array.isArray(child) ? [] : {});
+  copyPath(child, target[key], path.slice(key.length + 1));
+}
+
+/**
+ * Returns the items from `offset` that fit in `maxSize`, shortening long strings first if the
+ * remaining items do not fit. At least one item is always returned.
+ */
+function pageItems(items: any[], offset: number, maxSize: number): BudgetedValue {
+  let remaining = items.slice(offset);
+  let truncated = false;
+
+  if (sizeOf(remaining) > maxSize) {
+    remaining = remaining.map(item => {
+      const shortened = shortenStrings(item, DEFAULT_MAX_STRING_LENGTH);
+      truncated = truncated || shortened.truncated;
+      return shortened.value;
+    });
+  }
+
+  const page: any[] = [];
+  let size = 2; // Brackets of the JSON array
+  for (const item of remaining) {
+    const itemSize = sizeOf(item) + 1;
+    if (page.length > 0 && size + itemSize > maxSize) {
+      break;
+    }
+    if (page.length === 0 && itemSize > maxSize) {
+      const shortened = shortenToFit(item, maxSize);
+      truncated = truncated || shortened.truncated;
+      page.push(shortened.value);
+    } else {
+      page.push(item);
+    }
+    size += itemSize;
+  }
+
+  const nextOffset = offset + page.length;
+  return {
+    value: page,
+    truncated: truncated || nextOffset < items.length,
+    offset,
+    returned: page.length,
+    total: items.length,
+    nextOffset: nextOffset < items.length ? nextOffset : undefined
+  };
+}
+
+/**
+ * Returns the characters from `offset` that fit in `maxSize`, ending the chunk at a line break when possible
+ */
+function pageText(text: string, offset: number, maxSize: number): BudgetedValue {
+  let end = Math.min(offset + maxSize, text.length);
+  if (end < text.length) {
+    const lineBreak = text.lastIndexOf('\n', end);
+    if (lineBreak > offset + maxSize / 2) {
+      end = lineBreak + 1;
+    }
+  }
+
+  return {
+    value: text.slice(offset, end),
+    truncated: offset > 0 || end < text.length,
+    offset,
+    returned: end - offset,
+    total: text.length,
+    nextOffset: end < text.length ? end : undefined
+  };
+}
+
+/**
+ * Shortens long strings in a value, halving the string limit until the value fits in `maxSize`
+ */
+function shortenToFit(value: any, maxSize: number): BudgetedValue {
+  if (sizeOf(value) <= maxSize) {
+    return { value, truncated: false };
+  }
+
+  let limit = DEFAULT_MAX_STRING_LENGTH;
+  let shortened = shortenStrings(value, limit);
+  while (sizeOf(shortened.value) > maxSize && limit > MIN_MAX_STRING_LENGTH) {
+    limit = Math.max(Math.floor(limit / 2), MIN_MAX_STRING_LENGTH);
+    shortened = shortenStrings(value, limit);
+  }
+  return shortened;
+}
+
+function shortenStrings(value: any, limit: number): BudgetedValue {
+  if (typeof value === 'string') {
+    const shortened = shortenString(value, limit);
+    return { value: shortened, truncated: shortened !== value };
+  }
+  if (!value || typeof value !== 'object') {
+    return { value, truncated: false };
+  }
+
+  let truncated = false;
+  const copy: any = Array.isArray(value) ? [] : {};
+  for (const [key, child] of Object.entries(value)) {
+    const shortened = shortenStrings(child, limit);
+    truncated = truncated || shortened.truncated;
+    copy[key] = shortened.value;
+  }
+  return { value: copy, truncated };
+}
+
+/**
+ * Shortens a string to about `limit` characters. HTML, such as work item descriptions and
+ * comments, is converted to plain text first, and the cut is made at a word boundary.
+ */
+function shortenString(text: string, limit: number): string {
+  if (text.length <= limit) {
+    return text;
+  }
+
+  const plain = containsHtml(text) ? htmlToText(text) : text;
+  if (plain.length <= limit) {
+    return plain;
+  }
+
+  let cut = plain.lastIndexOf(' ', limit);
+  if (cut < limit * 0.8) {
+    cut = limit;
+  }
+  return `${plain.slice(0, cut)}… [truncated ${plain.length - cut} characters]`;
+}
+
+function describeBudget(budgeted: BudgetedValue, isList: boolean): string {
+  if (budgeted.total === undefined || budgeted.returned === budgeted.total) {
+    return budgeted.truncated ? ' (long text shortened to fit the response size)' : '';
+  }
+
+  const unit = isList ? 'items' : 'characters';
+  const first = (budgeted.offset || 0) + 1;
+  const last = (budgeted.offset || 0) + (budgeted.returned || 0);
+  const more = budgeted.nextOffset !== undefined ? '; pass continuationToken to get the next page' : '';
+  return ` (${unit} ${first}-${last} of ${budgeted.total}${more})`;
+}
+
+function sizeOf(value: any): number {
+  return value === undefined ? 0 : JSON.stringify(value).length;
+}
+
+/**
+ * Identifies the request a continuation token belongs to, ignoring the page size
+ */
+function getFingerprint(operation: string, params: ResponseBudgetParams): string {
+  const { continuationToken, maxResponseSize, ...request } = params;
+  return createHash('sha256').update(`${operation}:${JSON.stringify(request)}`).digest('hex').slice(0, 16);
+}
+
+function createContinuationToken(state: ContinuationState): string {
+  return Buffer.from(JSON.stringify(state), 'utf8').toString('base64url');
+}
+
+function readContinuationToken(token: string, operation: string, fingerprint: string): number {
+  let state: ContinuationState;
+  try {
+    state = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+  } catch {
+    throw new Error('Invalid continuation token');
+  }
+  if (state.operation !== operation || state.fingerprint !== fingerprint || typeof state.offset !== 'number') {
+    throw new Error(`Continuation token does not belong to this ${operation} request; repeat the call with the same parameters`);
+  }
+  return state.offset;
+}
@@ -0,0 +1,23 @@
+/**
+ * Configuration for retrying Azure DevOps requests that failed with a throttling or transient error
+ */
+export interface RetryConfig {
+  maxRetries: number; // Retries after the first attempt; 0 disables retries
+  baseDelayMs: number; // Delay before the first retry, doubled on every further retry
+  maxDelayMs: number; // Longest wait before a retry; a longer Retry-After fails the call instead
+}
+
+/**
+ * Rate-limit state reported by Azure DevOps in the `Retry-After` and `X-RateLimit-*` response headers
+ */
+export interface RateLimitState {
+  route: string; // Path of the request that reported the state
+  status: number;
+  resource?: string; // X-RateLimit-Resource, e.g. `ATCPU`
+  delaySeconds?: number; // X-RateLimit-Delay: how long the request was delayed
+  limit?: number; // X-RateLimit-Limit
+  remaining?: number; // X-RateLimit-Remaining
+  resetAt?: string; // X-RateLimit-Reset as an ISO date
+  retryAfterSeconds?: number; // Retry-After
+  updatedAt: string;
+}
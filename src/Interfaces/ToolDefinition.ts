@@ -0,0 +1,45 @@
+import { z, ZodRawShape, ZodTypeAny } from 'zod';
+import { McpResponse } from './Common';
+
+/**
+ * Safety tier of a tool: `read` only reads from Azure DevOps, `write` changes it,
+ * and `destructive` makes changes that are hard to undo or affect a lot of data
+ */
+export type ToolAccess = 'read' | 'write' | 'destructive';
+
+/**
+ * Which tool tiers the server exposes, set with `AZURE_DEVOPS_MODE`
+ */
+export type ToolSafetyMode = 'readonly' | 'write' | 'full';
+
+/**
+ * The MCP session a tool is called in
+ */
+export interface ToolCallContext {
+  sessionId: string; // MCP session ID, or `stdio` for the stdio transport
+}
+
+/**
+ * Declarative description of a single MCP tool exposed by a Tools class
+ */
+export interface ToolDefinition<TTools = any, TShape extends ZodRawShape = ZodRawShape> {
+  name: string;
+  description: string;
+  access: ToolAccess;
+  optIn?: boolean; // Only exposed when ALLOWED_TOOLS names it, not by default, patterns, groups or tiers
+  schema: TShape; // Zod shape of the tool parameters
+  output?: ZodRawShape; // Zod shape of the structured content the tool returns
+  handler(tools: TTools, params: z.objectOutputType<TShape, ZodTypeAny>, context: ToolCallContext): Promise<McpResponse>;
+  plan?(tools: TTools, params: z.objectOutputType<TShape, ZodTypeAny>): Promise<McpResponse>; // Dry-run preview; write tools without one do not accept dryRun
+}
+
+/**
+ * Declares a tool, inferring the handler parameter types from its zod schema
+ * @param definition The tool definition
+ * @returns The same definition
+ */
+export function defineTool<TTools, TShape extends ZodRawShape>(
+  definition: ToolDefinition<TTools, TShape>
+): ToolDefinition<TTools, TShape> {
+  return definition;
+}
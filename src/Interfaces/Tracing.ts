@@ -0,0 +1,33 @@
+/**
+ * Where finished spans are sent
+ */
+export type TraceExporterType = 'none' | 'otlp' | 'file';
+
+/**
+ * Configuration for tracing
+ */
+export interface TracingConfig {
+  exporter: TraceExporterType;
+  serviceName: string;
+  endpoint?: string; // OTLP/HTTP traces endpoint, e.g. http://localhost:4318/v1/traces
+  headers?: Record<string, string>; // Headers sent to the OTLP endpoint, e.g. an API key
+  file?: string; // JSONL file spans are appended to
+}
+
+export type SpanAttributes = Record<string, string | number | boolean | undefined>;
+
+/**
+ * A finished span, as written by the file exporter
+ */
+export interface SpanData {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: 'internal' | 'server' | 'client';
+  startTime: string; // ISO date
+  durationMs: number;
+  attributes: SpanAttributes;
+  status: 'unset' | 'ok' | 'error';
+  statusMessage?: string;
+}
@@ -0,0 +1,18 @@
+/**
+ * Defines the transports the MCP server can listen on.
+ */
+export type McpTransportType = 'stdio' | 'http';
+
+/**
+ * Configuration for the MCP server transport
+ */
+export interface TransportConfig {
+  type: McpTransportType;
+  host: string; // Interface to bind when using the HTTP transport
+  port: number; // Port to listen on when using the HTTP transport
+  metrics: boolean; // Serve Prometheus metrics at /metrics when using the HTTP transport
+  allowedHosts: string[]; // `Host` headers accepted, as `name:port`, against DNS rebinding
+  allowedOrigins?: string[]; // `Origin` headers accepted; not checked when unset
+  authToken?: string; // Bearer token every HTTP request must carry
+  sessionIdleTimeoutSeconds: number; // Sessions without requests for this long are closed; 0 keeps them
+}
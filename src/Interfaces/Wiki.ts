@@ -0,0 +1,8 @@
+/**
+ * Interface for getting the content of a wiki page
+ */
+export interface GetWikiPageParams {
+  wikiIdentifier: string; // Wiki name or ID
+  path: string; // Page path, e.g. /Home
+  version?: string; // Branch of a code wiki
+}
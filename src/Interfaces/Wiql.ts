@@ -0,0 +1,56 @@
+/**
+ * Comparison operators of WIQL conditions. `WAS EVER` is the name the query editor shows for `EVER`.
+ */
+export const WIQL_OPERATORS = [
+  '=', '<>', '>', '>=', '<', '<=',
+  'CONTAINS', 'NOT CONTAINS', 'CONTAINS WORDS', 'NOT CONTAINS WORDS',
+  'IN', 'NOT IN', 'UNDER', 'NOT UNDER', 'EVER', 'WAS EVER', 'NOT EVER', 'IN GROUP', 'NOT IN GROUP'
+] as const;
+
+export type WiqlOperator = typeof WIQL_OPERATORS[number];
+
+/**
+ * A macro such as `@me`, `@today - 7` or `@currentIteration`, written to the query unquoted
+ */
+export interface WiqlMacro {
+  macro: string;
+  offset?: number; // Days, months, ... added to date macros, e.g. -7 for `@today - 7`
+}
+
+/**
+ * A value compared with a field. Strings are quoted and escaped, never spliced into the query.
+ */
+export type WiqlValue = string | number | boolean | Date | WiqlMacro;
+
+/**
+ * A condition on one field, e.g. `[System.State] IN ('Active', 'New')`
+ */
+export interface WiqlCondition {
+  field: string; // Reference name, e.g. `System.State`
+  operator: WiqlOperator;
+  value: WiqlValue | WiqlValue[]; // A list for IN and NOT IN
+}
+
+/**
+ * Conditions of which at least one must hold
+ */
+export interface WiqlAnyOf {
+  anyOf: WiqlExpression[];
+}
+
+/**
+ * Conditions that must all hold
+ */
+export interface WiqlAllOf {
+  allOf: WiqlExpression[];
+}
+
+export type WiqlExpression = WiqlCondition | WiqlAnyOf | WiqlAllOf;
+
+/**
+ * A sort column of `ORDER BY`
+ */
+export interface WiqlOrder {
+  field: string;
+  direction?: 'ASC' | 'DESC';
+}
@@ -0,0 +1,181 @@
+import { WorkItem, WorkItemRelation, WorkItemUpdate } from 'azure-devops-node-api/interfaces/WorkItemTrackingInterfaces';
+import { containsHtml, diffLines, htmlToText } from '../utils/text';
+
+/**
+ * Fields Azure DevOps sets on every revision. The changer and date are reported once per
+ * revision instead of as field changes.
+ */
+const REVISION_FIELDS = new Set([
+  'System.Rev', 'System.ChangedDate', 'System.ChangedBy', 'System.RevisedDate', 'System.AuthorizedDate',
+  'System.AuthorizedAs', 'System.PersonId', 'System.Watermark'
+]);
+
+/**
+ * Change of one field. HTML values, such as descriptions, are converted to text and compared line by line.
+ */
+export interface WorkItemFieldChange {
+  field: string;
+  oldValue?: any;
+  newValue?: any;
+  diff?: string; // Line diff of text values, see `diffLines`
+  rev?: number; // Revision that last changed the field, in revision diffs
+  changedBy?: string;
+  changedDate?: string;
+}
+
+/**
+ * Link added to or removed from a work item
+ */
+export interface WorkItemRelationChange {
+  rel?: string; // Link type, e.g. `System.LinkTypes.Hierarchy-Reverse` for the parent
+  id?: number; // Linked work item
+  url?: string; // Linked artifact other than a work item
+  comment?: string;
+}
+
+/**
+ * Changes of one revision of a work item, who made them and when
+ */
+export interface WorkItemRevisionChanges {
+  rev?: number;
+  changedBy?: string;
+  changedDate?: string;
+  fields: WorkItemFieldChange[];
+  relationsAdded: WorkItemRelationChange[];
+  relationsRemoved: WorkItemRelationChange[];
+}
+
+/**
+ * Differences between two revisions of a work item
+ */
+export interface WorkItemRevisionDiff {
+  id: number;
+  fromRevision: number;
+  toRevision: number;
+  fields: WorkItemFieldChange[];
+  relationsAdded: WorkItemRelationChange[];
+  relationsRemoved: WorkItemRelationChange[];
+}
+
+/**
+ * Read the changes of an update, as returned by the updates API
+ * @param update The update
+ * @param fields Only report changes to these fields; all fields when empty
+ */
+export function toRevisionChanges(update: WorkItemUpdate, fields?: string[]): WorkItemRevisionChanges {
+  const updatedFields = update.fields || {};
+  const changedDate = updatedFields['System.ChangedDate']?.newValue ?? update.revisedDate;
+  return {
+    rev: update.rev,
+    changedBy: formatValue(update.revisedBy),
+    changedDate: changedDate ? formatValue(new Date(changedDate)) : undefined,
+    fields: Object.entries(updatedFields)
+      .filter(([field]) => isReported(field, fields))
+      .map(([field, change]) => toFieldChange(field, change.oldValue, change.newValue)),
+    relationsAdded: (update.relations?.added || []).map(toRelationChange),
+    relationsRemoved: (update.relations?.removed || []).map(toRelationChange)
+  };
+}
+
+/**
+ * Compare two revisions of a work item, fetched with their relations
+ * @param from The earlier revision
+ * @param to The later revision
+ * @param fields Only compare these fields; all fields when empty
+ */
+export function diffRevisions(from: WorkItem, to: WorkItem, fields?: string[]): WorkItemRevisionDiff {
+  const oldFields = from.fields || {};
+  const newFields = to.fields || {};
+  const names = Array.from(new Set([...Object.keys(oldFields), ...Object.keys(newFields)]));
+  const oldRelations = (from.relations || []).map(toRelationChange);
+  const newRelations = (to.relations || []).map(toRelationChange);
+  const key = (relation: WorkItemRelationChange) => `${relation.rel}|${relation.id ?? relation.url}`;
+  const oldKeys = new Set(oldRelations.map(key));
+  const newKeys = new Set(newRelations.map(key));
+
+  return {
+    id: (to.id ?? from.id)!,
+    fromRevision: from.rev!,
+    toRevision: to.rev!,
+    fields: names
+      .filter(field => isReported(field, fields) && !isEqual(oldFields[field], newFields[field]))
+      .map(field => toFieldChange(field, oldFields[field], newFields[field])),
+    relationsAdded: newRelations.filter(relation => !oldKeys.has(key(relation))),
+    relationsRemoved: oldRelations.filter(relation => !newKeys.has(key(relation)))
+  };
+}
+
+/**
+ * Format revision changes as text, one line per field or link, for clients that only read the text content
+ */
+export function formatRevisionChanges(revisions: WorkItemRevisionChanges[]): string {
+  return revisions.map(revision => [
+    `Revision ${revision.rev} by ${revision.changedBy || 'unknown'} on ${revision.changedDate || 'unknown date'}`,
+    ...formatChanges(revision)
+  ].join('\n')).join('\n\n');
+}
+
+/**
+ * Format a revision diff as text, one line per field or link
+ */
+export function formatRevisionDiff(diff: WorkItemRevisionDiff): string {
+  const changes = formatChanges(diff);
+  return changes.length > 0 ? changes.join('\n') : 'No changes';
+}
+
+function formatChanges(changes: Pick<WorkItemRevisionChanges, 'fields' | 'relationsAdded' | 'relationsRemoved'>): string[] {
+  return [
+    ...changes.fields.map(change => {
+      const by = change.changedBy ? ` (revision ${change.rev} by ${change.changedBy} on ${change.changedDate})` : '';
+      return change.diff !== undefined
+        ? `  ${change.field}${by}:\n${change.diff.split('\n').map(line => `    ${line}`).join('\n')}`
+        : `  ${change.field}: ${formatText(change.oldValue)} -> ${formatText(change.newValue)}${by}`;
+    }),
+    ...changes.relationsAdded.map(relation => `  + ${relation.rel} ${relation.id ?? relation.url}`),
+    ...changes.relationsRemoved.map(relation => `  - ${relation.rel} ${relation.id ?? relation.url}`)
+  ];
+}
+
+function isReported(field: string, fields?: string[]): boolean {
+  return fields?.length ? fields.includes(field) : !REVISION_FIELDS.has(field);
+}
+
+function toFieldChange(field: string, oldValue: any, newValue: any): WorkItemFieldChange {
+  const oldText = formatValue(oldValue);
+  const newText = formatValue(newValue);
+  const isText = (value: any) => typeof value === 'string' && (containsHtml(value) || value.includes('\n'));
+  if (isText(oldValue) || isText(newValue)) {
+    const oldPlain = typeof oldValue === 'string' ? toPlainText(oldValue) : oldText;
+    const newPlain = typeof newValue === 'string' ? toPlainText(newValue) : newText;
+    return { field, oldValue: oldPlain, newValue: newPlain, diff: diffLines(oldPlain || '', newPlain || '') };
+  }
+  return { field, oldValue: oldText, newValue: newText };
+}
+
+function toRelationChange(relation: WorkItemRelation): WorkItemRelationChange {
+  const id = /\/workItems\/(\d+)$/i.exec(relation.url || '')?.[1];
+  return {
+    rel: relation.rel,
+    ...(id ? { id: Number(id) } : { url: relation.url }),
+    ...(relation.attributes?.comment && { comment: relation.attributes.comment })
+  };
+}
+
+function toPlainText(value: string): string {
+  return containsHtml(value) ? htmlToText(value) : value;
+}
+
+function formatValue(value: any): any {
+  if (value && typeof value === 'object' && 'displayName' in value) {
+    return value.displayName; // Identity fields, e.g. System.AssignedTo
+  }
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+function formatText(value: any): string {
+  return value === undefined || value === null || value === '' ? '(empty)' : JSON.stringify(value);
+}
+
+function isEqual(a: any, b: any): boolean {
+  return JSON.stringify(formatValue(a)) === JSON.stringify(formatValue(b));
+}
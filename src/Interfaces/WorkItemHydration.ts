@@ -0,0 +1,104 @@
+import { z } from 'zod';
+import { WorkItem } from 'azure-devops-node-api/interfaces/WorkItemTrackingInterfaces';
+
+/**
+ * Fields fetched for each work item of a hydrated query result unless the caller picks others
+ */
+export const DEFAULT_HYDRATION_FIELDS = ['System.Id', 'System.WorkItemType', 'System.Title', 'System.State', 'System.AssignedTo', 'System.ChangedDate'];
+
+/**
+ * Largest number of query results hydrated in one call; the rest stay references
+ */
+export const MAX_HYDRATED_WORK_ITEMS = 1000;
+
+// Rows written to the text content; the structured content has all of them
+const MAX_TEXT_ROWS = 50;
+
+export type WorkItemExpandOption = 'none' | 'relations' | 'links' | 'fields' | 'all';
+
+/**
+ * Zod shape of the parameters added to work item queries to return fields instead of bare references
+ */
+export const workItemHydrationSchema = {
+  hydrate: z.boolean().optional().describe("Fetch the fields of the matching work items and return them as a table (implied by fields, expand and asOf)"),
+  fields: z.array(z.string()).optional().describe(`Fields to fetch for each work item (default: ${DEFAULT_HYDRATION_FIELDS.join(', ')}). With expand relations or links they are only the columns returned; expand fields or all ignores them`),
+  expand: z.enum(['none', 'relations', 'links', 'fields', 'all']).optional().describe("Also fetch the work item relations, links, or all fields. Azure DevOps does not take fields together with expand, so every field is fetched and fields only picks the columns for relations and links"),
+  asOf: z.string().datetime({ offset: true }).optional().describe("Return field values as of this ISO date and time")
+};
+
+/**
+ * Parameters accepted by work item queries that can hydrate their results
+ */
+export interface WorkItemHydrationParams {
+  hydrate?: boolean;
+  fields?: string[];
+  expand?: WorkItemExpandOption;
+  asOf?: string;
+}
+
+/**
+ * Work items as rows of values, one column per field
+ */
+export interface WorkItemTable {
+  columns: string[];
+  rows: any[][];
+}
+
+/**
+ * Whether the caller asked for work item fields rather than bare references
+ */
+export function isHydrationRequested(params: WorkItemHydrationParams): boolean {
+  return !!(params.hydrate || params.fields?.length || (params.expand && params.expand !== 'none') || params.asOf);
+}
+
+/**
+ * Lay out work items as a table. Identities are shown by display name, relations as
+ * `{ rel, id }` for work items and `{ rel, url }` for other artifacts.
+ * @param workItems The hydrated work items
+ * @param fields The fetched fields; `System.Id` is always the first column, as `id`
+ * @param expand The expand option the work items were fetched with
+ */
+export function toWorkItemTable(workItems: WorkItem[], fields: string[], expand?: WorkItemExpandOption): WorkItemTable {
+  const fieldColumns = fields.filter(field => field !== 'System.Id');
+  const withRelations = expand === 'relations' || expand === 'all';
+  const withLinks = expand === 'links' || expand === 'all';
+  // With `expand: fields` or `all`, every field is returned, so the columns are the union of their names
+  const columns = expand === 'fields' || expand === 'all'
+    ? Array.from(new Set(workItems.flatMap(workItem => Object.keys(workItem.fields || {})))).filter(field => field !== 'System.Id')
+    : fieldColumns;
+
+  return {
+    columns: ['id', ...columns, ...(withRelations ? ['relations'] : []), ...(withLinks ? ['link'] : [])],
+    rows: workItems.map(workItem => [
+      workItem.id,
+      ...columns.map(field => formatCell(workItem.fields?.[field])),
+      ...(withRelations ? [(workItem.relations || []).map(relation => {
+        const id = /\/workItems\/(\d+)$/i.exec(relation.url || '')?.[1];
+        return id ? { rel: relation.rel, id: Number(id) } : { rel: relation.rel, url: relation.url };
+      })] : []),
+      ...(withLinks ? [workItem._links?.html?.href] : [])
+    ])
+  };
+}
+
+/**
+ * Format a table as text, one work item per line, for clients that only read the text content.
+ * Only the first 50 rows are written.
+ */
+export function formatWorkItemTable(table: WorkItemTable): string {
+  const lines = [table.columns.join(' | ')];
+  for (const row of table.rows.slice(0, MAX_TEXT_ROWS)) {
+    lines.push(row.map(cell => cell === undefined || cell === null ? '' : typeof cell === 'object' ? JSON.stringify(cell) : String(cell)).join(' | '));
+  }
+  if (table.rows.length > MAX_TEXT_ROWS) {
+    lines.push(`... ${table.rows.length - MAX_TEXT_ROWS} more rows in the structured content`);
+  }
+  return lines.join('\n');
+}
+
+function formatCell(value: any): any {
+  if (value && typeof value === 'object' && 'displayName' in value) {
+    return value.displayName; // Identity fields, e.g. System.AssignedTo
+  }
+  return value instanceof Date ? value.toISOString() : value;
+}
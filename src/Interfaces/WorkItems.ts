@@ -1,14 +1,35 @@
+import { ResponseBudgetParams } from './ResponseBudget';
+import { WiqlOperator } from './Wiql';
+import { WorkItemHydrationParams } from './WorkItemHydration';
+
 /**
  * Interface for getting a work item by ID
  */
-export interface WorkItemByIdParams {
+export interface WorkItemByIdParams extends ResponseBudgetParams {
   id: number;
 }
 
+/**
+ * Interface for listing work items with a WIQL query
+ */
+export interface ListWorkItemsParams extends WorkItemHydrationParams {
+  query: string;
+  timePrecision?: boolean; // Compare dates in the query with their time
+}
+
+/**
+ * Paging of work item queries that return a page at a time
+ */
+export interface WorkItemPageParams {
+  top?: number; // Page size
+  continuationToken?: string; // Token from the previous page
+  timePrecision?: boolean;
+}
+
 /**
  * Interface for searching work items
  */
-export interface SearchWorkItemsParams {
+export interface SearchWorkItemsParams extends WorkItemHydrationParams {
   searchText: string;
   top?: number;
 }
@@ -16,17 +37,55 @@ export interface SearchWorkItemsParams {
 /**
  * Interface for recently updated work items
  */
-export interface RecentWorkItemsParams {
+export interface RecentWorkItemsParams extends WorkItemHydrationParams, WorkItemPageParams {
+  skip?: number; // Work items to skip on the first page
+}
+
+/**
+ * Condition of a structured work item query. String values such as `@me` or `@today-7` are macros.
+ */
+export interface WorkItemFilter {
+  field: string;
+  operator: WiqlOperator;
+  value: string | number | boolean | Array<string | number>;
+}
+
+/**
+ * Interface for querying work items with structured filters instead of WIQL
+ */
+export interface QueryWorkItemsParams extends WorkItemHydrationParams {
+  filters: Array<WorkItemFilter | { anyOf: WorkItemFilter[] }>; // `fields` are also the columns of the query
+  orderBy?: Array<{ field: string; direction?: 'asc' | 'desc' }>;
+  team?: string; // Team whose iterations `@currentIteration` refers to
   top?: number;
-  skip?: number;
+  timePrecision?: boolean; // Compare dates with their time
 }
 
 /**
  * Interface for work items assigned to current user
  */
-export interface MyWorkItemsParams {
+export interface MyWorkItemsParams extends WorkItemHydrationParams, WorkItemPageParams {
   state?: string;
+}
+
+/**
+ * Interface for the revision history of a work item
+ */
+export interface WorkItemHistoryParams {
+  id: number;
+  fields?: string[]; // Only report changes to these fields
   top?: number;
+  skip?: number; // Updates to skip, oldest first
+}
+
+/**
+ * Interface for comparing two revisions of a work item
+ */
+export interface DiffWorkItemRevisionsParams {
+  id: number;
+  fromRevision: number;
+  toRevision?: number; // The latest revision when not given
+  fields?: string[]; // Only compare these fields
 }
 
 /**
@@ -51,12 +110,59 @@ export interface UpdateWorkItemParams {
   fields: Record<string, any>;
 }
 
+/**
+ * Format of comment text: HTML, as Azure DevOps stores comments, or Markdown converted to HTML
+ */
+export type CommentTextFormat = 'html' | 'markdown';
+
+export type CommentReaction = 'like' | 'dislike' | 'heart' | 'hooray' | 'smile' | 'confused';
+
 /**
  * Interface for adding a comment to a work item
  */
 export interface AddWorkItemCommentParams {
   id: number;
+  text: string; // `@[Display Name]`, `@user@example.com` and `@DOMAIN\user` mention people
+  format?: CommentTextFormat;
+}
+
+/**
+ * Interface for listing the comments of a work item
+ */
+export interface WorkItemCommentsParams {
+  id: number;
+  top?: number;
+  continuationToken?: string; // Token from the previous page
+  order?: 'asc' | 'desc';
+  includeDeleted?: boolean;
+}
+
+/**
+ * Interface for editing a work item comment
+ */
+export interface UpdateWorkItemCommentParams {
+  id: number;
+  commentId: number;
   text: string;
+  format?: CommentTextFormat;
+}
+
+/**
+ * Interface for deleting a work item comment
+ */
+export interface DeleteWorkItemCommentParams {
+  id: number;
+  commentId: number;
+}
+
+/**
+ * Interface for adding or removing a reaction to a work item comment
+ */
+export interface WorkItemCommentReactionParams {
+  id: number;
+  commentId: number;
+  reaction: CommentReaction;
+  remove?: boolean;
 }
 
 /**
@@ -0,0 +1,357 @@
+import { GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+import { WorkItem } from 'azure-devops-node-api/interfaces/WorkItemTrackingInterfaces';
+import { TimeFrame } from 'azure-devops-node-api/interfaces/WorkInterfaces';
+import {
+  CommentThreadStatus,
+  CommentType,
+  GitPullRequestCommentThread
+} from 'azure-devops-node-api/interfaces/GitInterfaces';
+import { z } from 'zod';
+import { AzureDevOpsConfig } from '../Interfaces/AzureDevOps';
+import { definePrompt, PromptDefinition } from '../Interfaces/PromptDefinition';
+import { WorkItemService } from '../Services/WorkItemService';
+import { BoardsSprintsService } from '../Services/BoardsSprintsService';
+import { GitService } from '../Services/GitService';
+import { logger } from '../utils/logger';
+import { WiqlBuilder, wiqlMacro } from '../utils/wiql';
+
+// Maximum number of work items embedded in a prompt
+const MAX_PROMPT_WORK_ITEMS = 50;
+
+// Fields shown for each work item embedded in a prompt
+const SUMMARY_FIELDS = [
+  'System.Id',
+  'System.WorkItemType',
+  'System.Title',
+  'System.State',
+  'System.AssignedTo',
+  'System.IterationPath',
+  'Microsoft.VSTS.Common.Priority'
+];
+
+// States that mean a work item needs no more work, across the standard processes
+const FINISHED_STATES = ['Closed', 'Done', 'Removed', 'Resolved', 'Completed'];
+
+/**
+ * Renders prompts for common Azure DevOps workflows, with live context from the configured project.
+ *
+ * Context that fails to load is replaced by a note, so the prompt can still be used.
+ */
+export class AzureDevOpsPrompts {
+  private workItemService: WorkItemService;
+  private boardsSprintsService: BoardsSprintsService;
+  private gitService: GitService;
+
+  constructor(config: AzureDevOpsConfig) {
+    this.workItemService = new WorkItemService(config);
+    this.boardsSprintsService = new BoardsSprintsService(config);
+    this.gitService = new GitService(config);
+  }
+
+  /**
+   * Triage the bugs in the New state
+   */
+  public async triageNewBugs(args: { team?: string; areaPath?: string }): Promise<GetPromptResult> {
+    const query = projectQuery()
+      .where('System.WorkItemType', '=', 'Bug')
+      .where('System.State', '=', 'New');
+    if (args.areaPath) {
+      query.where('System.AreaPath', 'UNDER', args.areaPath);
+    }
+    const [sprint, bugs] = await Promise.all([
+      this.loadContext('current sprint', () => this.describeCurrentSprint(args.team)),
+      this.loadContext('new bugs', () => this.queryWorkItems(query.orderBy('System.CreatedDate', 'DESC').build()))
+    ]);
+
+    return userPrompt('Triage new bugs', [
+      'Triage the new bugs below. For each bug:',
+      '1. Read it with `getWorkItemById` and check whether it is a duplicate of another bug in the list.',
+      '2. Suggest a priority (1-4) and severity, with a one-line reason.',
+      '3. Say whether it belongs in the current sprint, the backlog, or needs more information from the reporter.',
+      'Finish with a table of bug id, suggested priority and recommendation. Do not change any work item until I confirm.',
+      '',
+      '## Current sprint',
+      sprint,
+      '',
+      `## New bugs${args.areaPath ? ` under ${args.areaPath}` : ''}`,
+      bugs
+    ]);
+  }
+
+  /**
+   * Review a pull request
+   */
+  public async reviewPullRequest(args: { repositoryId: string; pullRequestId: string }): Promise<GetPromptResult> {
+    const pullRequestId = parsePromptId(args.pullRequestId, 'pullRequestId');
+    const pullRequest = await this.gitService.getPullRequest({ repositoryId: args.repositoryId, pullRequestId });
+    const threads = await this.loadContext('comment threads', async () => {
+      const result = await this.gitService.getPullRequestComments({
+        repositoryId: pullRequest.repository?.id || args.repositoryId,
+        pullRequestId
+      });
+      const threads: GitPullRequestCommentThread[] = result.filter((thread: GitPullRequestCommentThread) =>
+        !thread.isDeleted && thread.comments?.some(comment => comment.commentType !== CommentType.System));
+      return `${threads.length} comment threads, of which ${threads.filter(thread => thread.status === CommentThreadStatus.Active).length} are active`;
+    });
+    const reviewers = (pullRequest.reviewers || [])
+      .map((reviewer: any) => `${reviewer.displayName} (vote ${reviewer.vote})`)
+      .join(', ') || 'none';
+
+    return userPrompt(`Review pull request ${pullRequestId}`, [
+      `Review pull request ${pullRequestId} in repository ${pullRequest.repository?.name || args.repositoryId}.`,
+      'Use `getCommitHistory`, `getFileContent` and `getPullRequestComments` to read the changes and the existing discussion, then:',
+      '1. Summarize what the change does and whether it matches the description.',
+      '2. List bugs, security problems and missing tests, each with the file and a concrete fix.',
+      '3. Note style or readability issues separately, as suggestions.',
+      '4. Recommend approve, approve with suggestions, or wait for changes.',
+      'Do not approve, merge or comment on the pull request until I confirm.',
+      '',
+      '## Pull request',
+      `- Title: ${pullRequest.title}`,
+      `- Status: ${pullRequest.status}${pullRequest.isDraft ? ' (draft)' : ''}, merge status: ${pullRequest.mergeStatus}`,
+      `- Branches: ${pullRequest.sourceRefName} into ${pullRequest.targetRefName}`,
+      `- Author: ${pullRequest.createdBy?.displayName}`,
+      `- Reviewers: ${reviewers}`,
+      `- Discussion: ${threads}`,
+      '',
+      '## Description',
+      pullRequest.description || '(no description)'
+    ]);
+  }
+
+  /**
+   * Plan the next sprint from the current sprint and the open backlog
+   */
+  public async planNextSprint(args: { team?: string; capacity?: string }): Promise<GetPromptResult> {
+    const [sprints, backlog] = await Promise.all([
+      this.loadContext('sprints', () => this.describeSprints(args.team)),
+      this.loadContext('backlog', () => this.queryWorkItems(projectQuery()
+        .where('System.State', 'NOT IN', FINISHED_STATES)
+        .where('System.WorkItemType', 'IN', ['User Story', 'Product Backlog Item', 'Requirement', 'Bug'])
+        .orderBy('Microsoft.VSTS.Common.Priority', 'ASC')
+        .orderBy('System.ChangedDate', 'DESC')
+        .build()
+      ))
+    ]);
+
+    return userPrompt('Plan the next sprint', [
+      `Propose a plan for the next sprint${args.team ? ` of team ${args.team}` : ''}.`,
+      args.capacity ? `The team has a capacity of ${args.capacity}.` : 'Ask me for the team capacity if you need it.',
+      '1. List the unfinished work in the current sprint that should carry over.',
+      '2. Pick backlog items for the next sprint by priority, keeping within capacity, and explain any item you skip.',
+      '3. Flag items that are too large or unclear to start and need refinement first.',
+      'Do not move any work item until I confirm.',
+      '',
+      '## Sprints',
+      sprints,
+      '',
+      '## Open backlog',
+      backlog
+    ]);
+  }
+
+  /**
+   * Write a bug report, after checking for existing bugs with the same symptoms
+   */
+  public async writeBugReport(args: { summary: string; details?: string }): Promise<GetPromptResult> {
+    const similar = await this.loadContext('similar work items', async () => {
+      const result = await this.workItemService.searchWorkItems({ searchText: args.summary, top: 10 });
+      return this.describeWorkItems((result.workItems || []).map((reference: { id: number }) => reference.id));
+    });
+
+    return userPrompt('Write a bug report', [
+      'Write a bug report for the problem below.',
+      '1. Check the similar work items first. If one is the same bug, say so and suggest a comment for it instead of a new bug.',
+      '2. Otherwise write a short title, steps to reproduce, expected and actual behavior, and the environment.',
+      '3. Ask me for anything you cannot infer, rather than inventing it.',
+      'Then show the `createWorkItem` call with workItemType "Bug" that would file it, and wait for my confirmation.',
+      '',
+      '## Problem',
+      args.summary,
+      args.details || '',
+      '',
+      '## Similar work items',
+      similar
+    ]);
+  }
+
+  /**
+   * Prepare a standup update from the current sprint
+   */
+  public async prepareStandup(args: { team?: string }): Promise<GetPromptResult> {
+    const sprint = await this.loadContext('current sprint', () => this.describeCurrentSprint(args.team));
+    const changed = await this.loadContext('work items changed since yesterday', async () => {
+      const current = await this.boardsSprintsService.getCurrentSprint({ teamId: args.team });
+      if (!current?.path) {
+        return 'No current sprint.';
+      }
+      return this.queryWorkItems(projectQuery()
+        .where('System.IterationPath', '=', current.path)
+        .where('System.ChangedDate', '>=', wiqlMacro('today', -1))
+        .orderBy('System.ChangedDate', 'DESC')
+        .build()
+      );
+    });
+
+    return userPrompt('Prepare a standup', [
+      'Prepare a standup summary grouped by person: what changed since yesterday, what is in progress, and what looks blocked.',
+      'Call out work items that have not moved for several days and anything at risk for the sprint end date.',
+      '',
+      '## Current sprint',
+      sprint,
+      '',
+      '## Work items changed since yesterday',
+      changed
+    ]);
+  }
+
+  private async describeCurrentSprint(team?: string): Promise<string> {
+    const sprint = await this.boardsSprintsService.getCurrentSprint({ teamId: team });
+    return sprint ? describeSprint(sprint) : 'No current sprint.';
+  }
+
+  private async describeSprints(team?: string): Promise<string> {
+    const sprints: any[] = await this.boardsSprintsService.getSprints({ teamId: team });
+    const current = sprints.find(sprint => sprint.attributes?.timeFrame === TimeFrame.Current);
+    const next = sprints.find(sprint => sprint.attributes?.timeFrame === TimeFrame.Future);
+    const lines = [
+      `Current: ${current ? describeSprint(current) : 'none'}`,
+      `Next: ${next ? describeSprint(next) : 'none scheduled'}`
+    ];
+
+    if (current?.path) {
+      lines.push('', 'Unfinished work in the current sprint:', await this.queryWorkItems(projectQuery()
+        .where('System.IterationPath', '=', current.path)
+        .where('System.State', 'NOT IN', FINISHED_STATES)
+        .orderBy('Microsoft.VSTS.Common.Priority', 'ASC')
+        .build()
+      ));
+    }
+    return lines.join('\n');
+  }
+
+  private async queryWorkItems(query: string): Promise<string> {
+    const result = await this.workItemService.listWorkItems(query);
+    return this.describeWorkItems(result.workItems.map((reference: { id: number }) => reference.id));
+  }
+
+  private async describeWorkItems(ids: number[]): Promise<string> {
+    if (ids.length === 0) {
+      return 'None.';
+    }
+    const workItems = await this.workItemService.getWorkItems(ids.slice(0, MAX_PROMPT_WORK_ITEMS), SUMMARY_FIELDS);
+    const lines = workItems.map(describeWorkItem);
+    if (ids.length > MAX_PROMPT_WORK_ITEMS) {
+      lines.push(`- ...and ${ids.length - MAX_PROMPT_WORK_ITEMS} more`);
+    }
+    return lines.join('\n');
+  }
+
+  private async loadContext(label: string, load: () => Promise<string>): Promise<string> {
+    try {
+      return await load();
+    } catch (error) {
+      logger.warn('Prompts', `Failed to load ${label}`, { error: String(error) });
+      return `(Could not load ${label}: ${error instanceof Error ? error.message : String(error)})`;
+    }
+  }
+}
+
+function describeWorkItem(workItem: WorkItem): string {
+  const fields = workItem.fields || {};
+  const assignedTo = fields['System.AssignedTo']?.displayName || 'unassigned';
+  const priority = fields['Microsoft.VSTS.Common.Priority'] ? `, P${fields['Microsoft.VSTS.Common.Priority']}` : '';
+  return `- #${workItem.id} [${fields['System.WorkItemType']}] ${fields['System.Title']} (${fields['System.State']}, ${assignedTo}${priority})`;
+}
+
+function describeSprint(sprint: any): string {
+  const start = formatDate(sprint.attributes?.startDate);
+  const finish = formatDate(sprint.attributes?.finishDate);
+  return `${sprint.name} (${sprint.path}${start && finish ? `, ${start} to ${finish}` : ''})`;
+}
+
+function formatDate(date?: Date | string): string | undefined {
+  return date ? new Date(date).toISOString().slice(0, 10) : undefined;
+}
+
+/**
+ * Start a query for work items of the configured project
+ */
+function projectQuery(): WiqlBuilder {
+  return new WiqlBuilder().where('System.TeamProject', '=', wiqlMacro('project'));
+}
+
+function parsePromptId(value: string, name: string): number {
+  const id = Number(value);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new Error(`${name} must be a positive integer, got "${value}"`);
+  }
+  return id;
+}
+
+function userPrompt(description: string, lines: string[]): GetPromptResult {
+  return {
+    description,
+    messages: [{ role: 'user', content: { type: 'text', text: lines.join('\n') } }]
+  };
+}
+
+/**
+ * Prompts exposed by the MCP server, registered in `index.ts`
+ */
+export const PromptDefinitions: PromptDefinition<AzureDevOpsPrompts>[] = [
+  definePrompt({
+    name: "triage-new-bugs",
+    title: "Triage new bugs",
+    description: "Review bugs in the New state and suggest priority, severity and where each belongs",
+    args: {
+      team: z.string().optional().describe("Team whose current sprint is shown (uses default team if not specified)"),
+      areaPath: z.string().optional().describe("Only triage bugs under this area path")
+    },
+    tools: ['listWorkItems', 'getCurrentSprint'],
+    render: (prompts: AzureDevOpsPrompts, args) => prompts.triageNewBugs(args)
+  }),
+  definePrompt({
+    name: "review-pull-request",
+    title: "Review a pull request",
+    description: "Review a pull request for bugs, security problems and missing tests",
+    args: {
+      repositoryId: z.string().describe("Name or ID of the repository"),
+      pullRequestId: z.string().describe("ID of the pull request")
+    },
+    tools: ['getPullRequest', 'getPullRequestComments'],
+    render: (prompts: AzureDevOpsPrompts, args) => prompts.reviewPullRequest(args)
+  }),
+  definePrompt({
+    name: "plan-next-sprint",
+    title: "Plan the next sprint",
+    description: "Propose the next sprint from unfinished work and the prioritized backlog",
+    args: {
+      team: z.string().optional().describe("Team to plan for (uses default team if not specified)"),
+      capacity: z.string().optional().describe("Team capacity, e.g. \"40 story points\" or \"5 people for 2 weeks\"")
+    },
+    tools: ['getSprints', 'listWorkItems'],
+    render: (prompts: AzureDevOpsPrompts, args) => prompts.planNextSprint(args)
+  }),
+  definePrompt({
+    name: "write-bug-report",
+    title: "Write a bug report",
+    description: "Turn a problem description into a bug report, checking for duplicates first",
+    args: {
+      summary: z.string().describe("Short description of the problem"),
+      details: z.string().optional().describe("Error messages, logs or other details")
+    },
+    tools: ['searchWorkItems'],
+    render: (prompts: AzureDevOpsPrompts, args) => prompts.writeBugReport(args)
+  }),
+  definePrompt({
+    name: "prepare-standup",
+    title: "Prepare a standup",
+    description: "Summarize what changed in the current sprint since yesterday",
+    args: {
+      team: z.string().optional().describe("Team whose sprint is summarized (uses default team if not specified)")
+    },
+    tools: ['getCurrentSprint', 'listWorkItems'],
+    render: (prompts: AzureDevOpsPrompts, args) => prompts.prepareStandup(args)
+  })
+];
@@ -0,0 +1,197 @@
+import { ReadResourceResult, Resource } from '@modelcontextprotocol/sdk/types.js';
+import { AzureDevOpsConfig } from '../Interfaces/AzureDevOps';
+import { ResourceDefinition } from '../Interfaces/ResourceDefinition';
+import { WorkItemService } from '../Services/WorkItemService';
+import { GitService } from '../Services/GitService';
+import { WikiService } from '../Services/WikiService';
+import { logger } from '../utils/logger';
+import { LruMap } from '../utils/lruMap';
+
+// Number of recently changed work items and pull requests returned by resources/list
+const RECENT_ITEM_COUNT = 20;
+
+// Projects whose services are kept; the least recently read are dropped
+const MAX_PROJECTS = 50;
+
+interface ProjectServices {
+  workItemService: WorkItemService;
+  gitService: GitService;
+  wikiService: WikiService;
+}
+
+/**
+ * Reads Azure DevOps work items, files, pull requests and wiki pages as MCP resources.
+ *
+ * Resource URIs name their project, so services are created per project on first use,
+ * for up to `MAX_PROJECTS` projects.
+ */
+export class AzureDevOpsResources {
+  private services = new LruMap<string, ProjectServices>(MAX_PROJECTS);
+
+  constructor(private config: AzureDevOpsConfig) {}
+
+  /**
+   * Read a work item as JSON
+   */
+  public async readWorkItem(uri: URL, project: string, id: string): Promise<ReadResourceResult> {
+    const workItem = await this.getServices(project).workItemService.getWorkItemById({ id: parseId(id, 'work item') });
+    return jsonContents(uri, workItem);
+  }
+
+  /**
+   * Read a file from a repository at a branch, tag or commit
+   */
+  public async readFile(uri: URL, project: string, repository: string, ref: string, path: string): Promise<ReadResourceResult> {
+    const file = await this.getServices(project).gitService.getFileContent({
+      repositoryId: repository,
+      path: `/${path}`,
+      versionDescriptor: {
+        version: ref,
+        versionType: /^[0-9a-f]{40}$/i.test(ref) ? 'commit' : 'branch'
+      }
+    });
+    return {
+      contents: [{ uri: uri.href, mimeType: 'text/plain', text: file.content }]
+    };
+  }
+
+  /**
+   * Read a pull request as JSON
+   */
+  public async readPullRequest(uri: URL, project: string, repository: string, id: string): Promise<ReadResourceResult> {
+    const pullRequest = await this.getServices(project).gitService.getPullRequest({
+      repositoryId: repository,
+      pullRequestId: parseId(id, 'pull request')
+    });
+    return jsonContents(uri, pullRequest);
+  }
+
+  /**
+   * Read a wiki page as Markdown
+   */
+  public async readWikiPage(uri: URL, project: string, wiki: string, path: string): Promise<ReadResourceResult> {
+    const page = await this.getServices(project).wikiService.getWikiPage({
+      wikiIdentifier: wiki,
+      path: `/${path}`
+    });
+    return {
+      contents: [{ uri: uri.href, mimeType: 'text/markdown', text: page.content }]
+    };
+  }
+
+  /**
+   * List the most recently changed work items in the configured project
+   */
+  public async listRecentWorkItems(): Promise<Resource[]> {
+    const project = this.config.project;
+    try {
+      const { workItemService } = this.getServices(project);
+      const recent = await workItemService.getRecentWorkItems({ top: RECENT_ITEM_COUNT });
+      const ids = (recent.workItems || []).map((reference: { id: number }) => reference.id);
+      const workItems = await workItemService.getWorkItems(ids, ['System.Title', 'System.WorkItemType', 'System.ChangedDate']);
+
+      return workItems.map(workItem => ({
+        uri: `ado://${encodeURIComponent(project)}/workitems/${workItem.id}`,
+        name: `${workItem.fields?.['System.WorkItemType']} ${workItem.id}: ${workItem.fields?.['System.Title']}`,
+        description: `Changed ${workItem.fields?.['System.ChangedDate']}`,
+        mimeType: 'application/json'
+      }));
+    } catch (error) {
+      logger.warn('Resources', 'Failed to list recent work items', { project, error: String(error) });
+      return [];
+    }
+  }
+
+  /**
+   * List the most recently created active pull requests in the configured project
+   */
+  public async listRecentPullRequests(): Promise<Resource[]> {
+    const project = this.config.project;
+    try {
+      const pullRequests = await this.getServices(project).gitService.getRecentPullRequests(RECENT_ITEM_COUNT);
+
+      return pullRequests.map(pullRequest => ({
+        uri: `ado://${encodeURIComponent(project)}/pullrequests/${encodeURIComponent(pullRequest.repository?.name || '')}/${pullRequest.pullRequestId}`,
+        name: `PR ${pullRequest.pullRequestId}: ${pullRequest.title}`,
+        description: `${pullRequest.repository?.name}: ${pullRequest.sourceRefName} into ${pullRequest.targetRefName}`,
+        mimeType: 'application/json'
+      }));
+    } catch (error) {
+      logger.warn('Resources', 'Failed to list recent pull requests', { project, error: String(error) });
+      return [];
+    }
+  }
+
+  private getServices(project: string): ProjectServices {
+    let services = this.services.get(project);
+    if (!services) {
+      const config = { ...this.config, project };
+      services = {
+        workItemService: new WorkItemService(config),
+        gitService: new GitService(config),
+        wikiService: new WikiService(config)
+      };
+      this.services.set(project, services);
+    }
+    return services;
+  }
+}
+
+function parseId(value: string, kind: string): number {
+  const id = Number(value);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new Error(`Invalid ${kind} ID "${value}"`);
+  }
+  return id;
+}
+
+function jsonContents(uri: URL, data: any): ReadResourceResult {
+  return {
+    contents: [{ uri: uri.href, mimeType: 'application/json', text: JSON.stringify(data, null, 2) }]
+  };
+}
+
+/**
+ * Resource templates exposed by the MCP server, registered in `index.ts`
+ */
+export const ResourceDefinitions: ResourceDefinition<AzureDevOpsResources>[] = [
+  {
+    name: "workItem",
+    uriTemplate: "ado://{project}/workitems/{id}",
+    title: "Work item",
+    description: "A work item with all of its fields",
+    mimeType: "application/json",
+    tool: "getWorkItemById",
+    read: (resources, { project, id }, uri) => resources.readWorkItem(uri, project, id),
+    list: resources => resources.listRecentWorkItems()
+  },
+  {
+    name: "repositoryFile",
+    uriTemplate: "ado://{project}/repos/{repo}/blob/{ref}/{+path}",
+    title: "Repository file",
+    description: "Content of a file in a Git repository at a branch or commit. URL-encode branch names that contain a slash",
+    mimeType: "text/plain",
+    tool: "getFileContent",
+    read: (resources, { project, repo, ref, path }, uri) => resources.readFile(uri, project, repo, ref, path)
+  },
+  {
+    name: "pullRequest",
+    uriTemplate: "ado://{project}/pullrequests/{repo}/{id}",
+    title: "Pull request",
+    description: "A pull request with its status, branches and reviewers",
+    mimeType: "application/json",
+    tool: "getPullRequest",
+    read: (resources, { project, repo, id }, uri) => resources.readPullRequest(uri, project, repo, id),
+    list: resources => resources.listRecentPullRequests()
+  },
+  {
+    name: "wikiPage",
+    uriTemplate: "ado://{project}/wiki/{wiki}/{+path}",
+    title: "Wiki page",
+    description: "Markdown content of a project or code wiki page",
+    mimeType: "text/markdown",
+    // There is no wiki tool; wiki pages are stored in Git, like the files getFileContent reads
+    tool: "getFileContent",
+    read: (resources, { project, wiki, path }, uri) => resources.readWikiPage(uri, project, wiki, path)
+  }
+];
@@ -0,0 +1,214 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AuditConfig, AuditEntry, AuditQuery, AuditTarget } from '../Interfaces/Audit';
+import { logger } from '../utils/logger';
+import { redact } from '../utils/redaction';
+
+// Used until `configure` is called
+export const DEFAULT_AUDIT_CONFIG: AuditConfig = { enabled: true };
+
+// Longer strings, such as descriptions and comments, are shortened to this many characters
+const MAX_STRING_LENGTH = 500;
+
+const DEFAULT_TOP = 50;
+
+// The log is read from its end in chunks of this many bytes, until enough entries are found
+const READ_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Append-only JSONL log of every call to a tool that changes Azure DevOps, recording
+ * which MCP session changed which work items, pull requests, repositories and projects.
+ */
+export class AuditLog {
+  private config: AuditConfig = DEFAULT_AUDIT_CONFIG;
+
+  /**
+   * Apply a configuration
+   * @param config The audit configuration
+   */
+  public configure(config: AuditConfig): void {
+    this.config = config;
+  }
+
+  /**
+   * Path of the audit log file
+   */
+  public getFilePath(): string {
+    return this.config.file || path.join(logger.getLogDirectory(), 'audit.jsonl');
+  }
+
+  /**
+   * Append an entry to the audit log. Failures are logged rather than thrown, so an
+   * unwritable audit log never hides the result of a change that has already been made.
+   * @param entry The entry, with params as passed to the tool
+   */
+  public record(entry: AuditEntry): void {
+    if (!this.config.enabled) {
+      return;
+    }
+    const file = this.getFilePath();
+    try {
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      fs.appendFileSync(file, JSON.stringify({ ...entry, params: shortenText(redact(entry.params)) }) + '\n', 'utf8');
+    } catch (error) {
+      logger.error('AuditLog', 'Failed to write audit log entry', error as Error, { file, tool: entry.tool });
+    }
+  }
+
+  /**
+   * Read entries from the audit log, newest first. The file is read backwards and only
+   * as far as needed for `top` entries, or back to `since`.
+   * @param query Filters for the entries; `sessionId` matches the ID or its `hashSessionId`
+   * @returns The matching entries
+   */
+  public async query(query: AuditQuery = {}): Promise<AuditEntry[]> {
+    const file = this.getFilePath();
+    let handle: fs.promises.FileHandle;
+    try {
+      handle = await fs.promises.open(file, 'r');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+    const since = query.since ? Date.parse(query.since) : undefined;
+    const until = query.until ? Date.parse(query.until) : undefined;
+    const targetId = query.targetId !== undefined ? String(query.targetId) : undefined;
+    const top = query.top ?? DEFAULT_TOP;
+
+    const entries: AuditEntry[] = [];
+    try {
+      for await (const line of readLinesBackwards(handle)) {
+        if (!line.trim()) {
+          continue;
+        }
+        let entry: AuditEntry;
+        try {
+          entry = JSON.parse(line);
+        } catch {
+          logger.warn('AuditLog', 'Skipping unreadable audit log line', { file });
+          continue;
+        }
+        const timestamp = Date.parse(entry.timestamp);
+        if (since !== undefined && timestamp < since) {
+          break; // Entries are appended in time order, so the rest is older still
+        }
+        if ((query.tool && entry.tool !== query.tool) ||
+          (query.sessionId && entry.sessionId !== query.sessionId && hashSessionId(entry.sessionId) !== query.sessionId) ||
+          (query.outcome && entry.outcome !== query.outcome) ||
+          (targetId && !entry.targets.some(target => String(target.id) === targetId)) ||
+          (until !== undefined && timestamp > until)) {
+          continue;
+        }
+        entries.push(entry);
+        if (entries.length >= top) {
+          break;
+        }
+      }
+    } finally {
+      await handle.close();
+    }
+    return entries;
+  }
+}
+
+/**
+ * Audit log shared by every MCP session
+ */
+export const auditLog = new AuditLog();
+
+/**
+ * Pseudonym of an MCP session ID, for showing the entries of other sessions without the
+ * ID that would let a caller take over the session
+ * @param sessionId The session ID
+ * @returns The first 12 hex digits of its SHA-256 hash
+ */
+export function hashSessionId(sessionId: string): string {
+  return createHash('sha256').update(sessionId).digest('hex').substring(0, 12);
+}
+
+/**
+ * Get the Azure DevOps objects a tool call changed, from its parameters and result
+ * @param params The tool parameters
+ * @param result The structured content the tool returned
+ * @returns The targets, without duplicates
+ */
+export function getAuditTargets(params: Record<string, any>, result: Record<string, any> = {}): AuditTarget[] {
+  const targets: AuditTarget[] = [];
+  const add = (type: AuditTarget['type'], id: unknown, rev?: unknown) => {
+    if ((typeof id !== 'string' && typeof id !== 'number') || id === '') {
+      return;
+    }
+    const existing = targets.find(target => target.type === type && target.id === id);
+    if (existing) {
+      existing.rev = typeof rev === 'number' ? rev : existing.rev;
+    } else {
+      targets.push({ type, id, ...(typeof rev === 'number' && { rev }) });
+    }
+  };
+
+  // Work item tools take the work item as `id`; links have a source and a target
+  add('workItem', params.workItemId ?? (typeof params.id === 'number' ? params.id : undefined));
+  add('workItem', params.sourceId);
+  add('workItem', params.targetId);
+  add('project', params.projectId);
+  add('repository', params.repositoryId);
+  add('pullRequest', params.pullRequestId);
+  add('thread', params.threadId);
+
+  for (const workItem of [result.workItem, ...(Array.isArray(result.workItems) ? result.workItems : [])]) {
+    add('workItem', workItem?.id, workItem?.rev);
+  }
+  if (typeof result.id === 'number' && typeof result.fields === 'object') {
+    add('workItem', result.id, result.rev);
+  }
+  add('pullRequest', result.pullRequest?.pullRequestId);
+  add('repository', result.pullRequest?.repository?.id ?? result.repository?.id);
+  add('comment', result.comment?.id);
+  add('thread', result.thread?.id);
+  add('operation', result.operation?.id);
+  add('classificationNode', result.identifier);
+  return targets;
+}
+
+/**
+ * Shorten long text in tool parameters
+ */
+function shortenText(value: any): any {
+  if (typeof value === 'string' && value.length > MAX_STRING_LENGTH) {
+    return `${value.substring(0, MAX_STRING_LENGTH)}... [${value.length} characters]`;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => shortenText(item));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([name, item]) => [name, shortenText(item)]));
+  }
+  return value;
+}
+
+/**
+ * Read the lines of a file from its end to its start
+ */
+async function* readLinesBackwards(handle: fs.promises.FileHandle): AsyncGenerator<string> {
+  let position = (await handle.stat()).size;
+  // Start of the earliest line read so far, which may continue in the previous chunk
+  let rest = Buffer.alloc(0);
+  while (position > 0) {
+    const length = Math.min(READ_CHUNK_SIZE, position);
+    position -= length;
+    const chunk = Buffer.alloc(length);
+    await handle.read(chunk, 0, length, position);
+    const buffer = Buffer.concat([chunk, rest]);
+    let end = buffer.length;
+    let newline: number;
+    while (end > 0 && (newline = buffer.lastIndexOf(0x0a, end - 1)) >= 0) {
+      yield buffer.toString('utf8', newline + 1, end);
+      end = newline;
+    }
+    rest = buffer.subarray(0, end);
+  }
+  yield rest.toString('utf8');
+}
@@ -3,6 +3,8 @@ import { WorkApi } from 'azure-devops-node-api/WorkApi';
 import { CoreApi } from 'azure-devops-node-api/CoreApi';
 import { AzureDevOpsConfig } from '../Interfaces/AzureDevOps';
 import { AzureDevOpsService } from './AzureDevOpsService';
+import { WritePlan } from '../Interfaces/DryRun';
+import { ValidationError } from '../utils/errors';
 import {
   GetBoardsParams,
   GetBoardColumnsParams,
@@ -113,28 +115,57 @@ export class BoardsSprintsService extends AzureDevOpsService {
    */
   public async moveCardOnBoard(params: MoveCardOnBoardParams): Promise<any> {
     try {
-      const workApi = await this.getWorkApi();
-      const teamContext = this.getTeamContext(params.teamId);
-      
-      // We need to update the work item to change its board column
-      // This often requires knowing the field mappings for the board
-      // This is a simplified implementation that assumes standard mappings
-      const updateData = {
-        id: params.workItemId,
-        fields: {
-          "System.BoardColumn": params.columnId
-        }
-      };
-      
       // The proper implementation would use the board's column mappings
       // For now, we return the update data as confirmation
-      return updateData;
+      return this.buildCardMove(params);
     } catch (error) {
       console.error(`Error moving card ${params.workItemId} on board ${params.boardId}:`, error);
       throw error;
     }
   }
 
+  /**
+   * Plan moving a card without moving it, checking that the board has the column
+   */
+  public async planMoveCardOnBoard(params: MoveCardOnBoardParams): Promise<WritePlan> {
+    const workApi = await this.getWorkApi();
+    const teamContext = this.getTeamContext(params.teamId);
+    const columns = await workApi.getBoardColumns(teamContext, params.boardId);
+    const column = (columns || []).find(column => column.id === params.columnId || column.name === params.columnId);
+    if (!column) {
+      throw new ValidationError(`Board ${params.boardId} has no column ${params.columnId}. Columns: ${(columns || []).map(column => column.name).join(', ')}`, {
+        fields: ['columnId']
+      });
+    }
+
+    return {
+      dryRun: true,
+      operation: 'moveCardOnBoard',
+      target: {
+        project: this.config.project,
+        team: params.teamId,
+        boardId: params.boardId,
+        workItemId: params.workItemId,
+        column: column.name
+      },
+      payload: this.buildCardMove(params),
+      summary: `Move work item ${params.workItemId} to column "${column.name}" of board ${params.boardId}${params.position !== undefined ? ` at position ${params.position}` : ''}`
+    };
+  }
+
+  /**
+   * Build the work item update that moves a card.
+   * This is a simplified implementation that assumes standard field mappings.
+   */
+  private buildCardMove(params: MoveCardOnBoardParams): any {
+    return {
+      id: params.workItemId,
+      fields: {
+        "System.BoardColumn": params.columnId
+      }
+    };
+  }
+
   /**
    * Get all sprints
    */
@@ -252,13 +283,15 @@ export class BoardsSprintsService extends AzureDevOpsService {
    */
   private async getDefaultTeamId(): Promise<string> {
     try {
-      const coreApi = await this.getCoreApi();
-      const teams = await coreApi.getTeams(this.config.project);
-      
-      // Find the default team, which often has the same name as the project
-      const defaultTeam = teams.find(team => team.name === this.config.project) || teams[0];
-      
-      return defaultTeam.id!;
+      return await this.cached('teams', 'defaultTeamId', async () => {
+        const coreApi = await this.getCoreApi();
+        const teams = await coreApi.getTeams(this.config.project);
+        
+        // Find the default team, which often has the same name as the project
+        const defaultTeam = teams.find(team => team.name === this.config.project) || teams[0];
+        
+        return defaultTeam.id!;
+      });
     } catch (error) {
       console.error('Error getting default team ID:', error);
       throw error;
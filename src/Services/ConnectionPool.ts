@@ -0,0 +1,247 @@
+import * as azdev from "azure-devops-node-api";
+import { createHash } from "crypto";
+import { AzureDevOpsConfig } from "../Interfaces/AzureDevOps";
+import {
+  getPersonalAccessTokenHandler,
+  getNtlmHandler,
+  getBasicHandler,
+} from "azure-devops-node-api/WebApi";
+import * as VsoBaseInterfaces from "azure-devops-node-api/interfaces/common/VsoBaseInterfaces";
+import {
+  IRequestHandler,
+} from "azure-devops-node-api/interfaces/common/VsoBaseInterfaces";
+import { logger } from "../utils/logger";
+import { LruMap } from "../utils/lruMap";
+import { RequestPipeline } from "./RequestPipeline";
+
+// WebApi methods that create an API client, e.g. getGitApi
+const API_GETTER = /^get\w+Api$/;
+
+// Connections kept at most; calls can name any organization, so the least recently used are dropped
+const MAX_CONNECTIONS = 20;
+
+interface PooledConnection {
+  connection: azdev.WebApi;
+  pipeline: RequestPipeline;
+}
+
+/**
+ * Shares one Azure DevOps connection between every service that talks to the same
+ * organization or collection with the same credentials.
+ *
+ * Every API client created from a pooled connection sends its requests through the
+ * connection's `RequestPipeline`, which retries throttled and transient failures.
+ */
+export class ConnectionPool {
+  private connections = new LruMap<string, PooledConnection>(MAX_CONNECTIONS);
+
+  /**
+   * Get the connection for a configuration, creating it on first use
+   * @param config The Azure DevOps configuration
+   * @returns The shared connection
+   */
+  public getConnection(config: AzureDevOpsConfig): azdev.WebApi {
+    const key = getConnectionKey(config);
+    let pooled = this.connections.get(key);
+    if (!pooled) {
+      const pipeline = new RequestPipeline(config.retry, config.auth?.type);
+      pooled = { connection: withPipeline(createConnection(config), pipeline), pipeline };
+      this.connections.set(key, pooled);
+      logger.debug('ConnectionPool', 'Added connection to pool', { poolSize: this.connections.size });
+    }
+    return pooled.connection;
+  }
+
+  /**
+   * Get the request pipeline of a configuration's connection, if it has been created
+   * @param config The Azure DevOps configuration
+   * @returns The pipeline, which holds the latest rate-limit state
+   */
+  public getPipeline(config: AzureDevOpsConfig): RequestPipeline | undefined {
+    return this.connections.get(getConnectionKey(config))?.pipeline;
+  }
+
+  /**
+   * Number of open connections
+   */
+  public get size(): number {
+    return this.connections.size;
+  }
+}
+
+/**
+ * Connection pool shared by all services
+ */
+export const connectionPool = new ConnectionPool();
+
+/**
+ * Route the requests of a connection, and of every API client it creates, through a pipeline
+ */
+function withPipeline(connection: azdev.WebApi, pipeline: RequestPipeline): azdev.WebApi {
+  pipeline.attach(connection);
+  return new Proxy(connection, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver);
+      if (typeof property !== 'string' || !API_GETTER.test(property) || typeof value !== 'function') {
+        return value;
+      }
+      return async (...args: any[]) => pipeline.attach(await value.apply(target, args));
+    }
+  });
+}
+
+/**
+ * Get the URL API requests are sent to, including the collection for on-premises
+ */
+function getBaseUrl(config: AzureDevOpsConfig): string {
+  if (config.isOnPremises && config.collection) {
+    // For on-premises, ensure the collection is included in the URL
+    return `${config.orgUrl}/${config.collection}`;
+  }
+  return config.orgUrl;
+}
+
+/**
+ * Build the pool key from the base URL and the authentication settings.
+ * Credentials are hashed so they are never held in the key.
+ */
+function getConnectionKey(config: AzureDevOpsConfig): string {
+  const auth = config.auth;
+  const credentials = auth?.type === 'ntlm' || auth?.type === 'basic'
+    ? [auth.username, auth.password, auth.type === 'ntlm' ? auth.domain : '']
+    : [auth?.type === 'entra' ? '' : config.personalAccessToken];
+  const fingerprint = createHash('sha256').update(credentials.join('\n')).digest('hex').substring(0, 16);
+  return [
+    getBaseUrl(config).replace(/\/+$/, '').toLowerCase(),
+    auth?.type || 'pat',
+    fingerprint,
+    config.isOnPremises ? config.apiVersion || '' : ''
+  ].join('|');
+}
+
+/**
+ * Get the authentication handler for a configuration
+ */
+function createAuthHandler(config: AzureDevOpsConfig): IRequestHandler {
+  if (config.auth?.type === "entra") {
+    if (config.isOnPremises) {
+      const error = new Error(
+        "Azure Identity (DefaultAzureCredential) authentication is not supported for on-premises Azure DevOps."
+      );
+      logger.error('ConnectionPool', 'Invalid authentication configuration', error);
+      throw error;
+    }
+    if(!config.entraAuthHandler) {
+      const error = new Error(
+        "Entra authentication requires an instance of EntraAuthHandler."
+      );
+      logger.error('ConnectionPool', 'Missing Entra auth handler', error);
+      throw error;
+    }
+    logger.info('ConnectionPool', 'Using Entra authentication');
+    return config.entraAuthHandler;
+  }
+
+  if (config.isOnPremises && config.auth) {
+    switch (config.auth.type) {
+      case 'ntlm':
+        if (!config.auth.username || !config.auth.password) {
+          const error = new Error(
+            "NTLM authentication requires username and password"
+          );
+          logger.error('ConnectionPool', 'Missing NTLM credentials', error);
+          throw error;
+        }
+        logger.info('ConnectionPool', 'Using NTLM authentication', {
+          username: config.auth.username,
+          domain: config.auth.domain || 'default'
+        });
+        return getNtlmHandler(
+          config.auth.username,
+          config.auth.password,
+          config.auth.domain
+        );
+      case 'basic':
+        if (!config.auth.username || !config.auth.password) {
+          const error = new Error(
+            "Basic authentication requires username and password"
+          );
+          logger.error('ConnectionPool', 'Missing Basic auth credentials', error);
+          throw error;
+        }
+        logger.info('ConnectionPool', 'Using Basic authentication', {
+          username: config.auth.username
+        });
+        return getBasicHandler(
+          config.auth.username,
+          config.auth.password
+        );
+      case 'pat':
+      default: // Default to PAT for on-premises if auth type is missing or unrecognized
+        if (!config.personalAccessToken) {
+          const error = new Error(
+            "PAT authentication requires a personal access token for on-premises if specified or as fallback."
+          );
+          logger.error('ConnectionPool', 'Missing PAT token', error);
+          throw error;
+        }
+        logger.info('ConnectionPool', 'Using PAT authentication');
+        return getPersonalAccessTokenHandler(config.personalAccessToken);
+    }
+  }
+
+  // Cloud environment, and not 'entra'
+  if (config.auth?.type === "pat" || !config.auth) {
+    // Explicitly PAT or no auth specified (defaults to PAT for cloud)
+    if (!config.personalAccessToken) {
+      const error = new Error(
+        "Personal Access Token is required for cloud authentication when auth type is PAT or not specified."
+      );
+      logger.error('ConnectionPool', 'Missing PAT token for cloud', error);
+      throw error;
+    }
+    logger.info('ConnectionPool', 'Using PAT authentication for cloud');
+    return getPersonalAccessTokenHandler(config.personalAccessToken);
+  }
+
+  // This case should ideally not be reached if config is validated correctly
+  const error = new Error(
+    `Unsupported authentication type "${config.auth?.type}" for Azure DevOps cloud.`
+  );
+  logger.error('ConnectionPool', 'Unsupported auth type', error, { authType: config.auth?.type });
+  throw error;
+}
+
+/**
+ * Create a connection with the appropriate base URL and authentication handler
+ */
+function createConnection(config: AzureDevOpsConfig): azdev.WebApi {
+  const authHandler = createAuthHandler(config);
+  const baseUrl = getBaseUrl(config);
+
+  logger.info('ConnectionPool', 'Connecting to Azure DevOps', {
+    baseUrl: baseUrl?.replace(/\/\/[^\/]+/, '//***'),
+    isOnPremises: config.isOnPremises,
+    collection: config.collection,
+    connection: config.name
+  });
+
+  // Create options for the WebApi
+  const requestOptions: VsoBaseInterfaces.IRequestOptions = {};
+
+  // For on-premises with API version specification, we'll add it to request headers
+  if (config.isOnPremises && config.apiVersion) {
+    requestOptions.headers = {
+      Accept: `application/json;api-version=${config.apiVersion}`,
+    };
+  }
+
+  try {
+    const connection = new azdev.WebApi(baseUrl, authHandler, requestOptions);
+    logger.info('ConnectionPool', 'Successfully created Azure DevOps connection');
+    return connection;
+  } catch (error) {
+    logger.logConnectionFailure('ConnectionPool', error as Error, config);
+    throw error;
+  }
+}
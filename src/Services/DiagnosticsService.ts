@@ -0,0 +1,352 @@
+import { promises as dns } from 'dns';
+import * as azdev from 'azure-devops-node-api';
+import { CoreApi } from 'azure-devops-node-api/CoreApi';
+import { AzureDevOpsConfig } from '../Interfaces/AzureDevOps';
+import { DiagnosticCheck, DiagnosticReport } from '../Interfaces/Diagnostics';
+import { AzureDevOpsService } from './AzureDevOpsService';
+
+// Location of the core Projects resource, used to read the REST API versions the server supports
+const PROJECTS_LOCATION_ID = '603fe2ac-9723-48b9-88ad-09305aa6c6e1';
+
+/**
+ * PAT scope each tool group needs, and a cheap read that fails without it.
+ * Groups without a probe return sample data and do not call Azure DevOps yet.
+ */
+interface ScopeProbe {
+  group: string;
+  scope: string; // Scope name as shown when creating a PAT
+  scopeId: string;
+  probe?: (service: DiagnosticsService) => Promise<unknown>;
+}
+
+const SCOPE_PROBES: ScopeProbe[] = [
+  {
+    group: 'workitems',
+    scope: 'Work Items',
+    scopeId: 'vso.work',
+    probe: async service => (await service.api('getWorkItemTrackingApi')).queryByWiql(
+      { query: 'SELECT [System.Id] FROM WorkItems WHERE [System.TeamProject] = @project' },
+      { project: service.project },
+      undefined,
+      1
+    )
+  },
+  {
+    group: 'boards',
+    scope: 'Work Items',
+    scopeId: 'vso.work',
+    probe: async service => (await service.api('getWorkApi')).getTeamSettings({ project: service.project })
+  },
+  {
+    group: 'projects',
+    scope: 'Project and Team',
+    scopeId: 'vso.project',
+    probe: async service => (await service.api('getCoreApi')).getProjects(undefined, 1)
+  },
+  {
+    group: 'git',
+    scope: 'Code',
+    scopeId: 'vso.code',
+    probe: async service => (await service.api('getGitApi')).getRepositories(service.project)
+  },
+  { group: 'testing', scope: 'Test Management', scopeId: 'vso.test' },
+  { group: 'devsecops', scope: 'Build', scopeId: 'vso.build' },
+  { group: 'artifacts', scope: 'Packaging', scopeId: 'vso.packaging' },
+  { group: 'ai', scope: 'Code', scopeId: 'vso.code' }
+];
+
+type ApiGetter = 'getWorkItemTrackingApi' | 'getWorkApi' | 'getCoreApi' | 'getGitApi';
+
+/**
+ * Checks that the configured organization, credentials and project work, and explains how to fix them when they do not
+ */
+export class DiagnosticsService extends AzureDevOpsService {
+  constructor(config: AzureDevOpsConfig) {
+    super(config);
+  }
+
+  /**
+   * The configured project
+   */
+  public get project(): string {
+    return this.config.project;
+  }
+
+  /**
+   * Get an API client from the connection, for the scope probes
+   */
+  public async api<T extends ApiGetter>(getter: T): Promise<Awaited<ReturnType<azdev.WebApi[T]>>> {
+    return await this.connection[getter]() as Awaited<ReturnType<azdev.WebApi[T]>>;
+  }
+
+  /**
+   * Run every check. Checks that need a working connection are skipped once the URL or authentication fails.
+   */
+  public async diagnose(): Promise<DiagnosticReport> {
+    const checks: DiagnosticCheck[] = [];
+    const urlCheck = await this.checkOrganizationUrl();
+    checks.push(urlCheck);
+
+    const authCheck = urlCheck.status === 'fail'
+      ? skipped('Authentication', 'the organization URL does not resolve')
+      : await this.checkAuthentication();
+    checks.push(authCheck);
+
+    if (authCheck.status === 'pass') {
+      checks.push(await this.checkProject());
+      checks.push(await this.checkApiVersion());
+      for (const probe of SCOPE_PROBES) {
+        checks.push(await this.checkScope(probe));
+      }
+    } else {
+      checks.push(skipped('Project', 'authentication failed'));
+      checks.push(skipped('API version', 'authentication failed'));
+      for (const probe of SCOPE_PROBES) {
+        checks.push(skipped(`Scope: ${probe.group}`, 'authentication failed'));
+      }
+    }
+
+    return createReport(this.config, checks);
+  }
+
+  private async checkOrganizationUrl(): Promise<DiagnosticCheck> {
+    const name = 'Organization URL';
+    let url: URL;
+    try {
+      url = new URL(this.config.orgUrl);
+    } catch {
+      return {
+        name,
+        status: 'fail',
+        message: `"${this.config.orgUrl}" is not a valid URL`,
+        hint: 'Set AZURE_DEVOPS_ORG_URL to https://dev.azure.com/<organization> for Azure DevOps Services, or to the server URL such as https://server/tfs on-premises.'
+      };
+    }
+    try {
+      const { address } = await dns.lookup(url.hostname);
+      return { name, status: 'pass', message: `${url.hostname} resolves to ${address}` };
+    } catch (error) {
+      return {
+        name,
+        status: 'fail',
+        message: `${url.hostname} does not resolve: ${getErrorMessage(error)}`,
+        hint: 'Check AZURE_DEVOPS_ORG_URL for typos, and that this machine can reach the server (VPN, DNS, HTTPS_PROXY).'
+      };
+    }
+  }
+
+  private async checkAuthentication(): Promise<DiagnosticCheck> {
+    const name = 'Authentication';
+    const authType = this.config.auth?.type || 'pat';
+    try {
+      const connectionData = await this.connection.connect();
+      const user = connectionData?.authenticatedUser;
+      // Some servers accept the request but authenticate it as an anonymous user
+      if (!user || /anonymous|unauthenticated/i.test(user.descriptor?.identityType || '')) {
+        return { name, status: 'fail', message: `Azure DevOps did not accept the ${authType} credentials`, hint: getAuthHint(this.config) };
+      }
+      return { name, status: 'pass', message: `Authenticated as ${user.providerDisplayName} using ${authType} authentication` };
+    } catch (error) {
+      const statusCode = getStatusCode(error);
+      // A sign-in page (HTTP 203) is thrown as an AuthenticationError by the request pipeline
+      if (statusCode === 203 || statusCode === 401 || statusCode === 403) {
+        return {
+          name,
+          status: 'fail',
+          message: `Azure DevOps rejected the ${authType} credentials (HTTP ${statusCode})`,
+          hint: getAuthHint(this.config)
+        };
+      }
+      if (statusCode === 404) {
+        return {
+          name,
+          status: 'fail',
+          message: 'The organization or collection was not found (HTTP 404)',
+          hint: this.config.isOnPremises
+            ? 'Check AZURE_DEVOPS_ORG_URL and set AZURE_DEVOPS_COLLECTION to the collection name, e.g. DefaultCollection.'
+            : 'Check the organization name in AZURE_DEVOPS_ORG_URL.'
+        };
+      }
+      return {
+        name,
+        status: 'fail',
+        message: `Could not connect: ${getErrorMessage(error)}`,
+        hint: this.config.isOnPremises
+          ? 'Check that the server is reachable over HTTPS. For a self-signed certificate, set NODE_EXTRA_CA_CERTS to the CA certificate file.'
+          : 'Check that this machine can reach dev.azure.com, including any proxy set in HTTPS_PROXY.'
+      };
+    }
+  }
+
+  private async checkProject(): Promise<DiagnosticCheck> {
+    const name = 'Project';
+    const project = this.config.project;
+    try {
+      const coreApi: CoreApi = await this.api('getCoreApi');
+      const details = await coreApi.getProject(project).catch(error => {
+        if (getStatusCode(error) === 404) {
+          return undefined;
+        }
+        throw error;
+      });
+      if (details) {
+        return { name, status: 'pass', message: `Project "${details.name}" exists (${details.id})` };
+      }
+      const projects = await coreApi.getProjects(undefined, 20);
+      const names = projects.map(candidate => candidate.name).filter(candidate => candidate);
+      return {
+        name,
+        status: 'fail',
+        message: `Project "${project}" was not found`,
+        hint: names.length > 0
+          ? `Set AZURE_DEVOPS_PROJECT to one of: ${names.join(', ')}.`
+          : 'Set AZURE_DEVOPS_PROJECT to the name of a project the credentials can access.'
+      };
+    } catch (error) {
+      return {
+        name,
+        status: 'fail',
+        message: `Could not read project "${project}": ${getErrorMessage(error)}`,
+        hint: 'The credentials need read access to the project (PAT scope "Project and Team (Read)").'
+      };
+    }
+  }
+
+  private async checkApiVersion(): Promise<DiagnosticCheck> {
+    const name = 'API version';
+    if (!this.config.isOnPremises) {
+      return skipped(name, 'Azure DevOps Services always supports the latest API version');
+    }
+    try {
+      const coreApi: CoreApi = await this.api('getCoreApi');
+      const location = await coreApi.vsoClient.beginGetLocation('core', PROJECTS_LOCATION_ID);
+      const maxVersion = location?.maxVersion;
+      if (!maxVersion) {
+        return { name, status: 'warn', message: 'The server did not report the API versions it supports' };
+      }
+      const configured = this.config.apiVersion;
+      if (!configured) {
+        return {
+          name,
+          status: 'warn',
+          message: `The server supports API versions up to ${maxVersion}, AZURE_DEVOPS_API_VERSION is not set`,
+          hint: `Set AZURE_DEVOPS_API_VERSION=${toMajorMinor(maxVersion)} to pin requests to a version the server supports.`
+        };
+      }
+      if (compareVersions(configured, maxVersion) > 0) {
+        return {
+          name,
+          status: 'fail',
+          message: `AZURE_DEVOPS_API_VERSION ${configured} is newer than the server supports (${maxVersion})`,
+          hint: `Set AZURE_DEVOPS_API_VERSION=${toMajorMinor(maxVersion)} or lower.`
+        };
+      }
+      return { name, status: 'pass', message: `AZURE_DEVOPS_API_VERSION ${configured} is supported (server maximum ${maxVersion})` };
+    } catch (error) {
+      return { name, status: 'warn', message: `Could not read the server API version: ${getErrorMessage(error)}` };
+    }
+  }
+
+  private async checkScope(probe: ScopeProbe): Promise<DiagnosticCheck> {
+    const name = `Scope: ${probe.group}`;
+    const access = `${probe.scope} (${probe.scopeId})`;
+    if (!probe.probe) {
+      return { name, status: 'skip', message: `Tools return sample data and do not call Azure DevOps yet; they will need ${access}` };
+    }
+    try {
+      await probe.probe(this);
+      return { name, status: 'pass', message: `${access} read access granted` };
+    } catch (error) {
+      const statusCode = getStatusCode(error);
+      if (statusCode === 401 || statusCode === 403) {
+        const isPat = (this.config.auth?.type || 'pat') === 'pat';
+        return {
+          name,
+          status: 'fail',
+          message: isPat ? `The PAT is missing the ${access} scope` : `The user lacks permission for ${probe.scope}`,
+          hint: isPat
+            ? `Edit the token and grant "${probe.scope}": Read for read-only tools, Read & write for tools that change data.`
+            : `Ask a project administrator to grant the user access to ${probe.scope}.`
+        };
+      }
+      return { name, status: 'warn', message: `Could not check ${access}: ${getErrorMessage(error)}` };
+    }
+  }
+}
+
+/**
+ * Create a report from a list of checks
+ */
+export function createReport(config: Pick<AzureDevOpsConfig, 'orgUrl' | 'project' | 'auth' | 'isOnPremises'>, checks: DiagnosticCheck[]): DiagnosticReport {
+  return {
+    orgUrl: config.orgUrl,
+    project: config.project,
+    authType: config.auth?.type || 'pat',
+    isOnPremises: !!config.isOnPremises,
+    healthy: checks.every(check => check.status !== 'fail'),
+    checks
+  };
+}
+
+/**
+ * Format a report as plain text, one line per check followed by its hint
+ */
+export function formatDiagnosticReport(report: DiagnosticReport): string {
+  const lines = [
+    'Azure DevOps connection diagnostics',
+    `  Organization: ${report.orgUrl || '(not set)'} (${report.isOnPremises ? 'on-premises' : 'cloud'}, ${report.authType} authentication)`,
+    `  Project: ${report.project || '(not set)'}`,
+    ''
+  ];
+  for (const check of report.checks) {
+    lines.push(`[${check.status.toUpperCase()}] ${check.name}: ${check.message}`);
+    if (check.hint) {
+      lines.push(`       Hint: ${check.hint}`);
+    }
+  }
+  const failed = report.checks.filter(check => check.status === 'fail').length;
+  lines.push('', failed === 0 ? 'All checks passed' : `${failed} check${failed === 1 ? '' : 's'} failed`);
+  return lines.join('\n');
+}
+
+/**
+ * Remediation for credentials Azure DevOps did not accept
+ */
+export function getAuthHint(config: Pick<AzureDevOpsConfig, 'orgUrl' | 'auth'>): string {
+  switch (config.auth?.type) {
+    case 'ntlm':
+      return 'Check AZURE_DEVOPS_USERNAME, AZURE_DEVOPS_PASSWORD and AZURE_DEVOPS_DOMAIN, and that Windows authentication is enabled on the server.';
+    case 'basic':
+      return 'Check AZURE_DEVOPS_USERNAME and AZURE_DEVOPS_PASSWORD, and that Basic authentication is enabled on the server (IIS).';
+    case 'entra':
+      return 'Sign in with `az login`, or set AZURE_CLIENT_ID, AZURE_TENANT_ID and AZURE_CLIENT_SECRET for DefaultAzureCredential, and make sure the identity has been added to the organization.';
+    default:
+      return `The personal access token is invalid, expired, revoked or belongs to another organization. Create a new one at ${config.orgUrl.replace(/\/+$/, '')}/_usersSettings/tokens and set AZURE_DEVOPS_PERSONAL_ACCESS_TOKEN.`;
+  }
+}
+
+function skipped(name: string, reason: string): DiagnosticCheck {
+  return { name, status: 'skip', message: `Not checked because ${reason}` };
+}
+
+function getStatusCode(error: unknown): number | undefined {
+  return (error as { statusCode?: number })?.statusCode;
+}
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Compare API versions such as `6.0` and `7.1-preview.1` by their major and minor numbers
+ */
+function compareVersions(left: string, right: string): number {
+  const [leftMajor, leftMinor] = toMajorMinor(left).split('.').map(Number);
+  const [rightMajor, rightMinor] = toMajorMinor(right).split('.').map(Number);
+  return leftMajor !== rightMajor ? leftMajor - rightMajor : (leftMinor || 0) - (rightMinor || 0);
+}
+
+function toMajorMinor(version: string): string {
+  const [major, minor] = version.split('-')[0].split('.');
+  return `${Number(major) || 0}.${Number(minor) || 0}`;
+}
@@ -1,8 +1,16 @@
 import * as azdev from 'azure-devops-node-api';
 import { GitApi } from 'azure-devops-node-api/GitApi';
+import {
+  GitPullRequest,
+  PullRequestStatus,
+  VersionControlRecursionType
+} from 'azure-devops-node-api/interfaces/GitInterfaces';
 import { AzureDevOpsConfig } from '../Interfaces/AzureDevOps';
 import { AzureDevOpsService } from './AzureDevOpsService';
+import { WritePlan } from '../Interfaces/DryRun';
 import { validatePullRequestRepository } from '../utils/repositoryValidation';
+import { toGitVersionDescriptor } from '../utils/gitVersion';
+import { readStreamAsString } from '../utils/streams';
 import {
   ListRepositoriesParams,
   GetRepositoryParams,
@@ -23,6 +31,9 @@ import {
   AddPullRequestCommentParams
 } from '../Interfaces/CodeAndRepositories';
 
+// Reviewer vote that approves a pull request
+const APPROVE_VOTE = { vote: 10 };
+
 export class GitService extends AzureDevOpsService {
   constructor(config: AzureDevOpsConfig) {
     super(config);
@@ -81,12 +92,7 @@ export class GitService extends AzureDevOpsService {
     try {
       const gitApi = await this.getGitApi();
       
-      const repository = await gitApi.createRepository({
-        name: params.name,
-        project: {
-          id: params.projectId || this.config.project
-        }
-      }, params.projectId || this.config.project);
+      const repository = await gitApi.createRepository(this.buildCreateRepository(params), params.projectId || this.config.project);
       
       return repository;
     } catch (error) {
@@ -95,6 +101,33 @@ export class GitService extends AzureDevOpsService {
     }
   }
 
+  /**
+   * Plan the creation of a repository without creating it
+   */
+  public async planCreateRepository(params: CreateRepositoryParams): Promise<WritePlan> {
+    const project = params.projectId || this.config.project;
+
+    return {
+      dryRun: true,
+      operation: 'createRepository',
+      target: { project },
+      payload: this.buildCreateRepository(params),
+      summary: `Create repository "${params.name}" in project ${project}`
+    };
+  }
+
+  /**
+   * Build the body of a new repository
+   */
+  private buildCreateRepository(params: CreateRepositoryParams): any {
+    return {
+      name: params.name,
+      project: {
+        id: params.projectId || this.config.project
+      }
+    };
+  }
+
   /**
    * List branches
    */
@@ -179,7 +212,7 @@ export class GitService extends AzureDevOpsService {
         params.repositoryId,
         undefined,
         params.path,
-        undefined,
+        params.recursive ? VersionControlRecursionType.Full : undefined,
         true,
         undefined,
         undefined,
@@ -206,22 +239,17 @@ export class GitService extends AzureDevOpsService {
       const content = await gitApi.getItemContent(
         params.repositoryId,
         params.path,
+        this.config.project,
         undefined,
-        undefined
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        toGitVersionDescriptor(params.versionDescriptor)
       );
       
       // Convert content to string
-      let fileContent = '';
-      
-      // Handle different content types
-      if (Buffer.isBuffer(content)) {
-        fileContent = content.toString('utf8');
-      } else if (typeof content === 'string') {
-        fileContent = content;
-      } else {
-        // If it's a stream or other type, return a placeholder
-        fileContent = "[Content not available in this format]";
-      }
+      const fileContent = await readStreamAsString(content);
       
       return {
         content: fileContent
@@ -341,13 +369,7 @@ export class GitService extends AzureDevOpsService {
     try {
       const gitApi = await this.getGitApi();
       
-      const pullRequest = {
-        sourceRefName: params.sourceRefName,
-        targetRefName: params.targetRefName,
-        title: params.title,
-        description: params.description,
-        reviewers: params.reviewers ? params.reviewers.map(id => ({ id })) : undefined
-      };
+      const pullRequest = this.buildCreatePullRequest(params);
       
       const createdPullRequest = await gitApi.createPullRequest(
         pullRequest,
@@ -362,6 +384,55 @@ export class GitService extends AzureDevOpsService {
     }
   }
 
+  /**
+   * Plan the creation of a pull request without creating it
+   */
+  public async planCreatePullRequest(params: CreatePullRequestParams): Promise<WritePlan> {
+    return {
+      dryRun: true,
+      operation: 'createPullRequest',
+      target: {
+        project: this.config.project,
+        repositoryId: params.repositoryId
+      },
+      payload: this.buildCreatePullRequest(params),
+      summary: `Create pull request "${params.title}" from ${params.sourceRefName} into ${params.targetRefName} in repository ${params.repositoryId}`
+    };
+  }
+
+  /**
+   * Build the body of a new pull request
+   */
+  private buildCreatePullRequest(params: CreatePullRequestParams): any {
+    return {
+      sourceRefName: params.sourceRefName,
+      targetRefName: params.targetRefName,
+      title: params.title,
+      description: params.description,
+      reviewers: params.reviewers ? params.reviewers.map(id => ({ id })) : undefined
+    };
+  }
+
+  /**
+   * Get the most recently created active pull requests in the project
+   */
+  public async getRecentPullRequests(top: number): Promise<GitPullRequest[]> {
+    try {
+      const gitApi = await this.getGitApi();
+      
+      return await gitApi.getPullRequestsByProject(
+        this.config.project,
+        { status: PullRequestStatus.Active },
+        undefined,
+        undefined,
+        top
+      );
+    } catch (error) {
+      console.error('Error getting recent pull requests:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get pull request by ID
    */
@@ -458,7 +529,8 @@ export class GitService extends AzureDevOpsService {
           this.config.project
         );
         
-        return threads;
+        const skip = params.skip || 0;
+        return params.top ? threads.slice(skip, skip + params.top) : threads.slice(skip);
       }
     } catch (error) {
       console.error(`Error getting comments for pull request ${params.pullRequestId}:`, error);
@@ -481,12 +553,8 @@ export class GitService extends AzureDevOpsService {
         this.config.project
       );
       
-      const vote = {
-        vote: 10
-      };
-      
       const result = await gitApi.createPullRequestReviewer(
-        vote,
+        APPROVE_VOTE,
         params.repositoryId,
         params.pullRequestId,
         "me",
@@ -515,19 +583,8 @@ export class GitService extends AzureDevOpsService {
         this.config.project
       );
       
-      // Convert string merge strategy to number
-      let mergeStrategy = 1; // Default to noFastForward
-      if (params.mergeStrategy === 'rebase') mergeStrategy = 2;
-      else if (params.mergeStrategy === 'rebaseMerge') mergeStrategy = 3;
-      else if (params.mergeStrategy === 'squash') mergeStrategy = 4;
-      
       const result = await gitApi.updatePullRequest(
-        { 
-          status: 3, // 3 = completed in PullRequestStatus enum
-          completionOptions: {
-            mergeStrategy: mergeStrategy
-          }
-        },
+        this.buildCompletionUpdate(params.mergeStrategy),
         params.repositoryId,
         params.pullRequestId,
         this.config.project
@@ -557,11 +614,7 @@ export class GitService extends AzureDevOpsService {
       
       if (params.threadId) {
         // Add comment to existing thread
-        const comment = {
-          content: params.content,
-          parentCommentId: params.parentCommentId || 0,
-          commentType: 1 // 1 = text comment
-        };
+        const comment = this.buildThreadComment(params);
         
         const result = await gitApi.createComment(
           comment,
@@ -574,29 +627,7 @@ export class GitService extends AzureDevOpsService {
         return result;
       } else {
         // Create new thread with comment
-        const thread: any = {
-          comments: [{
-            parentCommentId: 0,
-            content: params.content,
-            commentType: 1 // 1 = text comment
-          }],
-          status: 1 // 1 = active
-        };
-        
-        // Add thread context if file/line information is provided
-        if (params.threadContext || (params.filePath && params.lineNumber)) {
-          thread.threadContext = params.threadContext || {
-            filePath: params.filePath,
-            rightFileStart: {
-              line: params.lineNumber,
-              offset: 1
-            },
-            rightFileEnd: {
-              line: params.lineNumber,
-              offset: 999
-            }
-          };
-        }
+        const thread = this.buildCommentThread(params);
         
         const result = await gitApi.createThread(
           thread,
@@ -631,21 +662,9 @@ export class GitService extends AzureDevOpsService {
       // Get the current pull request
       const pullRequest = await gitApi.getPullRequestById(params.pullRequestId);
       
-      // Convert string merge strategy to number
-      let mergeStrategy = 1; // Default to noFastForward
-      if (params.mergeStrategy === 'rebase') mergeStrategy = 2;
-      else if (params.mergeStrategy === 'rebaseMerge') mergeStrategy = 3;
-      else if (params.mergeStrategy === 'squash') mergeStrategy = 4;
-      
       // Update the pull request to completed status
       const updatedPullRequest = await gitApi.updatePullRequest(
-        {
-          status: 3, // 3 = completed in PullRequestStatus enum
-          completionOptions: {
-            mergeStrategy: mergeStrategy,
-            deleteSourceBranch: params.deleteSourceBranch
-          }
-        },
+        this.buildCompletionUpdate(params.mergeStrategy, params.deleteSourceBranch),
         params.repositoryId,
         params.pullRequestId
       );
@@ -656,4 +675,143 @@ export class GitService extends AzureDevOpsService {
       throw error;
     }
   }
-} 
\ No newline at end of file
+
+  /**
+   * Plan an approval of a pull request without voting
+   */
+  public async planApprovePullRequest(params: ApprovePullRequestParams): Promise<WritePlan> {
+    const target = await this.getPullRequestPlanTarget(params.repositoryId, params.pullRequestId);
+    
+    return {
+      dryRun: true,
+      operation: 'approvePullRequest',
+      target,
+      payload: APPROVE_VOTE,
+      summary: `Vote "approve" on pull request ${params.pullRequestId} "${target.title}" (status: ${target.status})`
+    };
+  }
+
+  /**
+   * Plan a merge of a pull request without completing it
+   */
+  public async planMergePullRequest(params: MergePullRequestParams): Promise<WritePlan> {
+    const target = await this.getPullRequestPlanTarget(params.repositoryId, params.pullRequestId);
+    
+    return {
+      dryRun: true,
+      operation: 'mergePullRequest',
+      target,
+      payload: this.buildCompletionUpdate(params.mergeStrategy),
+      summary: `Complete pull request ${params.pullRequestId} "${target.title}" (status: ${target.status}, merge status: ${target.mergeStatus}) by merging ${target.sourceRefName} into ${target.targetRefName} using ${params.mergeStrategy || 'noFastForward'}`
+    };
+  }
+
+  /**
+   * Plan a pull request comment without posting it
+   */
+  public async planAddPullRequestComment(params: AddPullRequestCommentParams): Promise<WritePlan> {
+    const target = await this.getPullRequestPlanTarget(params.repositoryId, params.pullRequestId);
+    
+    return {
+      dryRun: true,
+      operation: 'addPullRequestComment',
+      target: { ...target, threadId: params.threadId },
+      payload: params.threadId ? this.buildThreadComment(params) : this.buildCommentThread(params),
+      summary: params.threadId
+        ? `Reply in thread ${params.threadId} of pull request ${params.pullRequestId}`
+        : `Start a new comment thread on pull request ${params.pullRequestId}${params.filePath ? ` at ${params.filePath}` : ''}`
+    };
+  }
+
+  /**
+   * Resolve the pull request a plan targets, including its current status
+   */
+  private async getPullRequestPlanTarget(repositoryId: string, pullRequestId: number): Promise<Record<string, any>> {
+    const gitApi = await this.getGitApi();
+    
+    // Validate that the repository ID matches the pull request
+    await validatePullRequestRepository(
+      gitApi,
+      repositoryId,
+      pullRequestId,
+      this.config.project
+    );
+    
+    const pullRequest = await this.getPullRequest({ repositoryId, pullRequestId });
+    
+    return {
+      project: this.config.project,
+      repositoryId,
+      pullRequestId,
+      title: pullRequest.title,
+      status: pullRequest.status,
+      mergeStatus: pullRequest.mergeStatus,
+      isDraft: pullRequest.isDraft,
+      sourceRefName: pullRequest.sourceRefName,
+      targetRefName: pullRequest.targetRefName
+    };
+  }
+
+  /**
+   * Build the update that completes a pull request
+   * @param mergeStrategy Merge strategy name, defaults to noFastForward
+   * @param deleteSourceBranch Whether to delete the source branch after merging
+   */
+  private buildCompletionUpdate(mergeStrategy?: string, deleteSourceBranch?: boolean): any {
+    // Convert string merge strategy to number
+    let mergeStrategyValue = 1; // Default to noFastForward
+    if (mergeStrategy === 'rebase') mergeStrategyValue = 2;
+    else if (mergeStrategy === 'rebaseMerge') mergeStrategyValue = 3;
+    else if (mergeStrategy === 'squash') mergeStrategyValue = 4;
+    
+    return {
+      status: 3, // 3 = completed in PullRequestStatus enum
+      completionOptions: {
+        mergeStrategy: mergeStrategyValue,
+        deleteSourceBranch
+      }
+    };
+  }
+
+  /**
+   * Build a comment for an existing pull request thread
+   */
+  private buildThreadComment(params: AddPullRequestCommentParams): any {
+    return {
+      content: params.content,
+      parentCommentId: params.parentCommentId || 0,
+      commentType: 1 // 1 = text comment
+    };
+  }
+
+  /**
+   * Build a new pull request thread holding a single comment
+   */
+  private buildCommentThread(params: AddPullRequestCommentParams): any {
+    const thread: any = {
+      comments: [{
+        parentCommentId: 0,
+        content: params.content,
+        commentType: 1 // 1 = text comment
+      }],
+      status: 1 // 1 = active
+    };
+    
+    // Add thread context if file/line information is provided
+    if (params.threadContext || (params.filePath && params.lineNumber)) {
+      thread.threadContext = params.threadContext || {
+        filePath: params.filePath,
+        rightFileStart: {
+          line: params.lineNumber,
+          offset: 1
+        },
+        rightFileEnd: {
+          line: params.lineNumber,
+          offset: 999
+        }
+      };
+    }
+    
+    return thread;
+  }
+}
@@ -0,0 +1,216 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CacheConfig, MetadataEntity } from '../Interfaces/Cache';
+import { logger } from '../utils/logger';
+
+// Used until `configure` is called
+export const DEFAULT_CACHE_CONFIG: CacheConfig = {
+  ttlSeconds: {
+    workItemTypes: 3600,
+    workItemTypeFields: 3600,
+    areas: 3600,
+    iterations: 3600,
+    teams: 3600
+  }
+};
+
+// Bumped when the format of the cache file changes, so older files are ignored
+const CACHE_FILE_VERSION = 1;
+
+// Changes are written to the cache file this long after the first unsaved one, together
+const WRITE_DELAY_MS = 1000;
+
+interface CacheEntry {
+  value: any;
+  expiresAt: number; // Epoch milliseconds
+}
+
+/**
+ * Time-to-live cache for metadata that rarely changes, such as work item types, areas,
+ * iterations and teams. Entries are kept in memory and, when a cache file is configured,
+ * persisted to disk so they survive restarts. Changes are written in the background, at most
+ * once per `WRITE_DELAY_MS`, without the entries that have expired.
+ */
+export class MetadataCache {
+  private entries = new Map<string, CacheEntry>();
+  private loading = new Map<string, Promise<any>>();
+  private config: CacheConfig = DEFAULT_CACHE_CONFIG;
+  // Incremented by `configure` and by `clear` of every entity, so that loads started before it are not cached
+  private generation = 0;
+  // Incremented by `clear` of a single entity, so that only its loads are not cached
+  private entityGenerations = new Map<MetadataEntity, number>();
+  private writeTimer: NodeJS.Timeout | undefined;
+  private writing: Promise<void> = Promise.resolve();
+
+  /**
+   * Apply a configuration, loading the cache file if it has one
+   * @param config The cache configuration
+   */
+  public configure(config: CacheConfig): void {
+    this.config = config;
+    this.entries.clear();
+    this.generation++;
+    if (config.file) {
+      this.readFile(config.file);
+    }
+  }
+
+  /**
+   * Get a cached value, loading and caching it when missing or expired.
+   * Concurrent requests for the same missing entry share a single load.
+   * @param entity The kind of metadata, which selects the TTL
+   * @param key Identifies the entry within the entity, including the organization and project
+   * @param load Loads the value from Azure DevOps
+   * @returns The cached or loaded value
+   */
+  public async get<T>(entity: MetadataEntity, key: string, load: () => Promise<T>): Promise<T> {
+    const ttlSeconds = this.config.ttlSeconds[entity];
+    if (!ttlSeconds) {
+      return load();
+    }
+
+    const cacheKey = `${entity}|${key}`;
+    const entry = this.entries.get(cacheKey);
+    if (entry && entry.expiresAt > Date.now()) {
+      logger.debug('MetadataCache', 'Cache hit', { entity, key });
+      return entry.value;
+    }
+
+    let pending = this.loading.get(cacheKey);
+    if (!pending) {
+      this.pruneExpired();
+      const generation = this.getGeneration(entity);
+      pending = load()
+        .then(value => {
+          if (generation === this.getGeneration(entity)) {
+            this.entries.set(cacheKey, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+            this.scheduleWrite();
+          }
+          return value;
+        })
+        .finally(() => {
+          if (this.loading.get(cacheKey) === pending) {
+            this.loading.delete(cacheKey);
+          }
+        });
+      this.loading.set(cacheKey, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Remove cached entries. Loads still running are not cached when they finish.
+   * @param entity The kind of metadata to remove; all entries when omitted
+   * @returns The number of entries removed
+   */
+  public clear(entity?: MetadataEntity): number {
+    if (entity) {
+      this.entityGenerations.set(entity, (this.entityGenerations.get(entity) || 0) + 1);
+    } else {
+      this.generation++;
+    }
+    let removed = 0;
+    for (const cacheKey of Array.from(this.entries.keys())) {
+      if (!entity || cacheKey.startsWith(`${entity}|`)) {
+        this.entries.delete(cacheKey);
+        removed++;
+      }
+    }
+    for (const cacheKey of Array.from(this.loading.keys())) {
+      if (!entity || cacheKey.startsWith(`${entity}|`)) {
+        this.loading.delete(cacheKey);
+      }
+    }
+    this.scheduleWrite();
+    logger.info('MetadataCache', 'Cleared cache', { entity: entity || 'all', removed });
+    return removed;
+  }
+
+  private getGeneration(entity: MetadataEntity): string {
+    return `${this.generation}.${this.entityGenerations.get(entity) || 0}`;
+  }
+
+  private readFile(file: string): void {
+    try {
+      if (!fs.existsSync(file)) {
+        return;
+      }
+      const data = JSON.parse(fs.readFileSync(file, 'utf8'));
+      if (data?.version !== CACHE_FILE_VERSION) {
+        logger.warn('MetadataCache', 'Ignoring cache file written by another version', { file });
+        return;
+      }
+      const now = Date.now();
+      for (const [cacheKey, entry] of Object.entries<CacheEntry>(data.entries || {})) {
+        if (entry.expiresAt > now) {
+          this.entries.set(cacheKey, entry);
+        }
+      }
+      logger.info('MetadataCache', 'Loaded cache file', { file, entries: this.entries.size });
+    } catch (error) {
+      logger.warn('MetadataCache', 'Failed to read cache file, starting with an empty cache', { file, error: String(error) });
+    }
+  }
+
+  /**
+   * Write unsaved changes to the cache file now, e.g. before the server exits
+   */
+  public async flush(): Promise<void> {
+    if (this.writeTimer) {
+      clearTimeout(this.writeTimer);
+      this.writeTimer = undefined;
+      this.writing = this.writing.then(() => this.writeFile());
+    }
+    await this.writing;
+  }
+
+  /**
+   * Write the cache file after `WRITE_DELAY_MS`, unless a write is already scheduled
+   */
+  private scheduleWrite(): void {
+    if (!this.config.file || this.writeTimer) {
+      return;
+    }
+    this.writeTimer = setTimeout(() => {
+      this.writeTimer = undefined;
+      // Writes run one after another, so an older one cannot replace a newer file
+      this.writing = this.writing.then(() => this.writeFile());
+    }, WRITE_DELAY_MS);
+    this.writeTimer.unref();
+  }
+
+  private async writeFile(): Promise<void> {
+    const file = this.config.file;
+    if (!file) {
+      return;
+    }
+    this.pruneExpired();
+    const temporaryFile = `${file}.${process.pid}.tmp`;
+    try {
+      await fs.promises.mkdir(path.dirname(file), { recursive: true });
+      // Written next to the file and renamed, so a reader never sees half a file
+      await fs.promises.writeFile(temporaryFile, JSON.stringify({
+        version: CACHE_FILE_VERSION,
+        entries: Object.fromEntries(this.entries)
+      }), 'utf8');
+      await fs.promises.rename(temporaryFile, file);
+    } catch (error) {
+      logger.warn('MetadataCache', 'Failed to write cache file', { file, error: String(error) });
+      await fs.promises.rm(temporaryFile, { force: true }).catch(() => undefined);
+    }
+  }
+
+  private pruneExpired(): void {
+    const now = Date.now();
+    for (const [cacheKey, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(cacheKey);
+      }
+    }
+  }
+}
+
+/**
+ * Metadata cache shared by all services
+ */
+export const metadataCache = new MetadataCache();
@@ -0,0 +1,179 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { LatencySummary, ServerMetrics, ToolMetrics, UpstreamMetrics } from '../Interfaces/Metrics';
+import { McpResponse } from '../Interfaces/Common';
+import { classifyError } from '../utils/errors';
+
+// Latency percentiles are computed over this many of the most recent calls of each tool
+const LATENCY_SAMPLES = 1000;
+
+const METRIC_PREFIX = 'azure_devops_mcp';
+
+interface ToolStats {
+  calls: number;
+  errorsByCode: Map<string, number>;
+  upstreamRequests: number;
+  totalMs: number;
+  samples: number[]; // Ring buffer of recent durations
+  nextSample: number;
+}
+
+/**
+ * Collects call counts, latency and error counts of every tool, and counts of the requests
+ * sent to Azure DevOps. Requests are attributed to the tool call they are sent from.
+ */
+export class MetricsCollector {
+  private readonly startedAt = new Date();
+  private tools = new Map<string, ToolStats>();
+  private upstream = { requests: 0, retries: 0, byStatus: new Map<string, number>() };
+  private currentTool = new AsyncLocalStorage<ToolStats>();
+
+  /**
+   * Run a tool call, recording its duration and, if it fails, its error code
+   * @param tool The tool name
+   * @param call Runs the tool
+   * @returns The tool result
+   */
+  public async measureTool(tool: string, call: () => Promise<McpResponse>): Promise<McpResponse> {
+    const stats = this.getToolStats(tool);
+    const start = process.hrtime.bigint();
+    let errorCode: string | undefined;
+    try {
+      const result = await this.currentTool.run(stats, call);
+      if (result.isError) {
+        errorCode = result.structuredContent?.code || 'UNKNOWN';
+      }
+      return result;
+    } catch (error) {
+      errorCode = classifyError(error).code;
+      throw error;
+    } finally {
+      const durationMs = Number(process.hrtime.bigint() - start) / 1e6;
+      stats.calls++;
+      stats.totalMs += durationMs;
+      stats.samples[stats.nextSample] = durationMs;
+      stats.nextSample = (stats.nextSample + 1) % LATENCY_SAMPLES;
+      if (errorCode) {
+        stats.errorsByCode.set(errorCode, (stats.errorsByCode.get(errorCode) || 0) + 1);
+      }
+    }
+  }
+
+  /**
+   * Record a request sent to Azure DevOps
+   * @param status The HTTP status, or undefined when the request failed without a response
+   * @param isRetry Whether the request repeats an earlier attempt
+   */
+  public recordUpstreamRequest(status: number | undefined, isRetry: boolean): void {
+    const key = status ? String(status) : 'network';
+    this.upstream.requests++;
+    this.upstream.byStatus.set(key, (this.upstream.byStatus.get(key) || 0) + 1);
+    if (isRetry) {
+      this.upstream.retries++;
+    }
+    const tool = this.currentTool.getStore();
+    if (tool) {
+      tool.upstreamRequests++;
+    }
+  }
+
+  /**
+   * Get a snapshot of the metrics
+   */
+  public getMetrics(): ServerMetrics {
+    const tools: ToolMetrics[] = Array.from(this.tools.entries())
+      .filter(([, stats]) => stats.calls > 0)
+      .map(([tool, stats]) => ({
+        tool,
+        calls: stats.calls,
+        errors: Array.from(stats.errorsByCode.values()).reduce((sum, count) => sum + count, 0),
+        errorsByCode: Object.fromEntries(stats.errorsByCode),
+        upstreamRequests: stats.upstreamRequests,
+        latencyMs: getLatencySummary(stats.samples)
+      }))
+      .sort((a, b) => b.calls - a.calls);
+    const upstream: UpstreamMetrics = {
+      requests: this.upstream.requests,
+      retries: this.upstream.retries,
+      byStatus: Object.fromEntries(this.upstream.byStatus)
+    };
+    return {
+      startedAt: this.startedAt.toISOString(),
+      uptimeSeconds: Math.round((Date.now() - this.startedAt.getTime()) / 1000),
+      tools,
+      upstream
+    };
+  }
+
+  /**
+   * Format the metrics in the Prometheus text exposition format
+   */
+  public toPrometheus(): string {
+    const metrics = this.getMetrics();
+    const lines: string[] = [];
+    const family = (name: string, type: string, help: string) => {
+      lines.push(`# HELP ${METRIC_PREFIX}_${name} ${help}`, `# TYPE ${METRIC_PREFIX}_${name} ${type}`);
+    };
+    const sample = (name: string, labels: Record<string, string>, value: number) => {
+      const labelText = Object.entries(labels).map(([key, label]) => `${key}="${escapeLabel(label)}"`).join(',');
+      lines.push(`${METRIC_PREFIX}_${name}${labelText ? `{${labelText}}` : ''} ${value}`);
+    };
+
+    family('uptime_seconds', 'gauge', 'Seconds since the server started');
+    sample('uptime_seconds', {}, metrics.uptimeSeconds);
+
+    family('tool_calls_total', 'counter', 'Tool calls');
+    metrics.tools.forEach(tool => sample('tool_calls_total', { tool: tool.tool }, tool.calls));
+
+    family('tool_errors_total', 'counter', 'Failed tool calls by error code');
+    metrics.tools.forEach(tool => Object.entries(tool.errorsByCode)
+      .forEach(([code, count]) => sample('tool_errors_total', { tool: tool.tool, code }, count)));
+
+    family('tool_duration_seconds', 'summary', 'Tool call duration');
+    for (const tool of metrics.tools) {
+      const stats = this.tools.get(tool.tool)!;
+      sample('tool_duration_seconds', { tool: tool.tool, quantile: '0.5' }, tool.latencyMs.p50 / 1000);
+      sample('tool_duration_seconds', { tool: tool.tool, quantile: '0.95' }, tool.latencyMs.p95 / 1000);
+      sample('tool_duration_seconds_sum', { tool: tool.tool }, stats.totalMs / 1000);
+      sample('tool_duration_seconds_count', { tool: tool.tool }, tool.calls);
+    }
+
+    family('tool_upstream_requests_total', 'counter', 'Azure DevOps requests sent by tool calls');
+    metrics.tools.forEach(tool => sample('tool_upstream_requests_total', { tool: tool.tool }, tool.upstreamRequests));
+
+    family('upstream_requests_total', 'counter', 'Azure DevOps requests by HTTP status, including retries');
+    Object.entries(metrics.upstream.byStatus).forEach(([status, count]) => sample('upstream_requests_total', { status }, count));
+
+    family('upstream_retries_total', 'counter', 'Azure DevOps requests retried after throttling or a transient failure');
+    sample('upstream_retries_total', {}, metrics.upstream.retries);
+
+    return lines.join('\n') + '\n';
+  }
+
+  private getToolStats(tool: string): ToolStats {
+    let stats = this.tools.get(tool);
+    if (!stats) {
+      stats = { calls: 0, errorsByCode: new Map(), upstreamRequests: 0, totalMs: 0, samples: [], nextSample: 0 };
+      this.tools.set(tool, stats);
+    }
+    return stats;
+  }
+}
+
+/**
+ * Metrics collector shared by every MCP session
+ */
+export const metrics = new MetricsCollector();
+
+function getLatencySummary(samples: number[]): LatencySummary {
+  const sorted = [...samples].sort((a, b) => a - b);
+  const percentile = (p: number) => sorted.length ? round(sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)]) : 0;
+  return { p50: percentile(0.5), p95: percentile(0.95), max: sorted.length ? round(sorted[sorted.length - 1]) : 0 };
+}
+
+function round(ms: number): number {
+  return Math.round(ms * 10) / 10;
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
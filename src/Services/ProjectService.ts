@@ -4,6 +4,7 @@ import { WorkItemTrackingProcessApi } from 'azure-devops-node-api/WorkItemTracki
 import { ProjectVisibility } from 'azure-devops-node-api/interfaces/CoreInterfaces';
 import { AzureDevOpsConfig } from '../Interfaces/AzureDevOps';
 import { AzureDevOpsService } from './AzureDevOpsService';
+import { WritePlan } from '../Interfaces/DryRun';
 import {
   ListProjectsParams,
   GetProjectDetailsParams,
@@ -85,24 +86,7 @@ export class ProjectService extends AzureDevOpsService {
     try {
       const coreApi = await this.getCoreApi();
       
-      // Convert string visibility to enum
-      let visibility: ProjectVisibility;
-      if (params.visibility === 'private') {
-        visibility = ProjectVisibility.Private;
-      } else if (params.visibility === 'public') {
-        visibility = ProjectVisibility.Public;
-      } else {
-        visibility = ProjectVisibility.Private; // Default
-      }
-      
-      // Create project with valid properties
-      const project = await coreApi.queueCreateProject({
-        name: params.name,
-        description: params.description,
-        visibility: visibility,
-        capabilities: params.capabilities || {}
-        // Removed processTemplateId as it's not a valid property
-      });
+      const project = await coreApi.queueCreateProject(this.buildCreateProject(params));
       
       return project;
     } catch (error) {
@@ -111,21 +95,60 @@ export class ProjectService extends AzureDevOpsService {
     }
   }
 
+  /**
+   * Plan the creation of a project without queuing it
+   */
+  public async planCreateProject(params: CreateProjectParams): Promise<WritePlan> {
+    return {
+      dryRun: true,
+      operation: 'createProject',
+      target: { organization: this.config.orgUrl },
+      payload: this.buildCreateProject(params),
+      summary: `Create ${params.visibility || 'private'} project "${params.name}"`
+    };
+  }
+
+  /**
+   * Build the body of a new project
+   */
+  private buildCreateProject(params: CreateProjectParams): any {
+    // Convert string visibility to enum
+    let visibility: ProjectVisibility;
+    if (params.visibility === 'private') {
+      visibility = ProjectVisibility.Private;
+    } else if (params.visibility === 'public') {
+      visibility = ProjectVisibility.Public;
+    } else {
+      visibility = ProjectVisibility.Private; // Default
+    }
+
+    // Create project with valid properties
+    return {
+      name: params.name,
+      description: params.description,
+      visibility: visibility,
+      capabilities: params.capabilities || {}
+      // Removed processTemplateId as it's not a valid property
+    };
+  }
+
   /**
    * Get areas
    */
   public async getAreas(params: GetAreasParams): Promise<any> {
     try {
-      const coreApi = await this.getCoreApi();
-      
-      // Use getProject as a workaround
-      const project = await coreApi.getProject(params.projectId);
-      
-      // Return project info as a workaround
-      return {
-        project,
-        message: "Direct classification node API not available, returning project info instead"
-      };
+      return await this.cached('areas', JSON.stringify(params), async () => {
+        const coreApi = await this.getCoreApi();
+        
+        // Use getProject as a workaround
+        const project = await coreApi.getProject(params.projectId);
+        
+        // Return project info as a workaround
+        return {
+          project,
+          message: "Direct classification node API not available, returning project info instead"
+        };
+      });
     } catch (error) {
       console.error(`Error getting areas for project ${params.projectId}:`, error);
       throw error;
@@ -137,16 +160,18 @@ export class ProjectService extends AzureDevOpsService {
    */
   public async getIterations(params: GetIterationsParams): Promise<any> {
     try {
-      const coreApi = await this.getCoreApi();
-      
-      // Use getProject as a workaround
-      const project = await coreApi.getProject(params.projectId);
-      
-      // Return project info as a workaround
-      return {
-        project,
-        message: "Direct classification node API not available, returning project info instead"
-      };
+      return await this.cached('iterations', JSON.stringify(params), async () => {
+        const coreApi = await this.getCoreApi();
+        
+        // Use getProject as a workaround
+        const project = await coreApi.getProject(params.projectId);
+        
+        // Return project info as a workaround
+        return {
+          project,
+          message: "Direct classification node API not available, returning project info instead"
+        };
+      });
     } catch (error) {
       console.error(`Error getting iterations for project ${params.projectId}:`, error);
       throw error;
@@ -172,14 +197,25 @@ export class ProjectService extends AzureDevOpsService {
     }
   }
 
+  /**
+   * Plan the creation of an area without creating it
+   */
+  public async planCreateArea(params: CreateAreaParams): Promise<WritePlan> {
+    return {
+      dryRun: true,
+      operation: 'createArea',
+      target: { project: params.projectId, parentPath: params.parentPath || '' },
+      payload: { name: params.name },
+      summary: `Create area "${params.name}" ${params.parentPath ? `under ${params.parentPath}` : 'at the root'} of project ${params.projectId}`
+    };
+  }
+
   /**
    * Create iteration
    */
   public async createIteration(params: CreateIterationParams): Promise<any> {
     try {
-      const attributes: any = {};
-      if (params.startDate) attributes.startDate = params.startDate;
-      if (params.finishDate) attributes.finishDate = params.finishDate;
+      const attributes = this.buildIterationAttributes(params);
       
       // Return a mock response as a workaround
       return {
@@ -187,7 +223,7 @@ export class ProjectService extends AzureDevOpsService {
         name: params.name,
         path: params.parentPath || "",
         structureType: "iteration",
-        attributes: Object.keys(attributes).length > 0 ? attributes : undefined,
+        attributes,
         message: "Direct classification node creation API not available, returning mock data"
       };
     } catch (error) {
@@ -196,6 +232,33 @@ export class ProjectService extends AzureDevOpsService {
     }
   }
 
+  /**
+   * Plan the creation of an iteration without creating it
+   */
+  public async planCreateIteration(params: CreateIterationParams): Promise<WritePlan> {
+    const dates = params.startDate || params.finishDate
+      ? ` from ${params.startDate || 'no start date'} to ${params.finishDate || 'no end date'}`
+      : '';
+
+    return {
+      dryRun: true,
+      operation: 'createIteration',
+      target: { project: params.projectId, parentPath: params.parentPath || '' },
+      payload: { name: params.name, attributes: this.buildIterationAttributes(params) },
+      summary: `Create iteration "${params.name}"${dates} ${params.parentPath ? `under ${params.parentPath}` : 'at the root'} of project ${params.projectId}`
+    };
+  }
+
+  /**
+   * Get the start and end dates of a new iteration, undefined when neither is set
+   */
+  private buildIterationAttributes(params: CreateIterationParams): any {
+    const attributes: any = {};
+    if (params.startDate) attributes.startDate = params.startDate;
+    if (params.finishDate) attributes.finishDate = params.finishDate;
+    return Object.keys(attributes).length > 0 ? attributes : undefined;
+  }
+
   /**
    * Get processes
    */
@@ -221,11 +284,10 @@ export class ProjectService extends AzureDevOpsService {
    */
   public async getWorkItemTypes(params: GetWorkItemTypesParams): Promise<any> {
     try {
-      const witProcessApi = await this.getProcessApi();
-      
-      const workItemTypes = await witProcessApi.getProcessWorkItemTypes(params.processId);
-      
-      return workItemTypes;
+      return await this.cached('workItemTypes', params.processId, async () => {
+        const witProcessApi = await this.getProcessApi();
+        return await witProcessApi.getProcessWorkItemTypes(params.processId);
+      });
     } catch (error) {
       console.error(`Error getting work item types for process ${params.processId}:`, error);
       throw error;
@@ -237,10 +299,11 @@ export class ProjectService extends AzureDevOpsService {
    */
   public async getWorkItemTypeFields(params: GetWorkItemTypeFieldsParams): Promise<any> {
     try {
-      const witProcessApi = await this.getProcessApi();
-      
       // Use getProcessWorkItemTypes as a workaround
-      const types = await witProcessApi.getProcessWorkItemTypes(params.processId);
+      const types = await this.cached('workItemTypeFields', params.processId, async () => {
+        const witProcessApi = await this.getProcessApi();
+        return await witProcessApi.getProcessWorkItemTypes(params.processId);
+      });
       
       // Filter to the requested type if specified
       let filteredTypes = types;
@@ -0,0 +1,300 @@
+import { HttpClient } from "typed-rest-client/HttpClient";
+import { IHeaders, IHttpClientResponse } from "typed-rest-client/Interfaces";
+import { IncomingHttpHeaders } from "http";
+import { RateLimitState, RetryConfig } from "../Interfaces/Retry";
+import { AzureDevOpsAuthType } from "../Interfaces/AzureDevOps";
+import { AuthenticationError, AzureDevOpsError, PermissionError, ThrottledError, getRequiredScope } from "../utils/errors";
+import { logger } from "../utils/logger";
+import { metrics } from "./MetricsCollector";
+import { Span, tracer } from "./Tracer";
+
+// Used when AzureDevOpsConfig.retry is not set
+export const DEFAULT_RETRY_CONFIG: RetryConfig = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000
+};
+
+// Verbs that can be sent again without repeating a change
+const IDEMPOTENT_VERBS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+// POST routes that only read data, e.g. WIQL queries and work item batch reads
+const READ_ONLY_POST_ROUTES = /\/_apis\/wit\/(wiql|workitemsbatch)(\/|$)/i;
+
+// Socket errors worth retrying
+const TRANSIENT_NETWORK_ERRORS = ['ECONNRESET', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE'];
+
+const NON_AUTHORITATIVE = 203;
+const UNAUTHORIZED = 401;
+const FORBIDDEN = 403;
+const TOO_MANY_REQUESTS = 429;
+const SERVICE_UNAVAILABLE = 503;
+
+// Returned with HTTP 401 when the credentials are valid but lack a PAT scope
+const NOT_AUTHORIZED_MESSAGE_ID = 'TF400813';
+
+// Marks HTTP clients already routed through a pipeline
+const ATTACHED = Symbol('requestPipeline');
+
+type RequestFunction = HttpClient['request'];
+
+/**
+ * Sends the requests of Azure DevOps API clients, retrying idempotent requests that were
+ * throttled (HTTP 429) or hit a transient failure (HTTP 503, connection reset) with exponential
+ * backoff. A `Retry-After` header sets the wait instead of the backoff.
+ *
+ * The rate-limit headers of every response are logged and kept as the latest rate-limit state.
+ *
+ * Authentication and permission failures are thrown as `AuthenticationError` and `PermissionError`,
+ * naming the PAT scope the request needs. This includes the sign-in page Azure DevOps returns with
+ * HTTP 203 for rejected credentials, which the API clients would otherwise read as an empty result.
+ *
+ * Each request is traced as a client span, a child of the tool call's span, covering all its attempts.
+ */
+export class RequestPipeline {
+  private rateLimitState: RateLimitState | undefined;
+
+  constructor(private retry: RetryConfig = DEFAULT_RETRY_CONFIG, private authType: AzureDevOpsAuthType = 'pat') {}
+
+  /**
+   * Route every request of an API client through the pipeline
+   * @param client An API client returned by `WebApi`, or the `WebApi` itself
+   * @returns The same client
+   */
+  public attach<T extends { http?: HttpClient; rest?: { client: HttpClient } }>(client: T): T {
+    if (client.http) {
+      this.wrap(client.http);
+    }
+    if (client.rest?.client) {
+      this.wrap(client.rest.client);
+    }
+    return client;
+  }
+
+  /**
+   * Latest rate-limit state reported by Azure DevOps, if any
+   */
+  public getRateLimitState(): RateLimitState | undefined {
+    return this.rateLimitState;
+  }
+
+  private wrap(http: HttpClient): void {
+    const target = http as HttpClient & { [ATTACHED]?: boolean };
+    if (target[ATTACHED]) {
+      return;
+    }
+    const request: RequestFunction = http.request.bind(http);
+    http.request = (verb, requestUrl, data, headers) => {
+      const route = getRoute(requestUrl);
+      return tracer.startActiveSpan(`${verb} ${route}`, 'client', {
+        'http.request.method': verb,
+        'url.path': route,
+        'server.address': getHost(requestUrl)
+      }, span => this.send(span, request, verb, route, requestUrl, data, headers));
+    };
+    target[ATTACHED] = true;
+  }
+
+  private async send(
+    span: Span,
+    request: RequestFunction,
+    verb: string,
+    route: string,
+    requestUrl: string,
+    data: string | NodeJS.ReadableStream,
+    headers: IHeaders
+  ): Promise<IHttpClientResponse> {
+    // A stream body has been consumed by the first attempt and cannot be sent again
+    const canRetry = isIdempotent(verb, route) && (data === null || data === undefined || typeof data === 'string');
+
+    for (let attempt = 1; ; attempt++) {
+      const willRetry = canRetry && attempt <= this.retry.maxRetries;
+      span.setAttributes({ 'azure_devops.retry_count': attempt - 1 });
+      let response: IHttpClientResponse;
+      try {
+        response = await request(verb, requestUrl, data, headers);
+      } catch (error) {
+        metrics.recordUpstreamRequest(undefined, attempt > 1);
+        const code = (error as NodeJS.ErrnoException)?.code;
+        if (!willRetry || !code || !TRANSIENT_NETWORK_ERRORS.includes(code)) {
+          throw error;
+        }
+        const delayMs = this.getBackoffDelay(attempt);
+        logger.warn('RequestPipeline', 'Transient network error, retrying', { verb, route, code, attempt, delayMs });
+        await sleep(delayMs);
+        continue;
+      }
+
+      const status = response.message.statusCode || 0;
+      metrics.recordUpstreamRequest(status, attempt > 1);
+      span.setAttributes({ 'http.response.status_code': status });
+      span.setStatus(status >= 400 ? 'error' : 'ok', status >= 400 ? `HTTP ${status}` : undefined);
+      if (status === NON_AUTHORITATIVE || status === UNAUTHORIZED || status === FORBIDDEN) {
+        throw await this.getAuthError(verb, route, status, response);
+      }
+      const state = this.updateRateLimitState(route, status, response.message.headers);
+      if (status !== TOO_MANY_REQUESTS && status !== SERVICE_UNAVAILABLE) {
+        return response;
+      }
+
+      const delayMs = getRetryAfterMs(response.message.headers) ?? this.getBackoffDelay(attempt);
+      if (willRetry && delayMs <= this.retry.maxDelayMs) {
+        logger.warn('RequestPipeline', `Azure DevOps returned ${status}, retrying`, { verb, route, attempt, delayMs });
+        // Drain the body so the socket is released before the next attempt
+        await response.readBody();
+        await sleep(delayMs);
+        continue;
+      }
+
+      if (status === TOO_MANY_REQUESTS) {
+        await response.readBody();
+        const retryAfterSeconds = Math.max(1, Math.ceil(delayMs / 1000));
+        logger.warn('RequestPipeline', 'Azure DevOps is throttling requests, giving up', {
+          verb,
+          route,
+          attempts: attempt,
+          retryAfterSeconds
+        });
+        throw new ThrottledError(retryAfterSeconds, state?.resource);
+      }
+      return response;
+    }
+  }
+
+  private async getAuthError(
+    verb: string,
+    route: string,
+    status: number,
+    response: IHttpClientResponse
+  ): Promise<AzureDevOpsError> {
+    const body = await response.readBody();
+    if (status === NON_AUTHORITATIVE) {
+      logger.warn('RequestPipeline', 'Azure DevOps returned a sign-in page', { verb, route });
+      return new AuthenticationError(
+        'Azure DevOps returned a sign-in page instead of data (HTTP 203), so the credentials were not accepted',
+        { statusCode: status }
+      );
+    }
+
+    const message = getErrorMessage(body) || `Azure DevOps returned HTTP ${status} for ${verb} ${route}`;
+    logger.warn('RequestPipeline', `Azure DevOps returned ${status}`, { verb, route, message });
+    if (status === UNAUTHORIZED && !message.includes(NOT_AUTHORIZED_MESSAGE_ID)) {
+      return new AuthenticationError(message, { statusCode: status });
+    }
+
+    const scope = getRequiredScope(verb, route, isReadOnlyPost(verb, route));
+    const options = { statusCode: status };
+    if (this.authType === 'pat' && scope) {
+      return new PermissionError(message, {
+        ...options,
+        hint: `PAT lacks ${scope} scope. Edit the token under User settings > Personal access tokens to grant it.`
+      });
+    }
+    if (this.authType !== 'pat') {
+      return new PermissionError(message, {
+        ...options,
+        hint: `The user lacks permission for ${verb} ${route}. Ask a project administrator for access.`
+      });
+    }
+    return new PermissionError(message, options);
+  }
+
+  private getBackoffDelay(attempt: number): number {
+    const delayMs = this.retry.baseDelayMs * Math.pow(2, attempt - 1);
+    const jitterMs = Math.random() * this.retry.baseDelayMs;
+    return Math.min(this.retry.maxDelayMs, Math.round(delayMs + jitterMs));
+  }
+
+  private updateRateLimitState(route: string, status: number, headers: IncomingHttpHeaders): RateLimitState | undefined {
+    const retryAfterMs = getRetryAfterMs(headers);
+    const hasRateLimitHeaders = Object.keys(headers).some(name => name.startsWith('x-ratelimit-'));
+    if (!hasRateLimitHeaders && retryAfterMs === undefined) {
+      return undefined;
+    }
+
+    const reset = getNumberHeader(headers, 'x-ratelimit-reset');
+    const state: RateLimitState = {
+      route,
+      status,
+      resource: getHeader(headers, 'x-ratelimit-resource'),
+      delaySeconds: getNumberHeader(headers, 'x-ratelimit-delay'),
+      limit: getNumberHeader(headers, 'x-ratelimit-limit'),
+      remaining: getNumberHeader(headers, 'x-ratelimit-remaining'),
+      resetAt: reset !== undefined ? new Date(reset * 1000).toISOString() : undefined,
+      retryAfterSeconds: retryAfterMs !== undefined ? Math.ceil(retryAfterMs / 1000) : undefined,
+      updatedAt: new Date().toISOString()
+    };
+    this.rateLimitState = state;
+    logger.warn('RequestPipeline', 'Azure DevOps reported rate limiting', state);
+    return state;
+  }
+}
+
+function isIdempotent(verb: string, route: string): boolean {
+  return IDEMPOTENT_VERBS.includes(verb.toUpperCase()) || isReadOnlyPost(verb, route);
+}
+
+function isReadOnlyPost(verb: string, route: string): boolean {
+  return verb.toUpperCase() === 'POST' && READ_ONLY_POST_ROUTES.test(route);
+}
+
+function getHost(requestUrl: string): string | undefined {
+  try {
+    return new URL(requestUrl).host;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Get the message of an Azure DevOps error body, which is JSON with a `message` property
+ */
+function getErrorMessage(body: string): string | undefined {
+  try {
+    const message = JSON.parse(body)?.message;
+    return typeof message === 'string' ? message : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Get the path of a request URL without its query string, for logging
+ */
+function getRoute(requestUrl: string): string {
+  try {
+    return new URL(requestUrl).pathname;
+  } catch {
+    return requestUrl.split('?')[0];
+  }
+}
+
+function getHeader(headers: IncomingHttpHeaders, name: string): string | undefined {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function getNumberHeader(headers: IncomingHttpHeaders, name: string): number | undefined {
+  const value = Number(getHeader(headers, name));
+  return getHeader(headers, name) !== undefined && Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Read `Retry-After`, given in seconds or as an HTTP date
+ */
+function getRetryAfterMs(headers: IncomingHttpHeaders): number | undefined {
+  const value = getHeader(headers, 'retry-after');
+  if (value === undefined) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,245 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomBytes } from 'crypto';
+import { SpanAttributes, SpanData, TracingConfig } from '../Interfaces/Tracing';
+import { logger } from '../utils/logger';
+
+// Used until `configure` is called
+export const DEFAULT_TRACING_CONFIG: TracingConfig = {
+  exporter: 'none',
+  serviceName: 'azure-devops-mcp'
+};
+
+// OTLP exports are sent in batches, at this interval or when this many spans are waiting
+const EXPORT_INTERVAL_MS = 5000;
+const MAX_BATCH_SIZE = 512;
+
+// OTLP span kinds and status codes
+const OTLP_SPAN_KIND = { internal: 1, server: 2, client: 3 };
+const OTLP_STATUS_CODE = { unset: 0, ok: 1, error: 2 };
+
+interface FinishedSpan {
+  data: SpanData;
+  startTimeUnixNano: bigint;
+}
+
+/**
+ * A timed operation within a trace, e.g. a tool call or an Azure DevOps request
+ */
+export class Span {
+  private readonly startTime = Date.now();
+  private readonly start = process.hrtime.bigint();
+  private status: SpanData['status'] = 'unset';
+  private statusMessage?: string;
+  private ended = false;
+
+  constructor(
+    public readonly traceId: string,
+    public readonly spanId: string,
+    public readonly parentSpanId: string | undefined,
+    private readonly name: string,
+    private readonly kind: SpanData['kind'],
+    private readonly attributes: SpanAttributes,
+    private readonly onEnd: (span: FinishedSpan) => void
+  ) {}
+
+  public setAttributes(attributes: SpanAttributes): void {
+    Object.assign(this.attributes, attributes);
+  }
+
+  public setStatus(status: 'ok' | 'error', message?: string): void {
+    this.status = status;
+    this.statusMessage = message;
+  }
+
+  public end(): void {
+    if (this.ended) {
+      return;
+    }
+    this.ended = true;
+    const durationNs = process.hrtime.bigint() - this.start;
+    this.onEnd({
+      data: {
+        traceId: this.traceId,
+        spanId: this.spanId,
+        ...(this.parentSpanId && { parentSpanId: this.parentSpanId }),
+        name: this.name,
+        kind: this.kind,
+        startTime: new Date(this.startTime).toISOString(),
+        durationMs: Number(durationNs) / 1e6,
+        attributes: this.attributes,
+        status: this.status,
+        ...(this.statusMessage && { statusMessage: this.statusMessage })
+      },
+      startTimeUnixNano: BigInt(this.startTime) * BigInt(1e6)
+    });
+  }
+}
+
+/**
+ * Creates OpenTelemetry-compatible spans for tool calls and the Azure DevOps requests they
+ * send, and exports them over OTLP/HTTP (JSON encoding) or to a JSONL file.
+ *
+ * The active span follows async calls, so a request sent while a tool runs becomes a child
+ * of the tool's span, and `getTraceId` returns the trace of the current tool call.
+ */
+export class Tracer {
+  private config: TracingConfig = DEFAULT_TRACING_CONFIG;
+  private activeSpan = new AsyncLocalStorage<Span>();
+  private batch: FinishedSpan[] = [];
+  private exportTimer: NodeJS.Timeout | undefined;
+  private exportFailed = false;
+
+  /**
+   * Apply a configuration
+   * @param config The tracing configuration
+   */
+  public configure(config: TracingConfig): void {
+    this.config = config;
+    if (this.exportTimer) {
+      clearInterval(this.exportTimer);
+      this.exportTimer = undefined;
+    }
+    if (config.exporter === 'otlp') {
+      this.exportTimer = setInterval(() => this.flush(), EXPORT_INTERVAL_MS);
+      this.exportTimer.unref();
+    }
+  }
+
+  /**
+   * Run a function in a new span, which becomes the parent of spans started while it runs.
+   * The span ends when the function settles, with an error status if it throws.
+   * @param name The span name
+   * @param kind `server` for tool calls, `client` for requests to Azure DevOps
+   * @param attributes Initial span attributes
+   * @param run The function, given the span to add attributes to
+   * @returns The function's result
+   */
+  public async startActiveSpan<T>(name: string, kind: SpanData['kind'], attributes: SpanAttributes, run: (span: Span) => Promise<T>): Promise<T> {
+    const parent = this.activeSpan.getStore();
+    const span = new Span(
+      parent?.traceId || randomBytes(16).toString('hex'),
+      randomBytes(8).toString('hex'),
+      parent?.spanId,
+      name,
+      kind,
+      { ...attributes },
+      finished => this.export(finished)
+    );
+    try {
+      return await this.activeSpan.run(span, () => run(span));
+    } catch (error) {
+      span.setStatus('error', error instanceof Error ? error.message : String(error));
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Trace ID of the active span, if any
+   */
+  public getTraceId(): string | undefined {
+    return this.activeSpan.getStore()?.traceId;
+  }
+
+  /**
+   * Send the spans waiting for export to the OTLP endpoint
+   */
+  public async flush(): Promise<void> {
+    if (this.batch.length === 0 || this.config.exporter !== 'otlp' || !this.config.endpoint) {
+      return;
+    }
+    const spans = this.batch;
+    this.batch = [];
+    try {
+      const response = await fetch(this.config.endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...this.config.headers },
+        body: JSON.stringify(this.toOtlp(spans))
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      this.exportFailed = false;
+    } catch (error) {
+      // Log the first failure only, so an unreachable collector does not flood the log
+      if (!this.exportFailed) {
+        logger.warn('Tracer', 'Failed to export spans', { endpoint: this.config.endpoint, spans: spans.length, error: String(error) });
+      }
+      this.exportFailed = true;
+    }
+  }
+
+  /**
+   * Export the remaining spans and stop the export timer
+   */
+  public async shutdown(): Promise<void> {
+    if (this.exportTimer) {
+      clearInterval(this.exportTimer);
+      this.exportTimer = undefined;
+    }
+    await this.flush();
+  }
+
+  private export(span: FinishedSpan): void {
+    if (this.config.exporter === 'file' && this.config.file) {
+      try {
+        fs.mkdirSync(path.dirname(this.config.file), { recursive: true });
+        fs.appendFileSync(this.config.file, JSON.stringify(span.data) + '\n', 'utf8');
+      } catch (error) {
+        logger.warn('Tracer', 'Failed to write span', { file: this.config.file, error: String(error) });
+      }
+    } else if (this.config.exporter === 'otlp') {
+      this.batch.push(span);
+      if (this.batch.length >= MAX_BATCH_SIZE) {
+        void this.flush();
+      }
+    }
+  }
+
+  /**
+   * Encode spans as an OTLP `ExportTraceServiceRequest` in the JSON encoding
+   */
+  private toOtlp(spans: FinishedSpan[]): object {
+    return {
+      resourceSpans: [{
+        resource: { attributes: toOtlpAttributes({ 'service.name': this.config.serviceName }) },
+        scopeSpans: [{
+          scope: { name: 'azure-devops-mcp' },
+          spans: spans.map(({ data, startTimeUnixNano }) => ({
+            traceId: data.traceId,
+            spanId: data.spanId,
+            parentSpanId: data.parentSpanId,
+            name: data.name,
+            kind: OTLP_SPAN_KIND[data.kind],
+            startTimeUnixNano: startTimeUnixNano.toString(),
+            endTimeUnixNano: (startTimeUnixNano + BigInt(Math.round(data.durationMs * 1e6))).toString(),
+            attributes: toOtlpAttributes(data.attributes),
+            status: { code: OTLP_STATUS_CODE[data.status], message: data.statusMessage }
+          }))
+        }]
+      }]
+    };
+  }
+}
+
+/**
+ * Tracer shared by every MCP session
+ */
+export const tracer = new Tracer();
+
+// Log entries carry the trace ID of the tool call they were written in
+logger.setTraceIdProvider(() => tracer.getTraceId());
+
+function toOtlpAttributes(attributes: SpanAttributes): object[] {
+  return Object.entries(attributes)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ({
+      key,
+      value: typeof value === 'boolean' ? { boolValue: value }
+        : typeof value === 'number' ? (Number.isInteger(value) ? { intValue: value } : { doubleValue: value })
+        : { stringValue: String(value) }
+    }));
+}
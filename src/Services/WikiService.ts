@@ -0,0 +1,45 @@
+import { WikiApi } from 'azure-devops-node-api/WikiApi';
+import { GitVersionType } from 'azure-devops-node-api/interfaces/GitInterfaces';
+import { AzureDevOpsConfig } from '../Interfaces/AzureDevOps';
+import { AzureDevOpsService } from './AzureDevOpsService';
+import { GetWikiPageParams } from '../Interfaces/Wiki';
+import { readStreamAsString } from '../utils/streams';
+
+export class WikiService extends AzureDevOpsService {
+  constructor(config: AzureDevOpsConfig) {
+    super(config);
+  }
+
+  /**
+   * Get the Wiki API client
+   */
+  private async getWikiApi(): Promise<WikiApi> {
+    return await this.connection.getWikiApi();
+  }
+
+  /**
+   * Get the Markdown content of a wiki page
+   */
+  public async getWikiPage(params: GetWikiPageParams): Promise<{ path: string; content: string }> {
+    try {
+      const wikiApi = await this.getWikiApi();
+      
+      const content = await wikiApi.getPageText(
+        this.config.project,
+        params.wikiIdentifier,
+        params.path,
+        undefined,
+        params.version ? { version: params.version, versionType: GitVersionType.Branch } : undefined,
+        true
+      );
+      
+      return {
+        path: params.path,
+        content: await readStreamAsString(content)
+      };
+    } catch (error) {
+      console.error(`Error getting wiki page ${params.path} from wiki ${params.wikiIdentifier}:`, error);
+      throw error;
+    }
+  }
+}
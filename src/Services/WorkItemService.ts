@@ -4,7 +4,18 @@ import {
   JsonPatchOperation,
   Operation
 } from 'azure-devops-node-api/interfaces/common/VSSInterfaces';
+import {
+  Comment,
+  CommentExpandOptions,
+  CommentList,
+  CommentReactionType,
+  CommentSortOrder,
+  WorkItem,
+  WorkItemErrorPolicy,
+  WorkItemExpand
+} from 'azure-devops-node-api/interfaces/WorkItemTrackingInterfaces';
 import { AzureDevOpsConfig } from '../Interfaces/AzureDevOps';
+import { FieldChange, WritePlan } from '../Interfaces/DryRun';
 import { AzureDevOpsService } from './AzureDevOpsService';
 import {
   WorkItemByIdParams,
@@ -17,9 +28,55 @@ import {
   UpdateWorkItemStateParams,
   AssignWorkItemParams,
   CreateLinkParams,
-  BulkWorkItemParams
+  BulkWorkItemParams,
+  QueryWorkItemsParams,
+  WorkItemFilter,
+  WorkItemPageParams,
+  WorkItemHistoryParams,
+  DiffWorkItemRevisionsParams,
+  WorkItemCommentsParams,
+  UpdateWorkItemCommentParams,
+  DeleteWorkItemCommentParams,
+  WorkItemCommentReactionParams,
+  CommentReaction,
+  CommentTextFormat
 } from '../Interfaces/WorkItems';
+import { WiqlExpression, WiqlValue } from '../Interfaces/Wiql';
+import { DEFAULT_HYDRATION_FIELDS, WorkItemExpandOption, WorkItemHydrationParams } from '../Interfaces/WorkItemHydration';
+import { diffRevisions, toRevisionChanges, WorkItemRevisionChanges, WorkItemRevisionDiff } from '../Interfaces/WorkItemHistory';
 import { logger } from '../utils/logger';
+import { ValidationError } from '../utils/errors';
+import { parseWiqlMacro, WiqlBuilder, wiqlMacro } from '../utils/wiql';
+import { findMentions, markdownToHtml, MentionIdentity, renderMentions } from '../utils/text';
+
+// The work items batch API accepts at most this many IDs per request
+const BATCH_SIZE = 200;
+
+// Azure DevOps stops a WIQL query at this many results
+const MAX_WIQL_RESULTS = 20000;
+
+// The updates API returns at most this many updates per request
+const UPDATES_PAGE_SIZE = 200;
+
+// Oldest version of the identities API, so that mentions resolve on older servers too
+const IDENTITIES_API_VERSION = '5.0';
+
+const COMMENT_REACTIONS: Record<CommentReaction, CommentReactionType> = {
+  like: CommentReactionType.Like,
+  dislike: CommentReactionType.Dislike,
+  heart: CommentReactionType.Heart,
+  hooray: CommentReactionType.Hooray,
+  smile: CommentReactionType.Smile,
+  confused: CommentReactionType.Confused
+};
+
+const EXPAND_OPTIONS: Record<WorkItemExpandOption, WorkItemExpand> = {
+  none: WorkItemExpand.None,
+  relations: WorkItemExpand.Relations,
+  links: WorkItemExpand.Links,
+  fields: WorkItemExpand.Fields,
+  all: WorkItemExpand.All
+};
 
 export class WorkItemService extends AzureDevOpsService {
   constructor(config: AzureDevOpsConfig) {
@@ -28,19 +85,12 @@ export class WorkItemService extends AzureDevOpsService {
 
   /**
    * Query work items using WIQL
+   * @param wiqlQuery The WIQL query
+   * @param options `timePrecision` compares dates in the query with their time
    */
-  public async listWorkItems(wiqlQuery: string): Promise<any> {
+  public async listWorkItems(wiqlQuery: string, options: { timePrecision?: boolean } = {}): Promise<any> {
     try {
-      const witApi = await this.getWorkItemTrackingApi();
-      
-      // Execute the WIQL query
-      const queryResult = await witApi.queryByWiql({
-        query: wiqlQuery
-      }, {
-        project: this.config.project
-      });
-      
-      return queryResult;
+      return await this.runQuery(wiqlQuery, { timePrecision: options.timePrecision });
     } catch (error) {
       logger.error('WorkItemService', 'Error listing work items', error as Error, {
         wiqlQuery,
@@ -69,23 +119,19 @@ export class WorkItemService extends AzureDevOpsService {
    */
   public async searchWorkItems(params: SearchWorkItemsParams): Promise<any> {
     try {
-      const witApi = await this.getWorkItemTrackingApi();
-      const query = `SELECT [System.Id], [System.Title], [System.State], [System.CreatedDate] 
-                    FROM WorkItems 
-                    WHERE [System.TeamProject] = @project 
-                    AND (
-                      [System.Title] CONTAINS '${params.searchText}'
-                      OR [System.Description] CONTAINS '${params.searchText}'
-                    )
-                    ORDER BY [System.CreatedDate] DESC`;
-      
-      const queryResult = await witApi.queryByWiql({
-        query
-      }, {
-        project: this.config.project
-      });
+      const query = new WiqlBuilder()
+        .select(['System.Id', 'System.Title', 'System.State', 'System.CreatedDate'])
+        .where('System.TeamProject', '=', wiqlMacro('project'))
+        .match({
+          anyOf: [
+            { field: 'System.Title', operator: 'CONTAINS', value: params.searchText },
+            { field: 'System.Description', operator: 'CONTAINS', value: params.searchText }
+          ]
+        })
+        .orderBy('System.CreatedDate', 'DESC')
+        .build();
       
-      return queryResult;
+      return await this.runQuery(query, { top: params.top });
     } catch (error) {
       console.error('Error searching work items:', error);
       throw error;
@@ -93,69 +139,249 @@ export class WorkItemService extends AzureDevOpsService {
   }
 
   /**
-   * Get recently updated work items
+   * Get recently updated work items, newest first, a page at a time
    */
   public async getRecentWorkItems(params: RecentWorkItemsParams): Promise<any> {
     try {
+      const query = new WiqlBuilder()
+        .select(['System.Id', 'System.Title', 'System.State', 'System.ChangedDate'])
+        .where('System.TeamProject', '=', wiqlMacro('project'));
+      return await this.queryPage(query, 'System.ChangedDate', params, 10);
+    } catch (error) {
+      console.error('Error getting recent work items:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get several work items by ID, optionally limited to the given fields and read as of a past time
+   */
+  public async getWorkItems(ids: number[], fields?: string[], asOf?: Date): Promise<WorkItem[]> {
+    try {
+      if (ids.length === 0) {
+        return [];
+      }
       const witApi = await this.getWorkItemTrackingApi();
-      const query = `SELECT [System.Id], [System.Title], [System.State], [System.ChangedDate] 
-                    FROM WorkItems 
-                    WHERE [System.TeamProject] = @project 
-                    ORDER BY [System.ChangedDate] DESC`;
-      
-      const queryResult = await witApi.queryByWiql({
-        query
-      }, {
-        project: this.config.project
-      });
-      
-      const top = params.top || 10;
-      const skip = params.skip || 0;
-      
-      if (queryResult.workItems) {
-        queryResult.workItems = queryResult.workItems.slice(skip, skip + top);
+      return await witApi.getWorkItems(ids, fields, asOf, undefined, undefined, this.config.project);
+    } catch (error) {
+      console.error(`Error getting work items ${ids.join(', ')}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get work items through the batch API, in requests of 200 IDs. Work items that were
+   * deleted or cannot be read are left out rather than failing the whole batch.
+   * @param ids The work item IDs
+   * @param options The fields to fetch, what to expand, and the time to read the fields as of
+   */
+  public async getWorkItemsBatch(ids: number[], options: WorkItemHydrationParams): Promise<WorkItem[]> {
+    const expand = options.expand && options.expand !== 'none' ? EXPAND_OPTIONS[options.expand] : undefined;
+    const workItems: WorkItem[] = [];
+    try {
+      const witApi = await this.getWorkItemTrackingApi();
+      for (let start = 0; start < ids.length; start += BATCH_SIZE) {
+        const batch = await witApi.getWorkItemsBatch({
+          ids: ids.slice(start, start + BATCH_SIZE),
+          // Azure DevOps rejects fields together with expand, which then returns every field
+          fields: expand === undefined ? options.fields : undefined,
+          $expand: expand,
+          asOf: options.asOf ? new Date(options.asOf) : undefined,
+          errorPolicy: WorkItemErrorPolicy.Omit
+        }, this.config.project);
+        // Omitted work items come back as null
+        workItems.push(...(batch || []).filter(workItem => workItem));
       }
-      
-      return queryResult;
+      return workItems;
     } catch (error) {
-      console.error('Error getting recent work items:', error);
+      logger.error('WorkItemService', 'Error getting work items batch', error as Error, {
+        count: ids.length,
+        fetched: workItems.length,
+        project: this.config.project
+      });
       throw error;
     }
   }
 
   /**
-   * Get work items assigned to current user
+   * Get work items assigned to current user, newest first, a page at a time
    */
   public async getMyWorkItems(params: MyWorkItemsParams): Promise<any> {
     try {
-      const witApi = await this.getWorkItemTrackingApi();
-      let stateCondition = '';
+      const query = new WiqlBuilder()
+        .select(['System.Id', 'System.Title', 'System.State', 'System.CreatedDate'])
+        .where('System.TeamProject', '=', wiqlMacro('project'))
+        .where('System.AssignedTo', '=', wiqlMacro('me'));
       if (params.state) {
-        stateCondition = `AND [System.State] = '${params.state}'`;
+        query.where('System.State', '=', params.state);
       }
-      
-      const query = `SELECT [System.Id], [System.Title], [System.State], [System.CreatedDate] 
-                    FROM WorkItems 
-                    WHERE [System.TeamProject] = @project 
-                    AND [System.AssignedTo] = @me
-                    ${stateCondition}
-                    ORDER BY [System.CreatedDate] DESC`;
-      
-      const queryResult = await witApi.queryByWiql({
-        query
-      }, {
+      return await this.queryPage(query, 'System.CreatedDate', params, 100);
+    } catch (error) {
+      console.error('Error getting my work items:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Query work items of the project with structured filters, combined with AND
+   * @returns The query result and the WIQL it was built into
+   */
+  public async queryWorkItems(params: QueryWorkItemsParams): Promise<any> {
+    const builder = new WiqlBuilder()
+      .select(params.fields || DEFAULT_HYDRATION_FIELDS)
+      .where('System.TeamProject', '=', wiqlMacro('project'));
+    for (const filter of params.filters) {
+      builder.match('anyOf' in filter
+        ? { anyOf: filter.anyOf.map(toWiqlExpression) }
+        : toWiqlExpression(filter));
+    }
+    for (const order of params.orderBy || [{ field: 'System.ChangedDate', direction: 'desc' }]) {
+      builder.orderBy(order.field, order.direction === 'desc' ? 'DESC' : 'ASC');
+    }
+    const query = builder.build({ timePrecision: params.timePrecision });
+
+    try {
+      const queryResult = await this.runQuery(query, { top: params.top, timePrecision: params.timePrecision, team: params.team });
+      return { ...queryResult, query };
+    } catch (error) {
+      logger.error('WorkItemService', 'Error querying work items', error as Error, {
+        query,
         project: this.config.project
       });
-      
-      const top = params.top || 100;
-      
-      if (queryResult.workItems) {
-        queryResult.workItems = queryResult.workItems.slice(0, top);
+      throw error;
+    }
+  }
+
+  /**
+   * Run a WIQL query with a server-side `$top`, so Azure DevOps only returns the results asked for.
+   * `truncated` is set when more work items match, or when Azure DevOps stopped at its limit of 20,000.
+   * @param query The WIQL query
+   * @param options The number of results, time precision, and team for `@currentIteration`
+   */
+  private async runQuery(query: string, options: { top?: number; timePrecision?: boolean; team?: string }): Promise<any> {
+    const witApi = await this.getWorkItemTrackingApi();
+    // One result more than asked for tells whether there are more
+    const top = options.top ? Math.min(options.top + 1, MAX_WIQL_RESULTS) : undefined;
+    const queryResult = await witApi.queryByWiql({
+      query
+    }, {
+      project: this.config.project,
+      team: options.team
+    }, options.timePrecision, top);
+    const workItems = queryResult.workItems || [];
+    const truncated = workItems.length > (options.top || MAX_WIQL_RESULTS) || workItems.length >= MAX_WIQL_RESULTS;
+    return {
+      ...queryResult,
+      workItems: workItems.slice(0, options.top),
+      ...(truncated && { truncated: true })
+    };
+  }
+
+  /**
+   * Run a query a page at a time, sorted newest first by a date field and then by ID.
+   *
+   * The continuation token holds the date and ID of the last work item of the page, and the next
+   * page starts after it. Unlike an offset, this neither skips nor repeats work items when others
+   * are changed between calls. The date is read as of the time the query ran, so a change to the
+   * last work item itself does not move the cursor either. `skip` only applies to the first page.
+   * @param query The query, without sort order
+   * @param sortField The date field to sort and page by, e.g. `System.ChangedDate`
+   * @param params The page size, continuation token, time precision and work items to skip
+   * @param defaultTop The page size when the caller gives none
+   */
+  private async queryPage(query: WiqlBuilder, sortField: string, params: WorkItemPageParams & { skip?: number }, defaultTop: number): Promise<any> {
+    const top = params.top || defaultTop;
+    const skip = params.skip || 0;
+    if (params.continuationToken && skip > 0) {
+      throw new ValidationError('skip cannot be combined with continuationToken; the token already starts after the previous page', {
+        fields: ['skip', 'continuationToken']
+      });
+    }
+    const cursor = params.continuationToken ? readPageCursor(params.continuationToken, sortField) : undefined;
+    if (cursor) {
+      const date = new Date(cursor.value);
+      query.match({
+        anyOf: [
+          { field: sortField, operator: '<', value: date },
+          { allOf: [{ field: sortField, operator: '=', value: date }, { field: 'System.Id', operator: '<', value: cursor.id }] }
+        ]
+      });
+    }
+    // The cursor date has a time, which WIQL only compares with time precision
+    const timePrecision = !!(cursor || params.timePrecision);
+    const wiql = query.orderBy(sortField, 'DESC').orderBy('System.Id', 'DESC').build({ timePrecision });
+    const queryResult = await this.runQuery(wiql, { top: skip + top, timePrecision });
+    const workItems = queryResult.workItems.slice(skip);
+    if (!queryResult.truncated || workItems.length === 0) {
+      return { ...queryResult, workItems };
+    }
+
+    const last = workItems[workItems.length - 1];
+    const [workItem] = await this.getWorkItems([last.id], [sortField], queryResult.asOf);
+    return {
+      ...queryResult,
+      workItems,
+      continuationToken: createPageCursor({ field: sortField, value: new Date(workItem.fields![sortField]).toISOString(), id: last.id })
+    };
+  }
+
+  /**
+   * Get the changes of each revision of a work item, oldest first, through the updates API
+   * @returns The revisions, and `truncated` when there are more after them
+   */
+  public async getWorkItemHistory(params: WorkItemHistoryParams): Promise<{ revisions: WorkItemRevisionChanges[]; truncated?: boolean }> {
+    try {
+      const witApi = await this.getWorkItemTrackingApi();
+      const top = Math.min(params.top || 50, UPDATES_PAGE_SIZE);
+      // One update more than asked for tells whether there are more
+      const updates = await witApi.getUpdates(params.id, top + 1, params.skip, this.config.project);
+      const revisions = updates.slice(0, top).map(update => toRevisionChanges(update, params.fields));
+      return {
+        // Updates of only bookkeeping fields, e.g. after a link was added on the other work item, are left out
+        revisions: revisions.filter(revision => revision.fields.length > 0 || revision.relationsAdded.length > 0 || revision.relationsRemoved.length > 0),
+        ...(updates.length > top && { truncated: true })
+      };
+    } catch (error) {
+      console.error(`Error getting history of work item ${params.id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Compare two revisions of a work item through the revisions API. Each changed field names
+   * the revision, changer and date of its last change, read through the updates API.
+   */
+  public async diffWorkItemRevisions(params: DiffWorkItemRevisionsParams): Promise<WorkItemRevisionDiff> {
+    if (params.toRevision !== undefined && params.toRevision <= params.fromRevision) {
+      throw new ValidationError('toRevision must be later than fromRevision.', { fields: ['fromRevision', 'toRevision'] });
+    }
+    try {
+      const witApi = await this.getWorkItemTrackingApi();
+      const from = await witApi.getRevision(params.id, params.fromRevision, WorkItemExpand.Relations, this.config.project);
+      const to = params.toRevision === undefined
+        ? await witApi.getWorkItem(params.id, undefined, undefined, WorkItemExpand.Relations, this.config.project)
+        : await witApi.getRevision(params.id, params.toRevision, WorkItemExpand.Relations, this.config.project);
+      const diff = diffRevisions(from, to, params.fields);
+
+      // A work item has at least as many updates as revisions, so the first `fromRevision` updates come before the diff
+      const lastChanges = new Map<string, WorkItemRevisionChanges>();
+      for (let skip = params.fromRevision; ; skip += UPDATES_PAGE_SIZE) {
+        const updates = await witApi.getUpdates(params.id, UPDATES_PAGE_SIZE, skip, this.config.project);
+        for (const update of updates.filter(update => update.rev! > diff.fromRevision && update.rev! <= diff.toRevision)) {
+          const revision = toRevisionChanges(update);
+          revision.fields.forEach(change => lastChanges.set(change.field, revision));
+        }
+        if (updates.length < UPDATES_PAGE_SIZE || updates[updates.length - 1].rev! > diff.toRevision) {
+          break;
+        }
       }
-      
-      return queryResult;
+      for (const change of diff.fields) {
+        const revision = lastChanges.get(change.field);
+        Object.assign(change, revision && { rev: revision.rev, changedBy: revision.changedBy, changedDate: revision.changedDate });
+      }
+      return diff;
     } catch (error) {
-      console.error('Error getting my work items:', error);
+      console.error(`Error comparing revisions of work item ${params.id}:`, error);
       throw error;
     }
   }
@@ -167,70 +393,7 @@ export class WorkItemService extends AzureDevOpsService {
     try {
       const witApi = await this.getWorkItemTrackingApi();
       
-      const patchDocument: JsonPatchOperation[] = [];
-      
-      // Add title
-      patchDocument.push({
-        op: Operation.Add,
-        path: "/fields/System.Title",
-        value: params.title
-      });
-      
-      // Add description if provided
-      if (params.description) {
-        patchDocument.push({
-          op: Operation.Add,
-          path: "/fields/System.Description",
-          value: params.description
-        });
-      }
-      
-      // Add assigned to if provided
-      if (params.assignedTo) {
-        patchDocument.push({
-          op: Operation.Add,
-          path: "/fields/System.AssignedTo",
-          value: params.assignedTo
-        });
-      }
-      
-      // Add state if provided
-      if (params.state) {
-        patchDocument.push({
-          op: Operation.Add,
-          path: "/fields/System.State",
-          value: params.state
-        });
-      }
-      
-      // Add area path if provided
-      if (params.areaPath) {
-        patchDocument.push({
-          op: Operation.Add,
-          path: "/fields/System.AreaPath",
-          value: params.areaPath
-        });
-      }
-      
-      // Add iteration path if provided
-      if (params.iterationPath) {
-        patchDocument.push({
-          op: Operation.Add,
-          path: "/fields/System.IterationPath",
-          value: params.iterationPath
-        });
-      }
-      
-      // Add additional fields if provided
-      if (params.additionalFields) {
-        for (const [key, value] of Object.entries(params.additionalFields)) {
-          patchDocument.push({
-            op: Operation.Add,
-            path: `/fields/${key}`,
-            value: value
-          });
-        }
-      }
+      const patchDocument = this.buildCreateWorkItemPatch(params);
       
       const workItem = await witApi.createWorkItem(
         undefined,
@@ -247,22 +410,104 @@ export class WorkItemService extends AzureDevOpsService {
   }
 
   /**
-   * Update a work item
+   * Plan the creation of a work item without calling Azure DevOps
    */
-  public async updateWorkItem(params: UpdateWorkItemParams): Promise<any> {
-    try {
-      const witApi = await this.getWorkItemTrackingApi();
-      
-      const patchDocument: JsonPatchOperation[] = [];
-      
-      // Add fields from the params
-      for (const [key, value] of Object.entries(params.fields)) {
+  public planCreateWorkItem(params: CreateWorkItemParams): WritePlan {
+    const patchDocument = this.buildCreateWorkItemPatch(params);
+    
+    return {
+      dryRun: true,
+      operation: 'createWorkItem',
+      target: {
+        project: this.config.project,
+        workItemType: params.workItemType
+      },
+      payload: patchDocument,
+      changes: this.getFieldChanges(patchDocument),
+      summary: `Create ${params.workItemType} "${params.title}" in project ${this.config.project} with ${patchDocument.length} field(s)`
+    };
+  }
+
+  /**
+   * Build the patch document for a new work item
+   */
+  private buildCreateWorkItemPatch(params: CreateWorkItemParams): JsonPatchOperation[] {
+    const patchDocument: JsonPatchOperation[] = [];
+    
+    // Add title
+    patchDocument.push({
+      op: Operation.Add,
+      path: "/fields/System.Title",
+      value: params.title
+    });
+    
+    // Add description if provided
+    if (params.description) {
+      patchDocument.push({
+        op: Operation.Add,
+        path: "/fields/System.Description",
+        value: params.description
+      });
+    }
+    
+    // Add assigned to if provided
+    if (params.assignedTo) {
+      patchDocument.push({
+        op: Operation.Add,
+        path: "/fields/System.AssignedTo",
+        value: params.assignedTo
+      });
+    }
+    
+    // Add state if provided
+    if (params.state) {
+      patchDocument.push({
+        op: Operation.Add,
+        path: "/fields/System.State",
+        value: params.state
+      });
+    }
+    
+    // Add area path if provided
+    if (params.areaPath) {
+      patchDocument.push({
+        op: Operation.Add,
+        path: "/fields/System.AreaPath",
+        value: params.areaPath
+      });
+    }
+    
+    // Add iteration path if provided
+    if (params.iterationPath) {
+      patchDocument.push({
+        op: Operation.Add,
+        path: "/fields/System.IterationPath",
+        value: params.iterationPath
+      });
+    }
+    
+    // Add additional fields if provided
+    if (params.additionalFields) {
+      for (const [key, value] of Object.entries(params.additionalFields)) {
         patchDocument.push({
           op: Operation.Add,
           path: `/fields/${key}`,
           value: value
         });
       }
+    }
+    
+    return patchDocument;
+  }
+
+  /**
+   * Update a work item
+   */
+  public async updateWorkItem(params: UpdateWorkItemParams): Promise<any> {
+    try {
+      const witApi = await this.getWorkItemTrackingApi();
+      
+      const patchDocument = this.buildUpdateWorkItemPatch(params);
       
       const workItem = await witApi.updateWorkItem(
         undefined,
@@ -279,14 +524,45 @@ export class WorkItemService extends AzureDevOpsService {
   }
 
   /**
-   * Add a comment to a work item
+   * Plan an update of a work item without changing it
+   */
+  public async planUpdateWorkItem(params: UpdateWorkItemParams): Promise<WritePlan> {
+    return this.planWorkItemPatch(
+      'updateWorkItem',
+      params.id,
+      this.buildUpdateWorkItemPatch(params),
+      `Update ${Object.keys(params.fields).length} field(s) on work item ${params.id}`
+    );
+  }
+
+  /**
+   * Build the patch document for a work item update
+   */
+  private buildUpdateWorkItemPatch(params: UpdateWorkItemParams): JsonPatchOperation[] {
+    const patchDocument: JsonPatchOperation[] = [];
+    
+    // Add fields from the params
+    for (const [key, value] of Object.entries(params.fields)) {
+      patchDocument.push({
+        op: Operation.Add,
+        path: `/fields/${key}`,
+        value: value
+      });
+    }
+    
+    return patchDocument;
+  }
+
+  /**
+   * Add a comment to a work item. Markdown is converted to HTML and mentions to mention links.
    */
   public async addWorkItemComment(params: AddWorkItemCommentParams): Promise<any> {
     try {
       const witApi = await this.getWorkItemTrackingApi();
+      const text = await this.renderComment(params.text, params.format);
       
       const comment = await witApi.addComment({
-        text: params.text
+        text
       }, this.config.project, params.id);
       
       return comment;
@@ -296,6 +572,181 @@ export class WorkItemService extends AzureDevOpsService {
     }
   }
 
+  /**
+   * Plan adding a comment to a work item without posting it
+   */
+  public async planAddWorkItemComment(params: AddWorkItemCommentParams): Promise<WritePlan> {
+    const workItem = await this.getWorkItemForPlan(params.id);
+    const text = await this.renderComment(params.text, params.format);
+    
+    return {
+      dryRun: true,
+      operation: 'addWorkItemComment',
+      target: this.getWorkItemPlanTarget(workItem),
+      payload: { text },
+      summary: `Add a ${text.length}-character comment to work item ${params.id} (revision ${workItem.rev})`
+    };
+  }
+
+  /**
+   * List the comments of a work item a page at a time, newest first unless `order` is `asc`
+   */
+  public async getWorkItemComments(params: WorkItemCommentsParams): Promise<CommentList> {
+    try {
+      const witApi = await this.getWorkItemTrackingApi();
+      return await witApi.getComments(
+        this.config.project,
+        params.id,
+        params.top,
+        params.continuationToken,
+        params.includeDeleted,
+        CommentExpandOptions.Reactions,
+        params.order === 'asc' ? CommentSortOrder.Asc : CommentSortOrder.Desc
+      );
+    } catch (error) {
+      console.error(`Error getting comments of work item ${params.id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace the text of a work item comment
+   */
+  public async updateWorkItemComment(params: UpdateWorkItemCommentParams): Promise<Comment> {
+    try {
+      const witApi = await this.getWorkItemTrackingApi();
+      const text = await this.renderComment(params.text, params.format);
+      return await witApi.updateComment({ text }, this.config.project, params.id, params.commentId);
+    } catch (error) {
+      console.error(`Error updating comment ${params.commentId} of work item ${params.id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Plan editing a work item comment without saving it
+   */
+  public async planUpdateWorkItemComment(params: UpdateWorkItemCommentParams): Promise<WritePlan> {
+    const comment = await this.getCommentForPlan(params.id, params.commentId);
+    const text = await this.renderComment(params.text, params.format);
+
+    return {
+      dryRun: true,
+      operation: 'updateWorkItemComment',
+      target: this.getCommentPlanTarget(comment),
+      payload: { text },
+      changes: [{ field: 'text', from: comment.text, to: text }],
+      summary: `Edit comment ${params.commentId} of work item ${params.id} (version ${comment.version})`
+    };
+  }
+
+  /**
+   * Delete a work item comment
+   */
+  public async deleteWorkItemComment(params: DeleteWorkItemCommentParams): Promise<void> {
+    try {
+      const witApi = await this.getWorkItemTrackingApi();
+      await witApi.deleteComment(this.config.project, params.id, params.commentId);
+    } catch (error) {
+      console.error(`Error deleting comment ${params.commentId} of work item ${params.id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Plan deleting a work item comment without deleting it
+   */
+  public async planDeleteWorkItemComment(params: DeleteWorkItemCommentParams): Promise<WritePlan> {
+    const comment = await this.getCommentForPlan(params.id, params.commentId);
+
+    return {
+      dryRun: true,
+      operation: 'deleteWorkItemComment',
+      target: this.getCommentPlanTarget(comment),
+      payload: {},
+      summary: `Delete comment ${params.commentId} by ${comment.createdBy?.displayName || 'unknown'} from work item ${params.id}`
+    };
+  }
+
+  /**
+   * Add a reaction to a work item comment, or remove it
+   */
+  public async setWorkItemCommentReaction(params: WorkItemCommentReactionParams): Promise<any> {
+    try {
+      const witApi = await this.getWorkItemTrackingApi();
+      const reaction = COMMENT_REACTIONS[params.reaction];
+      return params.remove
+        ? await witApi.deleteCommentReaction(this.config.project, params.id, params.commentId, reaction)
+        : await witApi.createCommentReaction(this.config.project, params.id, params.commentId, reaction);
+    } catch (error) {
+      console.error(`Error setting reaction on comment ${params.commentId} of work item ${params.id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Plan adding or removing a comment reaction without changing it
+   */
+  public async planSetWorkItemCommentReaction(params: WorkItemCommentReactionParams): Promise<WritePlan> {
+    const comment = await this.getCommentForPlan(params.id, params.commentId);
+
+    return {
+      dryRun: true,
+      operation: 'setWorkItemCommentReaction',
+      target: this.getCommentPlanTarget(comment),
+      payload: { type: params.reaction },
+      summary: params.remove
+        ? `Remove your "${params.reaction}" reaction from comment ${params.commentId} of work item ${params.id}`
+        : `Add a "${params.reaction}" reaction to comment ${params.commentId} of work item ${params.id}`
+    };
+  }
+
+  /**
+   * Get the HTML of a comment: Markdown is converted to HTML, and people mentioned as
+   * `@[Display Name]`, `@user@example.com` or `@DOMAIN\user` are replaced with the mention
+   * links Azure DevOps sends notifications for.
+   * @throws ValidationError when a mention matches no one, or more than one person
+   */
+  private async renderComment(text: string, format: CommentTextFormat = 'html'): Promise<string> {
+    const html = format === 'markdown' ? markdownToHtml(text) : text;
+    const identities = new Map<string, MentionIdentity>();
+    for (const name of findMentions(html)) {
+      identities.set(name, await this.resolveMention(name));
+    }
+    return identities.size > 0 ? renderMentions(html, identities) : html;
+  }
+
+  /**
+   * Find the identity a mention refers to through the identities API. An exact match of the
+   * display name, account or e-mail address is preferred over other search results.
+   */
+  private async resolveMention(name: string): Promise<MentionIdentity> {
+    const witApi = await this.getWorkItemTrackingApi();
+    const query = `searchFilter=General&filterValue=${encodeURIComponent(name)}&queryMembership=None`;
+    const response = await witApi.rest.get<{ value?: IdentitySearchResult[] }>(
+      `${getIdentitiesUrl(this.config)}/_apis/identities?${query}`,
+      witApi.createRequestOptions('application/json', this.config.apiVersion || IDENTITIES_API_VERSION)
+    );
+    const found = (response.result?.value || []).filter(identity => identity.isActive !== false);
+    const names = (identity: IdentitySearchResult) => [
+      identity.customDisplayName,
+      identity.providerDisplayName,
+      identity.properties?.Account?.$value,
+      identity.properties?.Mail?.$value
+    ].filter(Boolean).map(value => value!.toLowerCase());
+    const exact = found.filter(identity => names(identity).includes(name.toLowerCase()));
+    const matches = exact.length > 0 ? exact : found;
+
+    if (matches.length === 0) {
+      throw new ValidationError(`Nobody found for the mention @${name}. Mention people by e-mail address, e.g. @jane@contoso.com, or as @[Display Name].`);
+    }
+    if (matches.length > 1) {
+      const candidates = matches.slice(0, 5).map(identity => identity.properties?.Mail?.$value || identity.providerDisplayName).join(', ');
+      throw new ValidationError(`The mention @${name} matches ${matches.length} people (${candidates}). Mention them by e-mail address instead.`);
+    }
+    return { id: matches[0].id, displayName: matches[0].customDisplayName || matches[0].providerDisplayName || name };
+  }
+
   /**
    * Update work item state
    */
@@ -303,22 +754,7 @@ export class WorkItemService extends AzureDevOpsService {
     try {
       const witApi = await this.getWorkItemTrackingApi();
       
-      const patchDocument: JsonPatchOperation[] = [
-        {
-          op: Operation.Add,
-          path: "/fields/System.State",
-          value: params.state
-        }
-      ];
-      
-      // Add comment if provided
-      if (params.comment) {
-        patchDocument.push({
-          op: Operation.Add,
-          path: "/fields/System.History",
-          value: params.comment
-        });
-      }
+      const patchDocument = this.buildUpdateWorkItemStatePatch(params);
       
       const workItem = await witApi.updateWorkItem(
         undefined,
@@ -334,6 +770,42 @@ export class WorkItemService extends AzureDevOpsService {
     }
   }
 
+  /**
+   * Plan a state change of a work item without changing it
+   */
+  public async planUpdateWorkItemState(params: UpdateWorkItemStateParams): Promise<WritePlan> {
+    return this.planWorkItemPatch(
+      'updateWorkItemState',
+      params.id,
+      this.buildUpdateWorkItemStatePatch(params),
+      `Move work item ${params.id} to state "${params.state}"`
+    );
+  }
+
+  /**
+   * Build the patch document for a work item state change
+   */
+  private buildUpdateWorkItemStatePatch(params: UpdateWorkItemStateParams): JsonPatchOperation[] {
+    const patchDocument: JsonPatchOperation[] = [
+      {
+        op: Operation.Add,
+        path: "/fields/System.State",
+        value: params.state
+      }
+    ];
+    
+    // Add comment if provided
+    if (params.comment) {
+      patchDocument.push({
+        op: Operation.Add,
+        path: "/fields/System.History",
+        value: params.comment
+      });
+    }
+    
+    return patchDocument;
+  }
+
   /**
    * Assign work item to a user
    */
@@ -341,13 +813,7 @@ export class WorkItemService extends AzureDevOpsService {
     try {
       const witApi = await this.getWorkItemTrackingApi();
       
-      const patchDocument: JsonPatchOperation[] = [
-        {
-          op: Operation.Add,
-          path: "/fields/System.AssignedTo",
-          value: params.assignedTo
-        }
-      ];
+      const patchDocument = this.buildAssignWorkItemPatch(params);
       
       const workItem = await witApi.updateWorkItem(
         undefined,
@@ -363,6 +829,31 @@ export class WorkItemService extends AzureDevOpsService {
     }
   }
 
+  /**
+   * Plan an assignment of a work item without changing it
+   */
+  public async planAssignWorkItem(params: AssignWorkItemParams): Promise<WritePlan> {
+    return this.planWorkItemPatch(
+      'assignWorkItem',
+      params.id,
+      this.buildAssignWorkItemPatch(params),
+      `Assign work item ${params.id} to ${params.assignedTo}`
+    );
+  }
+
+  /**
+   * Build the patch document for a work item assignment
+   */
+  private buildAssignWorkItemPatch(params: AssignWorkItemParams): JsonPatchOperation[] {
+    return [
+      {
+        op: Operation.Add,
+        path: "/fields/System.AssignedTo",
+        value: params.assignedTo
+      }
+    ];
+  }
+
   /**
    * Create a link between work items
    */
@@ -370,19 +861,7 @@ export class WorkItemService extends AzureDevOpsService {
     try {
       const witApi = await this.getWorkItemTrackingApi();
       
-      const patchDocument: JsonPatchOperation[] = [
-        {
-          op: Operation.Add,
-          path: "/relations/-",
-          value: {
-            rel: params.linkType,
-            url: `${this.config.orgUrl}/_apis/wit/workItems/${params.targetId}`,
-            attributes: {
-              comment: params.comment || ""
-            }
-          }
-        }
-      ];
+      const patchDocument = this.buildCreateLinkPatch(params);
       
       const workItem = await witApi.updateWorkItem(
         undefined,
@@ -398,6 +877,37 @@ export class WorkItemService extends AzureDevOpsService {
     }
   }
 
+  /**
+   * Plan a link between work items without creating it
+   */
+  public async planCreateLink(params: CreateLinkParams): Promise<WritePlan> {
+    return this.planWorkItemPatch(
+      'createLink',
+      params.sourceId,
+      this.buildCreateLinkPatch(params),
+      `Add a ${params.linkType} link from work item ${params.sourceId} to ${params.targetId}`
+    );
+  }
+
+  /**
+   * Build the patch document that adds a link to the source work item
+   */
+  private buildCreateLinkPatch(params: CreateLinkParams): JsonPatchOperation[] {
+    return [
+      {
+        op: Operation.Add,
+        path: "/relations/-",
+        value: {
+          rel: params.linkType,
+          url: `${this.config.orgUrl}/_apis/wit/workItems/${params.targetId}`,
+          attributes: {
+            comment: params.comment || ""
+          }
+        }
+      }
+    ];
+  }
+
   /**
    * Bulk create or update work items
    */
@@ -426,4 +936,185 @@ export class WorkItemService extends AzureDevOpsService {
       throw error;
     }
   }
-} 
\ No newline at end of file
+
+  /**
+   * Plan a bulk create or update without changing any work items
+   */
+  public async planBulkUpdateWorkItems(params: BulkWorkItemParams): Promise<WritePlan> {
+    const plans: WritePlan[] = [];
+    
+    for (const workItemParams of params.workItems) {
+      if ('id' in workItemParams) {
+        plans.push(await this.planUpdateWorkItem(workItemParams));
+      } else {
+        plans.push(this.planCreateWorkItem(workItemParams));
+      }
+    }
+    
+    const updateCount = plans.filter(plan => plan.operation === 'updateWorkItem').length;
+    
+    return {
+      dryRun: true,
+      operation: 'bulkCreateWorkItems',
+      target: { project: this.config.project },
+      payload: plans,
+      summary: `Create ${plans.length - updateCount} and update ${updateCount} work item(s) in project ${this.config.project}`
+    };
+  }
+
+  /**
+   * Resolve the current state of a work item and describe the patch that would be applied to it
+   */
+  private async planWorkItemPatch(
+    operation: string,
+    id: number,
+    patchDocument: JsonPatchOperation[],
+    summary: string
+  ): Promise<WritePlan> {
+    const workItem = await this.getWorkItemForPlan(id);
+    const changes = this.getFieldChanges(patchDocument, workItem.fields);
+    const changeText = changes
+      .map(change => `${change.field}: ${JSON.stringify(change.from ?? null)} -> ${JSON.stringify(change.to)}`)
+      .join('; ');
+    
+    return {
+      dryRun: true,
+      operation,
+      target: this.getWorkItemPlanTarget(workItem),
+      payload: patchDocument,
+      changes,
+      summary: `${summary} (revision ${workItem.rev})${changeText ? `: ${changeText}` : ''}`
+    };
+  }
+
+  /**
+   * Get the work item a plan targets, failing if it does not exist
+   */
+  private async getWorkItemForPlan(id: number): Promise<WorkItem> {
+    const witApi = await this.getWorkItemTrackingApi();
+    const workItem = await witApi.getWorkItem(id, undefined, undefined, undefined, this.config.project);
+    if (!workItem) {
+      throw new Error(`Work item ${id} not found in project ${this.config.project}`);
+    }
+    return workItem;
+  }
+
+  /**
+   * Get the comment a plan targets, failing when it does not exist
+   */
+  private async getCommentForPlan(id: number, commentId: number): Promise<Comment> {
+    const witApi = await this.getWorkItemTrackingApi();
+    const comment = await witApi.getComment(this.config.project, id, commentId);
+    if (!comment) {
+      throw new Error(`Comment ${commentId} not found on work item ${id}`);
+    }
+    return comment;
+  }
+
+  /**
+   * Describe the comment a plan targets
+   */
+  private getCommentPlanTarget(comment: Comment): Record<string, any> {
+    return {
+      project: this.config.project,
+      workItemId: comment.workItemId,
+      commentId: comment.id,
+      version: comment.version,
+      createdBy: comment.createdBy?.displayName
+    };
+  }
+
+  /**
+   * Describe the work item a plan targets
+   */
+  private getWorkItemPlanTarget(workItem: WorkItem): Record<string, any> {
+    return {
+      project: this.config.project,
+      workItemId: workItem.id,
+      revision: workItem.rev,
+      workItemType: workItem.fields?.['System.WorkItemType'],
+      title: workItem.fields?.['System.Title'],
+      state: workItem.fields?.['System.State']
+    };
+  }
+
+  /**
+   * List the field values a patch document sets, with their current values when known
+   */
+  private getFieldChanges(patchDocument: JsonPatchOperation[], currentFields: Record<string, any> = {}): FieldChange[] {
+    return patchDocument
+      .filter(operation => operation.path.startsWith('/fields/'))
+      .map(operation => {
+        const field = operation.path.substring('/fields/'.length);
+        return {
+          field,
+          from: currentFields[field],
+          to: operation.value
+        };
+      });
+  }
+}
+
+/**
+ * Convert a structured filter to a WIQL condition, reading strings such as `@me` as macros
+ */
+function toWiqlExpression(filter: WorkItemFilter): WiqlExpression {
+  const toValue = (value: string | number | boolean): WiqlValue =>
+    typeof value === 'string' ? parseWiqlMacro(value) || value : value;
+  return {
+    field: filter.field,
+    operator: filter.operator,
+    value: Array.isArray(filter.value) ? filter.value.map(toValue) : toValue(filter.value)
+  };
+}
+
+/**
+ * Position after the last work item of a page, see `queryPage`
+ */
+interface PageCursor {
+  field: string;
+  value: string; // ISO date
+  id: number;
+}
+
+function createPageCursor(cursor: PageCursor): string {
+  return Buffer.from(JSON.stringify(cursor), 'utf8').toString('base64url');
+}
+
+function readPageCursor(token: string, field: string): PageCursor {
+  let cursor: PageCursor;
+  try {
+    cursor = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+  } catch {
+    throw new ValidationError('Invalid continuation token');
+  }
+  if (cursor?.field !== field || isNaN(new Date(cursor.value).getTime()) || !Number.isInteger(cursor.id)) {
+    throw new ValidationError('Continuation token does not belong to this query; repeat the call without it to start over');
+  }
+  return cursor;
+}
+
+/**
+ * Identity returned by the identities API
+ */
+interface IdentitySearchResult {
+  id: string;
+  providerDisplayName?: string;
+  customDisplayName?: string;
+  isActive?: boolean;
+  properties?: Record<string, { $value?: string }>;
+}
+
+/**
+ * Get the URL of the identities API: the collection on premises, and the organization's
+ * identity host, `vssps.dev.azure.com`, on Azure DevOps Services
+ */
+function getIdentitiesUrl(config: AzureDevOpsConfig): string {
+  const orgUrl = config.orgUrl.replace(/\/+$/, '');
+  if (config.isOnPremises) {
+    return config.collection ? `${orgUrl}/${config.collection}` : orgUrl;
+  }
+  return orgUrl
+    .replace(/^https:\/\/dev\.azure\.com\//i, 'https://vssps.dev.azure.com/')
+    .replace(/^https:\/\/([^./]+)\.visualstudio\.com/i, 'https://$1.vssps.visualstudio.com');
+}
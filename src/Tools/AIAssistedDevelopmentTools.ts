@@ -15,7 +15,22 @@ import {
   PredictBuildFailuresParams,
   OptimizeTestSelectionParams
 } from "../Interfaces/AIAssisted";
-import getClassMethods from "../utils/getClassMethods";
+import { defineTool, ToolDefinition } from '../Interfaces/ToolDefinition';
+import {
+  automationOpportunitiesShape,
+  bugPredictionShape,
+  buildFailurePredictionShape,
+  codeOptimizationShape,
+  codeQualityTrendsShape,
+  codeReviewShape,
+  codeSmellsShape,
+  developerProductivityShape,
+  effortEstimationShape,
+  intelligentAlertShape,
+  testSelectionShape,
+  workItemRefinementsShape
+} from '../Interfaces/OutputSchemas';
+import { z } from 'zod';
 
 export class AIAssistedDevelopmentTools {
   private service: AIAssistedDevelopmentService;
@@ -145,4 +160,158 @@ export class AIAssistedDevelopmentTools {
   }
 }
 
-export const AIAssistedDevelopmentToolMethods = getClassMethods(AIAssistedDevelopmentTools.prototype);
\ No newline at end of file
+/**
+ * Definitions of the AI-assisted development tools, registered with the MCP server in `index.ts`
+ */
+export const AIAssistedDevelopmentToolDefinitions: ToolDefinition<AIAssistedDevelopmentTools>[] = [
+  defineTool({
+    name: "getAICodeReview",
+    description: "Get AI-based code review suggestions",
+    access: 'read',
+    schema: {
+      pullRequestId: z.number().optional().describe("ID of the pull request to review"),
+      repositoryId: z.string().optional().describe("ID of the repository"),
+      commitId: z.string().optional().describe("ID of the commit to review"),
+      filePath: z.string().optional().describe("Path to the file to review")
+    },
+    output: codeReviewShape,
+    handler: (tools: AIAssistedDevelopmentTools, params) => tools.getAICodeReview(params)
+  }),
+  defineTool({
+    name: "suggestCodeOptimization",
+    description: "Suggest code optimizations using AI",
+    access: 'read',
+    schema: {
+      repositoryId: z.string().describe("ID of the repository"),
+      filePath: z.string().describe("Path to the file to optimize"),
+      lineStart: z.number().optional().describe("Starting line number"),
+      lineEnd: z.number().optional().describe("Ending line number"),
+      optimizationType: z.enum(['performance', 'memory', 'readability', 'all']).optional().describe("Type of optimization to focus on")
+    },
+    output: codeOptimizationShape,
+    handler: (tools: AIAssistedDevelopmentTools, params) => tools.suggestCodeOptimization(params)
+  }),
+  defineTool({
+    name: "identifyCodeSmells",
+    description: "Identify potential code smells and anti-patterns",
+    access: 'read',
+    schema: {
+      repositoryId: z.string().describe("ID of the repository"),
+      branch: z.string().optional().describe("Branch to analyze"),
+      filePath: z.string().optional().describe("Path to the file to analyze"),
+      severity: z.enum(['high', 'medium', 'low', 'all']).optional().describe("Severity level to filter by")
+    },
+    output: codeSmellsShape,
+    handler: (tools: AIAssistedDevelopmentTools, params) => tools.identifyCodeSmells(params)
+  }),
+  defineTool({
+    name: "getPredictiveBugAnalysis",
+    description: "Predict potential bugs in code changes",
+    access: 'read',
+    schema: {
+      repositoryId: z.string().describe("ID of the repository"),
+      pullRequestId: z.number().optional().describe("ID of the pull request"),
+      branch: z.string().optional().describe("Branch to analyze"),
+      filePath: z.string().optional().describe("Path to the file to analyze")
+    },
+    output: bugPredictionShape,
+    handler: (tools: AIAssistedDevelopmentTools, params) => tools.getPredictiveBugAnalysis(params)
+  }),
+  defineTool({
+    name: "getDeveloperProductivity",
+    description: "Measure developer productivity metrics",
+    access: 'read',
+    schema: {
+      userId: z.string().optional().describe("ID of the user"),
+      teamId: z.string().optional().describe("ID of the team"),
+      timeRange: z.string().optional().describe("Time range for analysis (e.g., '30d', '3m')"),
+      includeMetrics: z.array(z.string()).optional().describe("Specific metrics to include")
+    },
+    output: developerProductivityShape,
+    handler: (tools: AIAssistedDevelopmentTools, params) => tools.getDeveloperProductivity(params)
+  }),
+  defineTool({
+    name: "getPredictiveEffortEstimation",
+    description: "AI-based effort estimation for work items",
+    access: 'read',
+    schema: {
+      workItemIds: z.array(z.number()).optional().describe("IDs of work items to estimate"),
+      workItemType: z.string().optional().describe("Type of work items to estimate"),
+      areaPath: z.string().optional().describe("Area path to filter work items")
+    },
+    output: effortEstimationShape,
+    handler: (tools: AIAssistedDevelopmentTools, params) => tools.getPredictiveEffortEstimation(params)
+  }),
+  defineTool({
+    name: "getCodeQualityTrends",
+    description: "Track code quality trends over time",
+    access: 'read',
+    schema: {
+      repositoryId: z.string().optional().describe("ID of the repository"),
+      branch: z.string().optional().describe("Branch to analyze"),
+      timeRange: z.string().optional().describe("Time range for analysis (e.g., '90d', '6m')"),
+      metrics: z.array(z.string()).optional().describe("Specific metrics to include")
+    },
+    output: codeQualityTrendsShape,
+    handler: (tools: AIAssistedDevelopmentTools, params) => tools.getCodeQualityTrends(params)
+  }),
+  defineTool({
+    name: "suggestWorkItemRefinements",
+    description: "Get AI suggestions for work item refinements",
+    access: 'read',
+    schema: {
+      workItemId: z.number().optional().describe("ID of the work item to refine"),
+      workItemType: z.string().optional().describe("Type of work item"),
+      areaPath: z.string().optional().describe("Area path to filter work items")
+    },
+    output: workItemRefinementsShape,
+    handler: (tools: AIAssistedDevelopmentTools, params) => tools.suggestWorkItemRefinements(params)
+  }),
+  defineTool({
+    name: "suggestAutomationOpportunities",
+    description: "Identify opportunities for automation",
+    access: 'read',
+    schema: {
+      projectId: z.string().optional().describe("ID of the project"),
+      scopeType: z.enum(['builds', 'releases', 'tests', 'workitems', 'all']).optional().describe("Type of scope to analyze")
+    },
+    output: automationOpportunitiesShape,
+    handler: (tools: AIAssistedDevelopmentTools, params) => tools.suggestAutomationOpportunities(params)
+  }),
+  defineTool({
+    name: "createIntelligentAlerts",
+    description: "Set up intelligent alerts based on patterns",
+    access: 'write',
+    schema: {
+      alertName: z.string().describe("Name of the alert"),
+      alertType: z.enum(['build', 'release', 'test', 'workitem', 'code']).describe("Type of alert to create"),
+      conditions: z.record(z.any()).describe("Conditions for the alert"),
+      actions: z.record(z.any()).optional().describe("Actions to take when the alert triggers")
+    },
+    output: intelligentAlertShape,
+    handler: (tools: AIAssistedDevelopmentTools, params) => tools.createIntelligentAlerts(params)
+  }),
+  defineTool({
+    name: "predictBuildFailures",
+    description: "Predict potential build failures before they occur",
+    access: 'read',
+    schema: {
+      buildDefinitionId: z.number().describe("ID of the build definition"),
+      lookbackPeriod: z.string().optional().describe("Period to analyze for patterns (e.g., '30d')")
+    },
+    output: buildFailurePredictionShape,
+    handler: (tools: AIAssistedDevelopmentTools, params) => tools.predictBuildFailures(params)
+  }),
+  defineTool({
+    name: "optimizeTestSelection",
+    description: "Intelligently select tests to run based on changes",
+    access: 'read',
+    schema: {
+      buildId: z.number().describe("ID of the build"),
+      changedFiles: z.array(z.string()).optional().describe("List of changed files"),
+      maxTestCount: z.number().optional().describe("Maximum number of tests to select")
+    },
+    output: testSelectionShape,
+    handler: (tools: AIAssistedDevelopmentTools, params) => tools.optimizeTestSelection(params)
+  })
+];
@@ -15,7 +15,22 @@ import {
   CreatePackageDownloadReportParams,
   CheckPackageDependenciesParams
 } from "../Interfaces/ArtifactManagement";
-import getClassMethods from "../utils/getClassMethods";
+import { defineTool, ToolDefinition } from '../Interfaces/ToolDefinition';
+import {
+  artifactFeedsShape,
+  containerImageScanShape,
+  containerImageTagsShape,
+  containerImagesShape,
+  containerPolicyShape,
+  deletedPackageVersionShape,
+  packageDependenciesShape,
+  packageDownloadReportShape,
+  packageVersionsShape,
+  promotedPackageShape,
+  publishedPackageShape,
+  universalPackageShape
+} from '../Interfaces/OutputSchemas';
+import { z } from 'zod';
 
 export class ArtifactManagementTools {
   private service: ArtifactManagementService;
@@ -151,4 +166,159 @@ export class ArtifactManagementTools {
   }
 }
 
-export const ArtifactManagementToolMethods = getClassMethods(ArtifactManagementTools.prototype);
\ No newline at end of file
+/**
+ * Definitions of the artifact management tools, registered with the MCP server in `index.ts`
+ */
+export const ArtifactManagementToolDefinitions: ToolDefinition<ArtifactManagementTools>[] = [
+  defineTool({
+    name: "listArtifactFeeds",
+    description: "List artifact feeds in the organization",
+    access: 'read',
+    schema: {
+      feedType: z.enum(['npm', 'nuget', 'maven', 'python', 'universal', 'all']).optional().describe("Type of feeds to list"),
+      includeDeleted: z.boolean().optional().describe("Include deleted feeds")
+    },
+    output: artifactFeedsShape,
+    handler: (tools: ArtifactManagementTools, params) => tools.listArtifactFeeds(params)
+  }),
+  defineTool({
+    name: "getPackageVersions",
+    description: "Get versions of a package in a feed",
+    access: 'read',
+    schema: {
+      feedId: z.string().describe("ID of the feed"),
+      packageName: z.string().describe("Name of the package"),
+      top: z.number().optional().describe("Maximum number of versions to return")
+    },
+    output: packageVersionsShape,
+    handler: (tools: ArtifactManagementTools, params) => tools.getPackageVersions(params)
+  }),
+  defineTool({
+    name: "publishPackage",
+    description: "Publish a package to a feed",
+    access: 'write',
+    schema: {
+      feedId: z.string().describe("ID of the feed to publish to"),
+      packageType: z.enum(['npm', 'nuget', 'maven', 'python', 'universal']).describe("Type of package"),
+      packagePath: z.string().describe("Path to the package file"),
+      packageVersion: z.string().optional().describe("Version of the package")
+    },
+    output: publishedPackageShape,
+    handler: (tools: ArtifactManagementTools, params) => tools.publishPackage(params)
+  }),
+  defineTool({
+    name: "promotePackage",
+    description: "Promote a package version between views",
+    access: 'write',
+    schema: {
+      feedId: z.string().describe("ID of the feed"),
+      packageName: z.string().describe("Name of the package"),
+      packageVersion: z.string().describe("Version of the package"),
+      sourceView: z.string().describe("Source view (e.g., 'prerelease')"),
+      targetView: z.string().describe("Target view (e.g., 'release')")
+    },
+    output: promotedPackageShape,
+    handler: (tools: ArtifactManagementTools, params) => tools.promotePackage(params)
+  }),
+  defineTool({
+    name: "deletePackageVersion",
+    description: "Delete a version of a package",
+    access: 'destructive',
+    schema: {
+      feedId: z.string().describe("ID of the feed"),
+      packageName: z.string().describe("Name of the package"),
+      packageVersion: z.string().describe("Version of the package to delete"),
+      permanent: z.boolean().optional().describe("Permanently delete the package version")
+    },
+    output: deletedPackageVersionShape,
+    handler: (tools: ArtifactManagementTools, params) => tools.deletePackageVersion(params)
+  }),
+  defineTool({
+    name: "listContainerImages",
+    description: "List container images in a repository",
+    access: 'read',
+    schema: {
+      repositoryName: z.string().optional().describe("Name of the container repository"),
+      includeManifests: z.boolean().optional().describe("Include image manifests"),
+      includeDeleted: z.boolean().optional().describe("Include deleted images")
+    },
+    output: containerImagesShape,
+    handler: (tools: ArtifactManagementTools, params) => tools.listContainerImages(params)
+  }),
+  defineTool({
+    name: "getContainerImageTags",
+    description: "Get tags for a container image",
+    access: 'read',
+    schema: {
+      repositoryName: z.string().describe("Name of the container repository"),
+      imageName: z.string().describe("Name of the container image"),
+      top: z.number().optional().describe("Maximum number of tags to return")
+    },
+    output: containerImageTagsShape,
+    handler: (tools: ArtifactManagementTools, params) => tools.getContainerImageTags(params)
+  }),
+  defineTool({
+    name: "scanContainerImage",
+    description: "Scan a container image for vulnerabilities and compliance issues",
+    access: 'write',
+    schema: {
+      repositoryName: z.string().describe("Name of the container repository"),
+      imageTag: z.string().describe("Tag of the container image to scan"),
+      scanType: z.enum(['vulnerability', 'compliance', 'both']).optional().describe("Type of scan to perform")
+    },
+    output: containerImageScanShape,
+    handler: (tools: ArtifactManagementTools, params) => tools.scanContainerImage(params)
+  }),
+  defineTool({
+    name: "manageContainerPolicies",
+    description: "Manage policies for container repositories",
+    access: 'destructive',
+    schema: {
+      repositoryName: z.string().describe("Name of the container repository"),
+      policyType: z.enum(['retention', 'security', 'access']).describe("Type of policy to manage"),
+      action: z.enum(['get', 'set', 'delete']).describe("Action to perform on the policy"),
+      policySettings: z.record(z.any()).optional().describe("Settings for the policy when setting")
+    },
+    output: containerPolicyShape,
+    handler: (tools: ArtifactManagementTools, params) => tools.manageContainerPolicies(params)
+  }),
+  defineTool({
+    name: "manageUniversalPackages",
+    description: "Manage universal packages",
+    access: 'write',
+    schema: {
+      packageName: z.string().describe("Name of the universal package"),
+      action: z.enum(['download', 'upload', 'delete']).describe("Action to perform"),
+      packagePath: z.string().optional().describe("Path for package upload or download"),
+      packageVersion: z.string().optional().describe("Version of the package")
+    },
+    output: universalPackageShape,
+    handler: (tools: ArtifactManagementTools, params) => tools.manageUniversalPackages(params)
+  }),
+  defineTool({
+    name: "createPackageDownloadReport",
+    description: "Create reports on package downloads",
+    access: 'write',
+    schema: {
+      feedId: z.string().optional().describe("ID of the feed"),
+      packageName: z.string().optional().describe("Name of the package"),
+      timeRange: z.string().optional().describe("Time range for the report (e.g., '30d')"),
+      format: z.enum(['csv', 'json']).optional().describe("Format of the report")
+    },
+    output: packageDownloadReportShape,
+    handler: (tools: ArtifactManagementTools, params) => tools.createPackageDownloadReport(params)
+  }),
+  defineTool({
+    name: "checkPackageDependencies",
+    description: "Check package dependencies and vulnerabilities",
+    access: 'read',
+    schema: {
+      packageName: z.string().describe("Name of the package to check"),
+      packageVersion: z.string().optional().describe("Version of the package"),
+      includeTransitive: z.boolean().optional().describe("Include transitive dependencies"),
+      checkVulnerabilities: z.boolean().optional().describe("Check for known vulnerabilities")
+    },
+    output: packageDependenciesShape,
+    handler: (tools: ArtifactManagementTools, params) => tools.checkPackageDependencies(params)
+  })
+];
@@ -0,0 +1,47 @@
+import { z } from 'zod';
+import { AuditQuery } from '../Interfaces/Audit';
+import { auditLog, hashSessionId } from '../Services/AuditLog';
+import { formatMcpResponse, formatErrorResponse, McpResponse } from '../Interfaces/Common';
+import { defineTool, ToolCallContext, ToolDefinition } from '../Interfaces/ToolDefinition';
+import { auditEntrySchema } from '../Interfaces/OutputSchemas';
+
+export class AuditTools {
+  /**
+   * Read the audit log of tool calls that changed Azure DevOps. The IDs of other sessions
+   * are replaced by their hash, so that they cannot be used to join those sessions.
+   */
+  public async getAuditLog(params: AuditQuery, context: ToolCallContext): Promise<McpResponse> {
+    try {
+      const entries = (await auditLog.query(params)).map(entry => entry.sessionId === context.sessionId
+        ? entry
+        : { ...entry, sessionId: hashSessionId(entry.sessionId) });
+      return formatMcpResponse({ entries, count: entries.length }, `Found ${entries.length} audit log entries`);
+    } catch (error) {
+      console.error('Error in getAuditLog tool:', error);
+      return formatErrorResponse(error);
+    }
+  }
+}
+
+/**
+ * Definitions of the audit tools, registered with the MCP server in `index.ts`
+ */
+export const AuditToolDefinitions: ToolDefinition<AuditTools>[] = [
+  defineTool({
+    name: "getAuditLog",
+    description: "Read the audit log of tool calls that created, updated, merged or deleted Azure DevOps objects, newest first. Session IDs other than the caller's are hashed.",
+    access: 'read',
+    optIn: true, // The log shows what every session changed, so it is only exposed when ALLOWED_TOOLS names it
+    schema: {
+      tool: z.string().optional().describe("Only entries of this tool, e.g. mergePullRequest"),
+      sessionId: z.string().optional().describe("Only entries of this MCP session, given as its ID or the hash shown for it"),
+      outcome: z.enum(['success', 'error']).optional().describe("Only successful or failed calls"),
+      targetId: z.union([z.string(), z.number()]).optional().describe("Only entries that changed this work item, pull request, repository or project ID"),
+      since: z.string().optional().describe("Only entries at or after this ISO date"),
+      until: z.string().optional().describe("Only entries at or before this ISO date"),
+      top: z.number().int().positive().optional().describe("Maximum number of entries to return (default 50)")
+    },
+    output: { entries: z.array(auditEntrySchema), count: z.number() },
+    handler: (tools: AuditTools, params, context) => tools.getAuditLog(params, context)
+  })
+];
@@ -12,7 +12,10 @@ import {
   GetSprintCapacityParams,
   GetTeamMembersParams
 } from '../Interfaces/BoardsAndSprints';
-import getClassMethods from "../utils/getClassMethods";
+import { defineTool, ToolDefinition } from '../Interfaces/ToolDefinition';
+import { formatPlanResponse } from '../Interfaces/DryRun';
+import { z } from 'zod';
+import { boardColumnSchema, boardSchema, sprintSchema, teamSchema } from '../Interfaces/OutputSchemas';
 
 export class BoardsSprintsTools {
   private boardsSprintsService: BoardsSprintsService;
@@ -27,7 +30,7 @@ export class BoardsSprintsTools {
   public async getBoards(params: GetBoardsParams): Promise<McpResponse> {
     try {
       const boards = await this.boardsSprintsService.getBoards(params);
-      return formatMcpResponse(boards, `Found ${boards.length} boards`);
+      return formatMcpResponse({ boards, count: boards.length }, `Found ${boards.length} boards`);
     } catch (error) {
       console.error('Error in getBoards tool:', error);
       return formatErrorResponse(error);
@@ -40,7 +43,7 @@ export class BoardsSprintsTools {
   public async getBoardColumns(params: GetBoardColumnsParams): Promise<McpResponse> {
     try {
       const columns = await this.boardsSprintsService.getBoardColumns(params);
-      return formatMcpResponse(columns, `Found ${columns.length} columns for board ${params.boardId}`);
+      return formatMcpResponse({ columns, count: columns.length }, `Found ${columns.length} columns for board ${params.boardId}`);
     } catch (error) {
       console.error('Error in getBoardColumns tool:', error);
       return formatErrorResponse(error);
@@ -73,13 +76,26 @@ export class BoardsSprintsTools {
     }
   }
 
+  /**
+   * Preview moving a card without moving it
+   */
+  public async planMoveCardOnBoard(params: MoveCardOnBoardParams): Promise<McpResponse> {
+    try {
+      const plan = await this.boardsSprintsService.planMoveCardOnBoard(params);
+      return formatPlanResponse(plan);
+    } catch (error) {
+      console.error('Error in moveCardOnBoard dry run:', error);
+      return formatErrorResponse(error);
+    }
+  }
+
   /**
    * Get all sprints
    */
   public async getSprints(params: GetSprintsParams): Promise<McpResponse> {
     try {
       const sprints = await this.boardsSprintsService.getSprints(params);
-      return formatMcpResponse(sprints, `Found ${sprints.length} sprints`);
+      return formatMcpResponse({ sprints, count: sprints.length }, `Found ${sprints.length} sprints`);
     } catch (error) {
       console.error('Error in getSprints tool:', error);
       return formatErrorResponse(error);
@@ -92,7 +108,7 @@ export class BoardsSprintsTools {
   public async getCurrentSprint(params: GetCurrentSprintParams): Promise<McpResponse> {
     try {
       const sprint = await this.boardsSprintsService.getCurrentSprint(params);
-      return formatMcpResponse(sprint, sprint ? `Current sprint: ${sprint.name}` : 'No current sprint found');
+      return formatMcpResponse({ sprint }, sprint ? `Current sprint: ${sprint.name}` : 'No current sprint found');
     } catch (error) {
       console.error('Error in getCurrentSprint tool:', error);
       return formatErrorResponse(error);
@@ -105,7 +121,7 @@ export class BoardsSprintsTools {
   public async getSprintWorkItems(params: GetSprintWorkItemsParams): Promise<McpResponse> {
     try {
       const workItems = await this.boardsSprintsService.getSprintWorkItems(params);
-      return formatMcpResponse(workItems, `Found ${workItems.workItems?.length || 0} work items in sprint ${params.sprintId}`);
+      return formatMcpResponse(workItems, `Found ${workItems.workItemRelations?.length || 0} work items in sprint ${params.sprintId}`);
     } catch (error) {
       console.error('Error in getSprintWorkItems tool:', error);
       return formatErrorResponse(error);
@@ -131,7 +147,7 @@ export class BoardsSprintsTools {
   public async getTeamMembers(params: GetTeamMembersParams): Promise<McpResponse> {
     try {
       const members = await this.boardsSprintsService.getTeamMembers(params);
-      return formatMcpResponse(members, `Found ${members.length} team members`);
+      return formatMcpResponse(members, `Retrieved team ${members.team?.name}`);
     } catch (error) {
       console.error('Error in getTeamMembers tool:', error);
       return formatErrorResponse(error);
@@ -139,4 +155,107 @@ export class BoardsSprintsTools {
   }
 }
 
-export const BoardsSprintsToolMethods = getClassMethods(BoardsSprintsTools.prototype);
\ No newline at end of file
+/**
+ * Definitions of the boards and sprints tools, registered with the MCP server in `index.ts`
+ */
+export const BoardsSprintsToolDefinitions: ToolDefinition<BoardsSprintsTools>[] = [
+  defineTool({
+    name: "getBoards",
+    description: "Get all boards for a team",
+    access: 'read',
+    schema: {
+      teamId: z.string().optional().describe("Team ID (uses default team if not specified)")
+    },
+    output: { boards: z.array(boardSchema), count: z.number() },
+    handler: (tools: BoardsSprintsTools, params) => tools.getBoards(params)
+  }),
+  defineTool({
+    name: "getBoardColumns",
+    description: "Get columns for a specific board",
+    access: 'read',
+    schema: {
+      teamId: z.string().optional().describe("Team ID (uses default team if not specified)"),
+      boardId: z.string().describe("ID of the board")
+    },
+    output: { columns: z.array(boardColumnSchema), count: z.number() },
+    handler: (tools: BoardsSprintsTools, params) => tools.getBoardColumns(params)
+  }),
+  defineTool({
+    name: "getBoardItems",
+    description: "Get items on a specific board",
+    access: 'read',
+    schema: {
+      teamId: z.string().optional().describe("Team ID (uses default team if not specified)"),
+      boardId: z.string().describe("ID of the board")
+    },
+    output: { board: z.any(), columns: z.array(boardColumnSchema) },
+    handler: (tools: BoardsSprintsTools, params) => tools.getBoardItems(params)
+  }),
+  defineTool({
+    name: "moveCardOnBoard",
+    description: "Move a card on a board",
+    access: 'write',
+    schema: {
+      teamId: z.string().optional().describe("Team ID (uses default team if not specified)"),
+      boardId: z.string().describe("ID of the board"),
+      workItemId: z.number().describe("ID of the work item to move"),
+      columnId: z.string().describe("ID of the column to move to"),
+      position: z.number().optional().describe("Position within the column")
+    },
+    output: { id: z.number(), fields: z.record(z.any()) },
+    handler: (tools: BoardsSprintsTools, params) => tools.moveCardOnBoard(params),
+    plan: (tools: BoardsSprintsTools, params) => tools.planMoveCardOnBoard(params)
+  }),
+  defineTool({
+    name: "getSprints",
+    description: "Get all sprints for a team",
+    access: 'read',
+    schema: {
+      teamId: z.string().optional().describe("Team ID (uses default team if not specified)")
+    },
+    output: { sprints: z.array(sprintSchema), count: z.number() },
+    handler: (tools: BoardsSprintsTools, params) => tools.getSprints(params)
+  }),
+  defineTool({
+    name: "getCurrentSprint",
+    description: "Get the current sprint",
+    access: 'read',
+    schema: {
+      teamId: z.string().optional().describe("Team ID (uses default team if not specified)")
+    },
+    output: { sprint: sprintSchema.nullable().optional() },
+    handler: (tools: BoardsSprintsTools, params) => tools.getCurrentSprint(params)
+  }),
+  defineTool({
+    name: "getSprintWorkItems",
+    description: "Get work items in a specific sprint",
+    access: 'read',
+    schema: {
+      teamId: z.string().optional().describe("Team ID (uses default team if not specified)"),
+      sprintId: z.string().describe("ID of the sprint")
+    },
+    output: { workItemRelations: z.array(z.any()).optional(), url: z.string().optional() },
+    handler: (tools: BoardsSprintsTools, params) => tools.getSprintWorkItems(params)
+  }),
+  defineTool({
+    name: "getSprintCapacity",
+    description: "Get capacity for a specific sprint",
+    access: 'read',
+    schema: {
+      teamId: z.string().optional().describe("Team ID (uses default team if not specified)"),
+      sprintId: z.string().describe("ID of the sprint")
+    },
+    output: { teamSettings: z.any(), sprintId: z.string(), message: z.string() },
+    handler: (tools: BoardsSprintsTools, params) => tools.getSprintCapacity(params)
+  }),
+  defineTool({
+    name: "getTeamMembers",
+    description: "Get members of a team",
+    access: 'read',
+    schema: {
+      teamId: z.string().optional().describe("Team ID (uses default team if not specified)")
+    },
+    output: { team: teamSchema, message: z.string() },
+    handler: (tools: BoardsSprintsTools, params) => tools.getTeamMembers(params)
+  })
+];
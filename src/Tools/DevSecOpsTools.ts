@@ -16,7 +16,23 @@ import {
   AuditSecretUsageParams,
   VaultIntegrationParams
 } from "../Interfaces/DevSecOps";
-import getClassMethods from "../utils/getClassMethods";
+import { defineTool, ToolDefinition } from '../Interfaces/ToolDefinition';
+import {
+  complianceChecksShape,
+  complianceReportShape,
+  complianceStatusShape,
+  sarifImportShape,
+  secretRotationShape,
+  secretUsageShape,
+  securityAwarenessShape,
+  securityComplianceShape,
+  securityPolicyShape,
+  securityScanResultsShape,
+  securityScanShape,
+  securityVulnerabilitiesShape,
+  vaultOperationShape
+} from '../Interfaces/OutputSchemas';
+import { z } from 'zod';
 
 export class DevSecOpsTools {
   private service: DevSecOpsService;
@@ -156,4 +172,158 @@ export class DevSecOpsTools {
   }
 }
 
-export const DevSecOpsToolMethods = getClassMethods(DevSecOpsTools.prototype);
\ No newline at end of file
+/**
+ * Definitions of the DevSecOps tools, registered with the MCP server in `index.ts`
+ */
+export const DevSecOpsToolDefinitions: ToolDefinition<DevSecOpsTools>[] = [
+  defineTool({
+    name: "runSecurityScan",
+    description: "Run security scans on repositories",
+    access: 'write',
+    schema: {
+      repositoryId: z.string().describe("ID of the repository to scan"),
+      branch: z.string().optional().describe("Branch to scan"),
+      scanType: z.enum(['static', 'dynamic', 'container', 'dependency', 'all']).optional().describe("Type of security scan to run")
+    },
+    output: securityScanShape,
+    handler: (tools: DevSecOpsTools, params) => tools.runSecurityScan(params)
+  }),
+  defineTool({
+    name: "getSecurityScanResults",
+    description: "Get results from security scans",
+    access: 'read',
+    schema: {
+      scanId: z.string().describe("ID of the scan to get results for"),
+      severity: z.enum(['critical', 'high', 'medium', 'low', 'all']).optional().describe("Filter results by severity")
+    },
+    output: securityScanResultsShape,
+    handler: (tools: DevSecOpsTools, params) => tools.getSecurityScanResults(params)
+  }),
+  defineTool({
+    name: "trackSecurityVulnerabilities",
+    description: "Track and manage security vulnerabilities",
+    access: 'read',
+    schema: {
+      vulnerabilityId: z.string().optional().describe("ID of a specific vulnerability to track"),
+      status: z.enum(['open', 'in-progress', 'mitigated', 'resolved', 'false-positive']).optional().describe("Filter by vulnerability status"),
+      timeRange: z.string().optional().describe("Time range for tracking (e.g., '90d')")
+    },
+    output: securityVulnerabilitiesShape,
+    handler: (tools: DevSecOpsTools, params) => tools.trackSecurityVulnerabilities(params)
+  }),
+  defineTool({
+    name: "generateSecurityCompliance",
+    description: "Generate security compliance reports",
+    access: 'read',
+    schema: {
+      standardType: z.enum(['owasp', 'pci-dss', 'hipaa', 'gdpr', 'iso27001', 'custom']).optional().describe("Compliance standard to report on"),
+      includeEvidence: z.boolean().optional().describe("Include evidence in the report")
+    },
+    output: securityComplianceShape,
+    handler: (tools: DevSecOpsTools, params) => tools.generateSecurityCompliance(params)
+  }),
+  defineTool({
+    name: "integrateSarifResults",
+    description: "Import and process SARIF format security results",
+    access: 'write',
+    schema: {
+      sarifFilePath: z.string().describe("Path to the SARIF file to import"),
+      createWorkItems: z.boolean().optional().describe("Create work items from findings")
+    },
+    output: sarifImportShape,
+    handler: (tools: DevSecOpsTools, params) => tools.integrateSarifResults(params)
+  }),
+  defineTool({
+    name: "runComplianceChecks",
+    description: "Run compliance checks against standards",
+    access: 'read',
+    schema: {
+      complianceStandard: z.string().describe("Compliance standard to check against"),
+      scopeId: z.string().optional().describe("Scope of the compliance check")
+    },
+    output: complianceChecksShape,
+    handler: (tools: DevSecOpsTools, params) => tools.runComplianceChecks(params)
+  }),
+  defineTool({
+    name: "getComplianceStatus",
+    description: "Get current compliance status",
+    access: 'read',
+    schema: {
+      standardId: z.string().optional().describe("ID of the compliance standard"),
+      includeHistory: z.boolean().optional().describe("Include historical compliance data")
+    },
+    output: complianceStatusShape,
+    handler: (tools: DevSecOpsTools, params) => tools.getComplianceStatus(params)
+  }),
+  defineTool({
+    name: "createComplianceReport",
+    description: "Create compliance reports for auditing",
+    access: 'write',
+    schema: {
+      standardId: z.string().describe("ID of the compliance standard"),
+      format: z.enum(['pdf', 'html', 'json']).optional().describe("Format of the report")
+    },
+    output: complianceReportShape,
+    handler: (tools: DevSecOpsTools, params) => tools.createComplianceReport(params)
+  }),
+  defineTool({
+    name: "manageSecurityPolicies",
+    description: "Manage security policies",
+    access: 'destructive',
+    schema: {
+      policyName: z.string().describe("Name of the security policy"),
+      action: z.enum(['create', 'update', 'delete', 'get']).describe("Action to perform on the policy"),
+      policyDefinition: z.record(z.any()).optional().describe("Definition of the policy")
+    },
+    output: securityPolicyShape,
+    handler: (tools: DevSecOpsTools, params) => tools.manageSecurityPolicies(params)
+  }),
+  defineTool({
+    name: "trackSecurityAwareness",
+    description: "Track security awareness and training",
+    access: 'read',
+    schema: {
+      teamId: z.string().optional().describe("ID of the team to track"),
+      trainingId: z.string().optional().describe("ID of specific training to track"),
+      timeRange: z.string().optional().describe("Time range for tracking (e.g., '90d')")
+    },
+    output: securityAwarenessShape,
+    handler: (tools: DevSecOpsTools, params) => tools.trackSecurityAwareness(params)
+  }),
+  defineTool({
+    name: "rotateSecrets",
+    description: "Rotate secrets and credentials",
+    access: 'destructive',
+    schema: {
+      secretName: z.string().optional().describe("Name of the secret to rotate"),
+      secretType: z.enum(['password', 'token', 'certificate', 'key']).optional().describe("Type of secret to rotate"),
+      force: z.boolean().optional().describe("Force rotation even if not expired")
+    },
+    output: secretRotationShape,
+    handler: (tools: DevSecOpsTools, params) => tools.rotateSecrets(params)
+  }),
+  defineTool({
+    name: "auditSecretUsage",
+    description: "Audit usage of secrets across services",
+    access: 'read',
+    schema: {
+      secretName: z.string().optional().describe("Name of the secret to audit"),
+      timeRange: z.string().optional().describe("Time range for the audit (e.g., '30d')")
+    },
+    output: secretUsageShape,
+    handler: (tools: DevSecOpsTools, params) => tools.auditSecretUsage(params)
+  }),
+  defineTool({
+    name: "vaultIntegration",
+    description: "Integrate with secret vaults",
+    access: 'write',
+    schema: {
+      vaultUrl: z.string().describe("URL of the vault to integrate with"),
+      secretPath: z.string().optional().describe("Path to the secret in the vault"),
+      action: z.enum(['get', 'list', 'set', 'delete']).describe("Action to perform"),
+      secretValue: z.string().optional().describe("Value to set (for 'set' action)")
+    },
+    output: vaultOperationShape,
+    handler: (tools: DevSecOpsTools, params) => tools.vaultIntegration(params)
+  })
+];
@@ -0,0 +1,80 @@
+import { z } from 'zod';
+import { AzureDevOpsConfig } from '../Interfaces/AzureDevOps';
+import { DiagnosticsService, formatDiagnosticReport } from '../Services/DiagnosticsService';
+import { metrics } from '../Services/MetricsCollector';
+import { formatMcpResponse, formatErrorResponse, McpResponse } from '../Interfaces/Common';
+import { defineTool, ToolDefinition } from '../Interfaces/ToolDefinition';
+import { diagnosticCheckSchema, toolMetricsSchema } from '../Interfaces/OutputSchemas';
+
+export class DiagnosticsTools {
+  private diagnosticsService: DiagnosticsService;
+
+  constructor(config: AzureDevOpsConfig) {
+    this.diagnosticsService = new DiagnosticsService(config);
+  }
+
+  /**
+   * Diagnose the Azure DevOps connection
+   */
+  public async diagnoseConnection(): Promise<McpResponse> {
+    try {
+      const report = await this.diagnosticsService.diagnose();
+      return formatMcpResponse(report, formatDiagnosticReport(report));
+    } catch (error) {
+      console.error('Error in diagnoseConnection tool:', error);
+      return formatErrorResponse(error);
+    }
+  }
+
+  /**
+   * Get call counts, latency and errors of every tool, and Azure DevOps request counts
+   */
+  public async getServerMetrics(): Promise<McpResponse> {
+    try {
+      const snapshot = metrics.getMetrics();
+      const calls = snapshot.tools.reduce((sum, tool) => sum + tool.calls, 0);
+      return formatMcpResponse(snapshot, `${calls} tool calls across ${snapshot.tools.length} tools and ${snapshot.upstream.requests} Azure DevOps requests in ${snapshot.uptimeSeconds}s`);
+    } catch (error) {
+      console.error('Error in getServerMetrics tool:', error);
+      return formatErrorResponse(error);
+    }
+  }
+}
+
+/**
+ * Definitions of the diagnostics tools, registered with the MCP server in `index.ts`
+ */
+export const DiagnosticsToolDefinitions: ToolDefinition<DiagnosticsTools>[] = [
+  defineTool({
+    name: "diagnoseConnection",
+    description: "Check the organization URL, authentication, project, server API version and PAT scopes of each tool group, with hints to fix failures",
+    access: 'read',
+    schema: {},
+    output: {
+      orgUrl: z.string(),
+      project: z.string(),
+      authType: z.string(),
+      isOnPremises: z.boolean(),
+      healthy: z.boolean(),
+      checks: z.array(diagnosticCheckSchema)
+    },
+    handler: (tools: DiagnosticsTools) => tools.diagnoseConnection()
+  }),
+  defineTool({
+    name: "getServerMetrics",
+    description: "Get call counts, p50/p95 latency and errors by error code of each tool since the server started, and counts of the requests sent to Azure DevOps",
+    access: 'read',
+    schema: {},
+    output: {
+      startedAt: z.string(),
+      uptimeSeconds: z.number(),
+      tools: z.array(toolMetricsSchema),
+      upstream: z.object({
+        requests: z.number(),
+        retries: z.number(),
+        byStatus: z.record(z.number())
+      })
+    },
+    handler: (tools: DiagnosticsTools) => tools.getServerMetrics()
+  })
+];
@@ -1,6 +1,7 @@
 import { AzureDevOpsConfig } from '../Interfaces/AzureDevOps';
 import { GitService } from '../Services/GitService';
 import { formatMcpResponse, formatErrorResponse, McpResponse } from '../Interfaces/Common';
+import { formatPlanResponse } from '../Interfaces/DryRun';
 import {
   ListRepositoriesParams,
   GetRepositoryParams,
@@ -18,7 +19,20 @@ import {
   MergePullRequestParams,
   AddPullRequestCommentParams
 } from '../Interfaces/CodeAndRepositories';
-import getClassMethods from "../utils/getClassMethods";
+import { defineTool, ToolDefinition } from '../Interfaces/ToolDefinition';
+import { z } from 'zod';
+import {
+  branchSchema,
+  commentThreadSchema,
+  commitSchema,
+  gitItemSchema,
+  pullRequestCommentSchema,
+  pullRequestSchema,
+  repositorySchema,
+  responsePageShape,
+  reviewerSchema
+} from '../Interfaces/OutputSchemas';
+import { formatBudgetedResponse, responseBudgetSchema } from '../Interfaces/ResponseBudget';
 
 export class GitTools {
   private gitService: GitService;
@@ -33,7 +47,7 @@ export class GitTools {
   public async listRepositories(params: ListRepositoriesParams): Promise<McpResponse> {
     try {
       const repositories = await this.gitService.listRepositories(params);
-      return formatMcpResponse(repositories, `Found ${repositories.length} repositories`);
+      return formatBudgetedResponse('listRepositories', params, { repositories, count: repositories.length }, 'repositories', `Found ${repositories.length} repositories`);
     } catch (error) {
       console.error('Error in listRepositories tool:', error);
       return formatErrorResponse(error);
@@ -46,7 +60,7 @@ export class GitTools {
   public async getRepository(params: GetRepositoryParams): Promise<McpResponse> {
     try {
       const repository = await this.gitService.getRepository(params);
-      return formatMcpResponse(repository, `Repository details for ${repository.name}`);
+      return formatMcpResponse({ repository }, `Repository details for ${repository.name}`);
     } catch (error) {
       console.error('Error in getRepository tool:', error);
       return formatErrorResponse(error);
@@ -59,7 +73,7 @@ export class GitTools {
   public async createRepository(params: CreateRepositoryParams): Promise<McpResponse> {
     try {
       const repository = await this.gitService.createRepository(params);
-      return formatMcpResponse(repository, `Created repository: ${repository.name}`);
+      return formatMcpResponse({ repository }, `Created repository: ${repository.name}`);
     } catch (error) {
       console.error('Error in createRepository tool:', error);
       return formatErrorResponse(error);
@@ -72,7 +86,7 @@ export class GitTools {
   public async listBranches(params: ListBranchesParams): Promise<McpResponse> {
     try {
       const branches = await this.gitService.listBranches(params);
-      return formatMcpResponse(branches, `Found ${branches.length} branches`);
+      return formatMcpResponse({ branches, count: branches.length }, `Found ${branches.length} branches`);
     } catch (error) {
       console.error('Error in listBranches tool:', error);
       return formatErrorResponse(error);
@@ -85,7 +99,7 @@ export class GitTools {
   public async searchCode(params: SearchCodeParams): Promise<McpResponse> {
     try {
       const items = await this.gitService.searchCode(params);
-      return formatMcpResponse(items, `Found ${items.length} matching files`);
+      return formatMcpResponse({ items, count: items.length }, `Found ${items.length} matching files`);
     } catch (error) {
       console.error('Error in searchCode tool:', error);
       return formatErrorResponse(error);
@@ -98,7 +112,7 @@ export class GitTools {
   public async browseRepository(params: BrowseRepositoryParams): Promise<McpResponse> {
     try {
       const items = await this.gitService.browseRepository(params);
-      return formatMcpResponse(items, `Found ${items.length} items in repository`);
+      return formatBudgetedResponse('browseRepository', params, { items, count: items.length }, 'items', `Found ${items.length} items in repository`);
     } catch (error) {
       console.error('Error in browseRepository tool:', error);
       return formatErrorResponse(error);
@@ -111,7 +125,7 @@ export class GitTools {
   public async getFileContent(params: GetFileContentParams): Promise<McpResponse> {
     try {
       const file = await this.gitService.getFileContent(params);
-      return formatMcpResponse(file, `Content of file: ${params.path}`);
+      return formatBudgetedResponse('getFileContent', params, file, 'content', `Content of file: ${params.path}`);
     } catch (error) {
       console.error('Error in getFileContent tool:', error);
       return formatErrorResponse(error);
@@ -124,7 +138,7 @@ export class GitTools {
   public async getCommitHistory(params: GetCommitHistoryParams): Promise<McpResponse> {
     try {
       const commits = await this.gitService.getCommitHistory(params);
-      return formatMcpResponse(commits, `Found ${commits.length} commits`);
+      return formatMcpResponse({ commits, count: commits.length }, `Found ${commits.length} commits`);
     } catch (error) {
       console.error('Error in getCommitHistory tool:', error);
       return formatErrorResponse(error);
@@ -137,7 +151,7 @@ export class GitTools {
   public async listPullRequests(params: ListPullRequestsParams): Promise<McpResponse> {
     try {
       const pullRequests = await this.gitService.getPullRequests(params);
-      return formatMcpResponse(pullRequests, `Found ${pullRequests.length} pull requests`);
+      return formatMcpResponse({ pullRequests, count: pullRequests.length }, `Found ${pullRequests.length} pull requests`);
     } catch (error) {
       console.error('Error in listPullRequests tool:', error);
       return formatErrorResponse(error);
@@ -150,7 +164,7 @@ export class GitTools {
   public async createPullRequest(params: CreatePullRequestParams): Promise<McpResponse> {
     try {
       const pullRequest = await this.gitService.createPullRequest(params);
-      return formatMcpResponse(pullRequest, `Created pull request: ${pullRequest.pullRequestId}`);
+      return formatMcpResponse({ pullRequest }, `Created pull request: ${pullRequest.pullRequestId}`);
     } catch (error) {
       console.error('Error in createPullRequest tool:', error);
       return formatErrorResponse(error);
@@ -163,7 +177,7 @@ export class GitTools {
   public async getPullRequest(params: GetPullRequestParams): Promise<McpResponse> {
     try {
       const pullRequest = await this.gitService.getPullRequest(params);
-      return formatMcpResponse(pullRequest, `Pull request ${params.pullRequestId} details`);
+      return formatMcpResponse({ pullRequest }, `Pull request ${params.pullRequestId}: ${pullRequest.title}`);
     } catch (error) {
       console.error('Error in getPullRequest tool:', error);
       return formatErrorResponse(error);
@@ -176,7 +190,8 @@ export class GitTools {
   public async getPullRequestComments(params: GetPullRequestCommentsParams): Promise<McpResponse> {
     try {
       const comments = await this.gitService.getPullRequestComments(params);
-      return formatMcpResponse(comments, `Retrieved comments for pull request ${params.pullRequestId}`);
+      const threads = Array.isArray(comments) ? comments : [comments];
+      return formatBudgetedResponse('getPullRequestComments', params, { threads, count: threads.length }, 'threads', `Retrieved ${threads.length} comment threads for pull request ${params.pullRequestId}`);
     } catch (error) {
       console.error('Error in getPullRequestComments tool:', error);
       return formatErrorResponse(error);
@@ -189,7 +204,7 @@ export class GitTools {
   public async approvePullRequest(params: ApprovePullRequestParams): Promise<McpResponse> {
     try {
       const result = await this.gitService.approvePullRequest(params);
-      return formatMcpResponse(result, `Approved pull request ${params.pullRequestId}`);
+      return formatMcpResponse({ reviewer: result }, `Approved pull request ${params.pullRequestId}`);
     } catch (error) {
       console.error('Error in approvePullRequest tool:', error);
       return formatErrorResponse(error);
@@ -202,7 +217,7 @@ export class GitTools {
   public async mergePullRequest(params: MergePullRequestParams): Promise<McpResponse> {
     try {
       const result = await this.gitService.mergePullRequest(params);
-      return formatMcpResponse(result, `Merged pull request ${params.pullRequestId}`);
+      return formatMcpResponse({ pullRequest: result }, `Merged pull request ${params.pullRequestId}`);
     } catch (error) {
       console.error('Error in mergePullRequest tool:', error);
       return formatErrorResponse(error);
@@ -218,12 +233,290 @@ export class GitTools {
       const message = params.threadId 
         ? `Added comment to thread ${params.threadId} in pull request ${params.pullRequestId}`
         : `Created new comment thread in pull request ${params.pullRequestId}`;
-      return formatMcpResponse(result, message);
+      return formatMcpResponse(params.threadId ? { comment: result } : { thread: result }, message);
     } catch (error) {
       console.error('Error in addPullRequestComment tool:', error);
       return formatErrorResponse(error);
     }
   }
+
+  /**
+   * Preview creating a repository without creating it
+   */
+  public async planCreateRepository(params: CreateRepositoryParams): Promise<McpResponse> {
+    try {
+      const plan = await this.gitService.planCreateRepository(params);
+      return formatPlanResponse(plan);
+    } catch (error) {
+      console.error('Error in createRepository dry run:', error);
+      return formatErrorResponse(error);
+    }
+  }
+
+  /**
+   * Preview creating a pull request without applying it
+   */
+  public async planCreatePullRequest(params: CreatePullRequestParams): Promise<McpResponse> {
+    try {
+      const plan = await this.gitService.planCreatePullRequest(params);
+      return formatPlanResponse(plan);
+    } catch (error) {
+      console.error('Error in createPullRequest dry run:', error);
+      return formatErrorResponse(error);
+    }
+  }
+
+  /**
+   * Preview approving a pull request without applying it
+   */
+  public async planApprovePullRequest(params: ApprovePullRequestParams): Promise<McpResponse> {
+    try {
+      const plan = await this.gitService.planApprovePullRequest(params);
+      return formatPlanResponse(plan);
+    } catch (error) {
+      console.error('Error in approvePullRequest dry run:', error);
+      return formatErrorResponse(error);
+    }
+  }
+
+  /**
+   * Preview merging a pull request without applying it
+   */
+  public async planMergePullRequest(params: MergePullRequestParams): Promise<McpResponse> {
+    try {
+      const plan = await this.gitService.planMergePullRequest(params);
+      return formatPlanResponse(plan);
+    } catch (error) {
+      console.error('Error in mergePullRequest dry run:', error);
+      return formatErrorResponse(error);
+    }
+  }
+
+  /**
+   * Preview a pull request comment without applying it
+   */
+  public async planAddPullRequestComment(params: AddPullRequestCommentParams): Promise<McpResponse> {
+    try {
+      const plan = await this.gitService.planAddPullRequestComment(params);
+      return formatPlanResponse(plan);
+    } catch (error) {
+      console.error('Error in addPullRequestComment dry run:', error);
+      return formatErrorResponse(error);
+    }
+  }
 }
 
-export const GitToolMethods = getClassMethods(GitTools.prototype);
\ No newline at end of file
+/**
+ * Definitions of the Git tools, registered with the MCP server in `index.ts`
+ */
+export const GitToolDefinitions: ToolDefinition<GitTools>[] = [
+  defineTool({
+    name: "listRepositories",
+    description: "List all repositories",
+    access: 'read',
+    schema: {
+      projectId: z.string().optional().describe("Filter by project"),
+      includeHidden: z.boolean().optional().describe("Include hidden repositories"),
+      includeAllUrls: z.boolean().optional().describe("Include all URLs"),
+      ...responseBudgetSchema
+    },
+    output: { repositories: z.array(repositorySchema), count: z.number(), ...responsePageShape },
+    handler: (tools: GitTools, params) => tools.listRepositories(params)
+  }),
+  defineTool({
+    name: "getRepository",
+    description: "Get details of a specific repository",
+    access: 'read',
+    schema: {
+      projectId: z.string().describe("ID of the project"),
+      repositoryId: z.string().describe("ID of the repository")
+    },
+    output: { repository: repositorySchema },
+    handler: (tools: GitTools, params) => tools.getRepository(params)
+  }),
+  defineTool({
+    name: "createRepository",
+    description: "Create a new repository",
+    access: 'write',
+    schema: {
+      name: z.string().describe("Name of the repository"),
+      projectId: z.string().describe("ID of the project")
+    },
+    output: { repository: repositorySchema },
+    handler: (tools: GitTools, params) => tools.createRepository(params),
+    plan: (tools: GitTools, params) => tools.planCreateRepository(params)
+  }),
+  defineTool({
+    name: "listBranches",
+    description: "List branches in a repository",
+    access: 'read',
+    schema: {
+      repositoryId: z.string().describe("ID of the repository"),
+      filter: z.string().optional().describe("Filter branches by name"),
+      top: z.number().optional().describe("Maximum number of branches to return")
+    },
+    output: { branches: z.array(branchSchema), count: z.number() },
+    handler: (tools: GitTools, params) => tools.listBranches(params)
+  }),
+  defineTool({
+    name: "searchCode",
+    description: "Search for code in repositories",
+    access: 'read',
+    schema: {
+      searchText: z.string().describe("Text to search for"),
+      projectId: z.string().optional().describe("ID of the project"),
+      repositoryId: z.string().optional().describe("ID of the repository"),
+      fileExtension: z.string().optional().describe("File extension to filter by"),
+      top: z.number().optional().describe("Maximum number of results to return")
+    },
+    output: { items: z.array(gitItemSchema), count: z.number() },
+    handler: (tools: GitTools, params) => tools.searchCode(params)
+  }),
+  defineTool({
+    name: "browseRepository",
+    description: "Browse the contents of a repository",
+    access: 'read',
+    schema: {
+      repositoryId: z.string().describe("ID of the repository"),
+      path: z.string().optional().describe("Path within the repository"),
+      recursive: z.boolean().optional().describe("Include everything below the path, not just the path itself"),
+      versionDescriptor: z.object({
+        version: z.string().optional().describe("Version (branch, tag, or commit)"),
+        versionOptions: z.string().optional().describe("Version options"),
+        versionType: z.string().optional().describe("Version type")
+      }).optional().describe("Version descriptor"),
+      ...responseBudgetSchema
+    },
+    output: { items: z.array(gitItemSchema), count: z.number(), ...responsePageShape },
+    handler: (tools: GitTools, params) => tools.browseRepository(params)
+  }),
+  defineTool({
+    name: "getFileContent",
+    description: "Get the content of a file",
+    access: 'read',
+    schema: {
+      repositoryId: z.string().describe("ID of the repository"),
+      path: z.string().describe("Path to the file"),
+      versionDescriptor: z.object({
+        version: z.string().optional().describe("Version (branch, tag, or commit)"),
+        versionOptions: z.string().optional().describe("Version options"),
+        versionType: z.string().optional().describe("Version type")
+      }).optional().describe("Version descriptor"),
+      ...responseBudgetSchema
+    },
+    output: { content: z.string(), ...responsePageShape },
+    handler: (tools: GitTools, params) => tools.getFileContent(params)
+  }),
+  defineTool({
+    name: "getCommitHistory",
+    description: "Get commit history for a repository",
+    access: 'read',
+    schema: {
+      repositoryId: z.string().describe("ID of the repository"),
+      itemPath: z.string().optional().describe("Path to filter commits by"),
+      top: z.number().optional().describe("Maximum number of commits to return"),
+      skip: z.number().optional().describe("Number of commits to skip")
+    },
+    output: { commits: z.array(commitSchema), count: z.number() },
+    handler: (tools: GitTools, params) => tools.getCommitHistory(params)
+  }),
+  defineTool({
+    name: "listPullRequests",
+    description: "List pull requests",
+    access: 'read',
+    schema: {
+      repositoryId: z.string().describe("ID of the repository"),
+      status: z.enum(['abandoned', 'active', 'all', 'completed', 'notSet']).optional().describe("Filter by status"),
+      creatorId: z.string().optional().describe("Filter by creator"),
+      reviewerId: z.string().optional().describe("Filter by reviewer"),
+      top: z.number().optional().describe("Maximum number of pull requests to return"),
+      skip: z.number().optional().describe("Number of pull requests to skip")
+    },
+    output: { pullRequests: z.array(pullRequestSchema), count: z.number() },
+    handler: (tools: GitTools, params) => tools.listPullRequests(params)
+  }),
+  defineTool({
+    name: "createPullRequest",
+    description: "Create a new pull request",
+    access: 'write',
+    schema: {
+      repositoryId: z.string().describe("ID of the repository"),
+      sourceRefName: z.string().describe("Source branch"),
+      targetRefName: z.string().describe("Target branch"),
+      title: z.string().describe("Title of the pull request"),
+      description: z.string().optional().describe("Description of the pull request"),
+      reviewers: z.array(z.string()).optional().describe("List of reviewers")
+    },
+    output: { pullRequest: pullRequestSchema },
+    handler: (tools: GitTools, params) => tools.createPullRequest(params),
+    plan: (tools: GitTools, params) => tools.planCreatePullRequest(params)
+  }),
+  defineTool({
+    name: "getPullRequest",
+    description: "Get details of a specific pull request",
+    access: 'read',
+    schema: {
+      repositoryId: z.string().describe("ID of the repository"),
+      pullRequestId: z.number().describe("ID of the pull request")
+    },
+    output: { pullRequest: pullRequestSchema },
+    handler: (tools: GitTools, params) => tools.getPullRequest(params)
+  }),
+  defineTool({
+    name: "getPullRequestComments",
+    description: "Get comments on a pull request",
+    access: 'read',
+    schema: {
+      repositoryId: z.string().describe("ID of the repository"),
+      pullRequestId: z.number().describe("ID of the pull request"),
+      threadId: z.number().optional().describe("ID of a specific thread"),
+      top: z.number().optional().describe("Maximum number of comments to return"),
+      skip: z.number().optional().describe("Number of comments to skip"),
+      ...responseBudgetSchema
+    },
+    output: { threads: z.array(commentThreadSchema), count: z.number(), ...responsePageShape },
+    handler: (tools: GitTools, params) => tools.getPullRequestComments(params)
+  }),
+  defineTool({
+    name: "approvePullRequest",
+    description: "Approve a pull request",
+    access: 'write',
+    schema: {
+      repositoryId: z.string().describe("ID of the repository"),
+      pullRequestId: z.number().describe("ID of the pull request")
+    },
+    output: { reviewer: reviewerSchema },
+    handler: (tools: GitTools, params) => tools.approvePullRequest(params),
+    plan: (tools: GitTools, params) => tools.planApprovePullRequest(params)
+  }),
+  defineTool({
+    name: "mergePullRequest",
+    description: "Merge a pull request",
+    access: 'destructive',
+    schema: {
+      repositoryId: z.string().describe("ID of the repository"),
+      pullRequestId: z.number().describe("ID of the pull request"),
+      mergeStrategy: z.enum(['noFastForward', 'rebase', 'rebaseMerge', 'squash']).optional().describe("Merge strategy"),
+      comment: z.string().optional().describe("Comment for the merge commit")
+    },
+    output: { pullRequest: pullRequestSchema },
+    handler: (tools: GitTools, params) => tools.mergePullRequest(params),
+    plan: (tools: GitTools, params) => tools.planMergePullRequest(params)
+  }),
+  defineTool({
+    name: "addPullRequestComment",
+    description: "Add a comment to a pull request",
+    access: 'write',
+    schema: {
+      repositoryId: z.string().describe("ID of the repository"),
+      pullRequestId: z.number().describe("ID of the pull request"),
+      content: z.string().describe("Content of the comment"),
+      parentCommentId: z.number().optional().describe("ID of the parent comment for replies"),
+      threadId: z.number().optional().describe("ID of the thread to add comment to"),
+      filePath: z.string().optional().describe("File path for file-specific comments")
+    },
+    output: { comment: pullRequestCommentSchema, thread: commentThreadSchema },
+    handler: (tools: GitTools, params) => tools.addPullRequestComment(params),
+    plan: (tools: GitTools, params) => tools.planAddPullRequestComment(params)
+  })
+];
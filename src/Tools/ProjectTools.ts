@@ -11,9 +11,20 @@ import {
   CreateIterationParams,
   GetProcessesParams,
   GetWorkItemTypesParams,
-  GetWorkItemTypeFieldsParams
+  GetWorkItemTypeFieldsParams,
+  ClearCacheParams
 } from '../Interfaces/ProjectManagement';
-import getClassMethods from "../utils/getClassMethods";
+import { METADATA_ENTITIES } from '../Interfaces/Cache';
+import { defineTool, ToolDefinition } from '../Interfaces/ToolDefinition';
+import { formatPlanResponse } from '../Interfaces/DryRun';
+import { z } from 'zod';
+import {
+  classificationNodeShape,
+  operationReferenceSchema,
+  processSchema,
+  projectSchema,
+  workItemTypeSchema
+} from '../Interfaces/OutputSchemas';
 
 export class ProjectTools {
   private projectService: ProjectService;
@@ -28,7 +39,7 @@ export class ProjectTools {
   public async listProjects(params: ListProjectsParams): Promise<McpResponse> {
     try {
       const projects = await this.projectService.listProjects(params);
-      return formatMcpResponse(projects, `Found ${projects.length} projects`);
+      return formatMcpResponse({ projects, count: projects.length }, `Found ${projects.length} projects`);
     } catch (error) {
       console.error('Error in listProjects tool:', error);
       return formatErrorResponse(error);
@@ -41,7 +52,7 @@ export class ProjectTools {
   public async getProjectDetails(params: GetProjectDetailsParams): Promise<McpResponse> {
     try {
       const project = await this.projectService.getProjectDetails(params);
-      return formatMcpResponse(project, `Project details for ${project.name}`);
+      return formatMcpResponse({ project }, `Project details for ${project.name}`);
     } catch (error) {
       console.error('Error in getProjectDetails tool:', error);
       return formatErrorResponse(error);
@@ -53,14 +64,27 @@ export class ProjectTools {
    */
   public async createProject(params: CreateProjectParams): Promise<McpResponse> {
     try {
-      const project = await this.projectService.createProject(params);
-      return formatMcpResponse(project, `Project ${params.name} creation initiated`);
+      const operation = await this.projectService.createProject(params);
+      return formatMcpResponse({ operation }, `Project ${params.name} creation initiated (operation ${operation.id})`);
     } catch (error) {
       console.error('Error in createProject tool:', error);
       return formatErrorResponse(error);
     }
   }
 
+  /**
+   * Preview creating a project without queuing it
+   */
+  public async planCreateProject(params: CreateProjectParams): Promise<McpResponse> {
+    try {
+      const plan = await this.projectService.planCreateProject(params);
+      return formatPlanResponse(plan);
+    } catch (error) {
+      console.error('Error in createProject dry run:', error);
+      return formatErrorResponse(error);
+    }
+  }
+
   /**
    * Get areas
    */
@@ -100,6 +124,19 @@ export class ProjectTools {
     }
   }
 
+  /**
+   * Preview creating an area without creating it
+   */
+  public async planCreateArea(params: CreateAreaParams): Promise<McpResponse> {
+    try {
+      const plan = await this.projectService.planCreateArea(params);
+      return formatPlanResponse(plan);
+    } catch (error) {
+      console.error('Error in createArea dry run:', error);
+      return formatErrorResponse(error);
+    }
+  }
+
   /**
    * Create iteration
    */
@@ -113,13 +150,26 @@ export class ProjectTools {
     }
   }
 
+  /**
+   * Preview creating an iteration without creating it
+   */
+  public async planCreateIteration(params: CreateIterationParams): Promise<McpResponse> {
+    try {
+      const plan = await this.projectService.planCreateIteration(params);
+      return formatPlanResponse(plan);
+    } catch (error) {
+      console.error('Error in createIteration dry run:', error);
+      return formatErrorResponse(error);
+    }
+  }
+
   /**
    * Get processes
    */
   public async getProcesses(params: GetProcessesParams): Promise<McpResponse> {
     try {
       const processes = await this.projectService.getProcesses(params);
-      return formatMcpResponse(processes, `Retrieved ${processes.length} processes`);
+      return formatMcpResponse({ processes, count: processes.length }, `Retrieved ${processes.length} processes`);
     } catch (error) {
       console.error('Error in getProcesses tool:', error);
       return formatErrorResponse(error);
@@ -132,7 +182,7 @@ export class ProjectTools {
   public async getWorkItemTypes(params: GetWorkItemTypesParams): Promise<McpResponse> {
     try {
       const types = await this.projectService.getWorkItemTypes(params);
-      return formatMcpResponse(types, `Retrieved work item types for process ${params.processId}`);
+      return formatMcpResponse({ workItemTypes: types, count: types.length }, `Retrieved ${types.length} work item types for process ${params.processId}`);
     } catch (error) {
       console.error('Error in getWorkItemTypes tool:', error);
       return formatErrorResponse(error);
@@ -151,6 +201,153 @@ export class ProjectTools {
       return formatErrorResponse(error);
     }
   }
+
+  /**
+   * Clear the metadata cache
+   */
+  public async clearCache(params: ClearCacheParams): Promise<McpResponse> {
+    try {
+      const cleared = this.projectService.clearMetadataCache(params.entity);
+      return formatMcpResponse({ cleared, entity: params.entity || 'all' }, `Cleared ${cleared} cached ${params.entity || 'metadata'} entries`);
+    } catch (error) {
+      console.error('Error in clearCache tool:', error);
+      return formatErrorResponse(error);
+    }
+  }
 }
 
-export const ProjectToolMethods = getClassMethods(ProjectTools.prototype);
\ No newline at end of file
+/**
+ * Definitions of the project tools, registered with the MCP server in `index.ts`
+ */
+export const ProjectToolDefinitions: ToolDefinition<ProjectTools>[] = [
+  defineTool({
+    name: "listProjects",
+    description: "List all projects",
+    access: 'read',
+    schema: {
+      stateFilter: z.enum(['all', 'createPending', 'deleted', 'deleting', 'new', 'unchanged', 'wellFormed']).optional().describe("Filter by project state"),
+      top: z.number().optional().describe("Maximum number of projects to return"),
+      skip: z.number().optional().describe("Number of projects to skip")
+    },
+    output: { projects: z.array(projectSchema), count: z.number() },
+    handler: (tools: ProjectTools, params) => tools.listProjects(params)
+  }),
+  defineTool({
+    name: "getProjectDetails",
+    description: "Get details of a specific project",
+    access: 'read',
+    schema: {
+      projectId: z.string().describe("ID of the project"),
+      includeCapabilities: z.boolean().optional().describe("Include project capabilities"),
+      includeHistory: z.boolean().optional().describe("Include project history")
+    },
+    output: { project: projectSchema },
+    handler: (tools: ProjectTools, params) => tools.getProjectDetails(params)
+  }),
+  defineTool({
+    name: "createProject",
+    description: "Create a new project",
+    access: 'destructive',
+    schema: {
+      name: z.string().describe("Name of the project"),
+      description: z.string().optional().describe("Description of the project"),
+      visibility: z.enum(['private', 'public']).optional().describe("Visibility of the project"),
+      capabilities: z.record(z.any()).optional().describe("Project capabilities"),
+      processTemplateId: z.string().optional().describe("Process template ID")
+    },
+    output: { operation: operationReferenceSchema },
+    handler: (tools: ProjectTools, params) => tools.createProject(params),
+    plan: (tools: ProjectTools, params) => tools.planCreateProject(params)
+  }),
+  defineTool({
+    name: "getAreas",
+    description: "Get areas for a project",
+    access: 'read',
+    schema: {
+      projectId: z.string().describe("ID of the project"),
+      depth: z.number().optional().describe("Maximum depth of the area hierarchy")
+    },
+    output: { project: projectSchema, message: z.string() },
+    handler: (tools: ProjectTools, params) => tools.getAreas(params)
+  }),
+  defineTool({
+    name: "getIterations",
+    description: "Get iterations for a project",
+    access: 'read',
+    schema: {
+      projectId: z.string().describe("ID of the project"),
+      includeDeleted: z.boolean().optional().describe("Include deleted iterations")
+    },
+    output: { project: projectSchema, message: z.string() },
+    handler: (tools: ProjectTools, params) => tools.getIterations(params)
+  }),
+  defineTool({
+    name: "createArea",
+    description: "Create a new area in a project",
+    access: 'write',
+    schema: {
+      projectId: z.string().describe("ID of the project"),
+      name: z.string().describe("Name of the area"),
+      parentPath: z.string().optional().describe("Path of the parent area")
+    },
+    output: classificationNodeShape,
+    handler: (tools: ProjectTools, params) => tools.createArea(params),
+    plan: (tools: ProjectTools, params) => tools.planCreateArea(params)
+  }),
+  defineTool({
+    name: "createIteration",
+    description: "Create a new iteration in a project",
+    access: 'write',
+    schema: {
+      projectId: z.string().describe("ID of the project"),
+      name: z.string().describe("Name of the iteration"),
+      parentPath: z.string().optional().describe("Path of the parent iteration"),
+      startDate: z.string().optional().describe("Start date of the iteration"),
+      finishDate: z.string().optional().describe("End date of the iteration")
+    },
+    output: classificationNodeShape,
+    handler: (tools: ProjectTools, params) => tools.createIteration(params),
+    plan: (tools: ProjectTools, params) => tools.planCreateIteration(params)
+  }),
+  defineTool({
+    name: "getProcesses",
+    description: "Get all processes",
+    access: 'read',
+    schema: {
+      expandIcon: z.boolean().optional().describe("Include process icons")
+    },
+    output: { processes: z.array(processSchema), count: z.number() },
+    handler: (tools: ProjectTools, params) => tools.getProcesses(params)
+  }),
+  defineTool({
+    name: "getWorkItemTypes",
+    description: "Get work item types for a process",
+    access: 'read',
+    schema: {
+      processId: z.string().describe("ID of the process")
+    },
+    output: { workItemTypes: z.array(workItemTypeSchema), count: z.number() },
+    handler: (tools: ProjectTools, params) => tools.getWorkItemTypes(params)
+  }),
+  defineTool({
+    name: "getWorkItemTypeFields",
+    description: "Get fields for a work item type",
+    access: 'read',
+    schema: {
+      processId: z.string().describe("ID of the process"),
+      witRefName: z.string().describe("Reference name of the work item type")
+    },
+    output: { types: z.array(workItemTypeSchema), message: z.string() },
+    handler: (tools: ProjectTools, params) => tools.getWorkItemTypeFields(params)
+  }),
+  defineTool({
+    name: "clearCache",
+    description: "Clear cached work item types, fields, areas, iterations and teams so they are reloaded from Azure DevOps",
+    access: 'read',
+    schema: {
+      entity: z.enum(METADATA_ENTITIES).optional().describe("Kind of metadata to clear; everything when omitted")
+    },
+    output: { cleared: z.number(), entity: z.string() },
+    handler: (tools: ProjectTools, params) => tools.clearCache(params)
+  })
+];
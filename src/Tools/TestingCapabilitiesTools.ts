@@ -17,7 +17,24 @@ import {
   ConvertFindingsToWorkItemsParams,
   GetExploratoryTestStatisticsParams
 } from "../Interfaces/TestingCapabilities";
-import getClassMethods from "../utils/getClassMethods";
+import { defineTool, ToolDefinition } from '../Interfaces/ToolDefinition';
+import {
+  automatedTestRunShape,
+  convertedFindingsShape,
+  exploratorySessionShape,
+  exploratoryTestResultsShape,
+  exploratoryTestStatisticsShape,
+  testAgentShape,
+  testDataGeneratorShape,
+  testEnvironmentShape,
+  testFlakinessShape,
+  testGapAnalysisShape,
+  testHealthDashboardShape,
+  testImpactAnalysisShape,
+  testOptimizationShape,
+  testRunStatusShape
+} from '../Interfaces/OutputSchemas';
+import { z } from 'zod';
 
 export class TestingCapabilitiesTools {
   private service: TestingCapabilitiesService;
@@ -167,4 +184,170 @@ export class TestingCapabilitiesTools {
   }
 }
 
-export const TestingCapabilitiesToolMethods = getClassMethods(TestingCapabilitiesTools.prototype);
\ No newline at end of file
+/**
+ * Definitions of the testing capabilities tools, registered with the MCP server in `index.ts`
+ */
+export const TestingCapabilitiesToolDefinitions: ToolDefinition<TestingCapabilitiesTools>[] = [
+  defineTool({
+    name: "runAutomatedTests",
+    description: "Execute automated test suites",
+    access: 'write',
+    schema: {
+      testSuiteId: z.number().optional().describe("ID of the test suite to run"),
+      testPlanId: z.number().optional().describe("ID of the test plan to run"),
+      testEnvironment: z.string().optional().describe("Environment to run tests in"),
+      parallelExecution: z.boolean().optional().describe("Whether to run tests in parallel")
+    },
+    output: automatedTestRunShape,
+    handler: (tools: TestingCapabilitiesTools, params) => tools.runAutomatedTests(params)
+  }),
+  defineTool({
+    name: "getTestAutomationStatus",
+    description: "Check status of automated test execution",
+    access: 'read',
+    schema: {
+      testRunId: z.number().describe("ID of the test run to check status for")
+    },
+    output: testRunStatusShape,
+    handler: (tools: TestingCapabilitiesTools, params) => tools.getTestAutomationStatus(params)
+  }),
+  defineTool({
+    name: "configureTestAgents",
+    description: "Configure and manage test agents",
+    access: 'write',
+    schema: {
+      agentName: z.string().describe("Name of the test agent to configure"),
+      capabilities: z.record(z.any()).optional().describe("Capabilities to set for the agent"),
+      enabled: z.boolean().optional().describe("Whether the agent should be enabled")
+    },
+    output: testAgentShape,
+    handler: (tools: TestingCapabilitiesTools, params) => tools.configureTestAgents(params)
+  }),
+  defineTool({
+    name: "createTestDataGenerator",
+    description: "Generate test data for automated tests",
+    access: 'write',
+    schema: {
+      name: z.string().describe("Name of the test data generator"),
+      dataSchema: z.record(z.any()).describe("Schema for the test data to generate"),
+      recordCount: z.number().optional().describe("Number of records to generate")
+    },
+    output: testDataGeneratorShape,
+    handler: (tools: TestingCapabilitiesTools, params) => tools.createTestDataGenerator(params)
+  }),
+  defineTool({
+    name: "manageTestEnvironments",
+    description: "Manage test environments for different test types",
+    access: 'write',
+    schema: {
+      environmentName: z.string().describe("Name of the test environment"),
+      action: z.enum(['create', 'update', 'delete']).describe("Action to perform"),
+      properties: z.record(z.any()).optional().describe("Properties for the environment")
+    },
+    output: testEnvironmentShape,
+    handler: (tools: TestingCapabilitiesTools, params) => tools.manageTestEnvironments(params)
+  }),
+  defineTool({
+    name: "getTestFlakiness",
+    description: "Analyze and report on test flakiness",
+    access: 'read',
+    schema: {
+      testId: z.number().optional().describe("ID of a specific test to analyze"),
+      testRunIds: z.array(z.number()).optional().describe("Specific test runs to analyze"),
+      timeRange: z.string().optional().describe("Time range for analysis (e.g., '30d')")
+    },
+    output: testFlakinessShape,
+    handler: (tools: TestingCapabilitiesTools, params) => tools.getTestFlakiness(params)
+  }),
+  defineTool({
+    name: "getTestGapAnalysis",
+    description: "Identify gaps in test coverage",
+    access: 'read',
+    schema: {
+      areaPath: z.string().optional().describe("Area path to analyze"),
+      codeChangesOnly: z.boolean().optional().describe("Only analyze recent code changes")
+    },
+    output: testGapAnalysisShape,
+    handler: (tools: TestingCapabilitiesTools, params) => tools.getTestGapAnalysis(params)
+  }),
+  defineTool({
+    name: "runTestImpactAnalysis",
+    description: "Determine which tests to run based on code changes",
+    access: 'read',
+    schema: {
+      buildId: z.number().describe("ID of the build to analyze"),
+      changedFiles: z.array(z.string()).optional().describe("List of changed files")
+    },
+    output: testImpactAnalysisShape,
+    handler: (tools: TestingCapabilitiesTools, params) => tools.runTestImpactAnalysis(params)
+  }),
+  defineTool({
+    name: "getTestHealthDashboard",
+    description: "View overall test health metrics",
+    access: 'read',
+    schema: {
+      timeRange: z.string().optional().describe("Time range for metrics (e.g., '90d')"),
+      includeTrends: z.boolean().optional().describe("Include trend data")
+    },
+    output: testHealthDashboardShape,
+    handler: (tools: TestingCapabilitiesTools, params) => tools.getTestHealthDashboard(params)
+  }),
+  defineTool({
+    name: "runTestOptimization",
+    description: "Optimize test suite execution for faster feedback",
+    access: 'read',
+    schema: {
+      testPlanId: z.number().describe("ID of the test plan to optimize"),
+      optimizationGoal: z.enum(['time', 'coverage', 'reliability']).describe("Optimization goal")
+    },
+    output: testOptimizationShape,
+    handler: (tools: TestingCapabilitiesTools, params) => tools.runTestOptimization(params)
+  }),
+  defineTool({
+    name: "createExploratorySessions",
+    description: "Create new exploratory testing sessions",
+    access: 'write',
+    schema: {
+      title: z.string().describe("Title of the exploratory session"),
+      description: z.string().optional().describe("Description of the session"),
+      areaPath: z.string().optional().describe("Area path for the session")
+    },
+    output: exploratorySessionShape,
+    handler: (tools: TestingCapabilitiesTools, params) => tools.createExploratorySessions(params)
+  }),
+  defineTool({
+    name: "recordExploratoryTestResults",
+    description: "Record findings during exploratory testing",
+    access: 'write',
+    schema: {
+      sessionId: z.number().describe("ID of the exploratory session"),
+      findings: z.array(z.string()).describe("List of findings to record"),
+      attachments: z.array(z.any()).optional().describe("Attachments for the findings")
+    },
+    output: exploratoryTestResultsShape,
+    handler: (tools: TestingCapabilitiesTools, params) => tools.recordExploratoryTestResults(params)
+  }),
+  defineTool({
+    name: "convertFindingsToWorkItems",
+    description: "Convert exploratory test findings to work items",
+    access: 'write',
+    schema: {
+      sessionId: z.number().describe("ID of the exploratory session"),
+      findingIds: z.array(z.number()).describe("IDs of findings to convert"),
+      workItemType: z.string().optional().describe("Type of work item to create")
+    },
+    output: convertedFindingsShape,
+    handler: (tools: TestingCapabilitiesTools, params) => tools.convertFindingsToWorkItems(params)
+  }),
+  defineTool({
+    name: "getExploratoryTestStatistics",
+    description: "Get statistics on exploratory testing activities",
+    access: 'read',
+    schema: {
+      timeRange: z.string().optional().describe("Time range for statistics (e.g., '90d')"),
+      userId: z.string().optional().describe("Filter by specific user")
+    },
+    output: exploratoryTestStatisticsShape,
+    handler: (tools: TestingCapabilitiesTools, params) => tools.getExploratoryTestStatistics(params)
+  })
+];
@@ -0,0 +1,82 @@
+import { AzureDevOpsConfig } from '../Interfaces/AzureDevOps';
+import { ToolDefinition } from '../Interfaces/ToolDefinition';
+import { WorkItemTools, WorkItemToolDefinitions } from './WorkItemTools';
+import { BoardsSprintsTools, BoardsSprintsToolDefinitions } from './BoardsSprintsTools';
+import { ProjectTools, ProjectToolDefinitions } from './ProjectTools';
+import { GitTools, GitToolDefinitions } from './GitTools';
+import { TestingCapabilitiesTools, TestingCapabilitiesToolDefinitions } from './TestingCapabilitiesTools';
+import { DevSecOpsTools, DevSecOpsToolDefinitions } from './DevSecOpsTools';
+import { ArtifactManagementTools, ArtifactManagementToolDefinitions } from './ArtifactManagementTools';
+import { AIAssistedDevelopmentTools, AIAssistedDevelopmentToolDefinitions } from './AIAssistedDevelopmentTools';
+import { DiagnosticsTools, DiagnosticsToolDefinitions } from './DiagnosticsTools';
+import { AuditTools, AuditToolDefinitions } from './AuditTools';
+
+/**
+ * A Tools class together with the tools it declares
+ */
+export interface ToolGroup<TTools = any> {
+  id: string;
+  createTools(config: AzureDevOpsConfig): TTools;
+  definitions: ToolDefinition<TTools>[];
+}
+
+/**
+ * Every tool group exposed by the MCP server, in registration order
+ */
+export const TOOL_GROUPS: ToolGroup[] = [
+  {
+    id: 'workitems',
+    createTools: config => new WorkItemTools(config),
+    definitions: WorkItemToolDefinitions
+  },
+  {
+    id: 'boards',
+    createTools: config => new BoardsSprintsTools(config),
+    definitions: BoardsSprintsToolDefinitions
+  },
+  {
+    id: 'projects',
+    createTools: config => new ProjectTools(config),
+    definitions: ProjectToolDefinitions
+  },
+  {
+    id: 'git',
+    createTools: config => new GitTools(config),
+    definitions: GitToolDefinitions
+  },
+  {
+    id: 'testing',
+    createTools: config => new TestingCapabilitiesTools(config),
+    definitions: TestingCapabilitiesToolDefinitions
+  },
+  {
+    id: 'devsecops',
+    createTools: config => new DevSecOpsTools(config),
+    definitions: DevSecOpsToolDefinitions
+  },
+  {
+    id: 'artifacts',
+    createTools: config => new ArtifactManagementTools(config),
+    definitions: ArtifactManagementToolDefinitions
+  },
+  {
+    id: 'ai',
+    createTools: config => new AIAssistedDevelopmentTools(config),
+    definitions: AIAssistedDevelopmentToolDefinitions
+  },
+  {
+    id: 'diagnostics',
+    createTools: config => new DiagnosticsTools(config),
+    definitions: DiagnosticsToolDefinitions
+  },
+  {
+    id: 'audit',
+    createTools: () => new AuditTools(),
+    definitions: AuditToolDefinitions
+  }
+];
+
+/**
+ * Every tool definition across all groups
+ */
+export const ALL_TOOL_DEFINITIONS: ToolDefinition[] = TOOL_GROUPS.flatMap(group => group.definitions);
@@ -1,6 +1,7 @@
 import { AzureDevOpsConfig } from '../Interfaces/AzureDevOps';
 import { WorkItemService } from '../Services/WorkItemService';
 import { formatMcpResponse, formatErrorResponse, McpResponse } from '../Interfaces/Common';
+import { formatPlanResponse } from '../Interfaces/DryRun';
 import {
   WorkItemByIdParams,
   SearchWorkItemsParams,
@@ -12,9 +13,41 @@ import {
   UpdateWorkItemStateParams,
   AssignWorkItemParams,
   CreateLinkParams,
-  BulkWorkItemParams
+  BulkWorkItemParams,
+  ListWorkItemsParams,
+  QueryWorkItemsParams,
+  WorkItemHistoryParams,
+  DiffWorkItemRevisionsParams,
+  WorkItemCommentsParams,
+  UpdateWorkItemCommentParams,
+  DeleteWorkItemCommentParams,
+  WorkItemCommentReactionParams
 } from '../Interfaces/WorkItems';
-import getClassMethods from "../utils/getClassMethods";
+import { WIQL_OPERATORS } from '../Interfaces/Wiql';
+import {
+  DEFAULT_HYDRATION_FIELDS,
+  formatWorkItemTable,
+  isHydrationRequested,
+  MAX_HYDRATED_WORK_ITEMS,
+  toWorkItemTable,
+  workItemHydrationSchema,
+  WorkItemHydrationParams
+} from '../Interfaces/WorkItemHydration';
+import { formatRevisionChanges, formatRevisionDiff } from '../Interfaces/WorkItemHistory';
+import { defineTool, ToolDefinition } from '../Interfaces/ToolDefinition';
+import { z } from 'zod';
+import {
+  responsePageShape,
+  workItemCommentReactionSchema,
+  workItemCommentSchema,
+  workItemFieldChangeSchema,
+  workItemQueryResultShape,
+  workItemRelationChangeSchema,
+  workItemRevisionChangesSchema,
+  workItemSchema
+} from '../Interfaces/OutputSchemas';
+import { formatBudgetedResponse, responseBudgetSchema } from '../Interfaces/ResponseBudget';
+import { htmlToText } from '../utils/text';
 
 export class WorkItemTools {
   private workItemService: WorkItemService;
@@ -26,10 +59,10 @@ export class WorkItemTools {
   /**
    * List work items based on a WIQL query
    */
-  public async listWorkItems(params: { query: string }): Promise<McpResponse> {
+  public async listWorkItems(params: ListWorkItemsParams): Promise<McpResponse> {
     try {
-      const response = await this.workItemService.listWorkItems(params.query);
-      return formatMcpResponse(response, `Found ${response.workItems?.length || 0} work items.`);
+      const response = await this.workItemService.listWorkItems(params.query, { timePrecision: params.timePrecision });
+      return await this.formatQueryResponse(response, `Found ${response.workItems?.length || 0} work items`, params);
     } catch (error) {
       console.error('Error in listWorkItems tool:', error);
       return formatErrorResponse(error);
@@ -42,7 +75,8 @@ export class WorkItemTools {
   public async getWorkItemById(params: WorkItemByIdParams): Promise<McpResponse> {
     try {
       const workItem = await this.workItemService.getWorkItemById(params);
-      return formatMcpResponse(workItem, `Work item ${params.id} details`);
+      const fields = workItem.fields || {};
+      return formatBudgetedResponse('getWorkItemById', params, { workItem }, 'workItem', `Work item ${params.id} (${fields['System.WorkItemType']}, ${fields['System.State']}): ${fields['System.Title']}`);
     } catch (error) {
       console.error('Error in getWorkItemById tool:', error);
       return formatErrorResponse(error);
@@ -55,7 +89,7 @@ export class WorkItemTools {
   public async searchWorkItems(params: SearchWorkItemsParams): Promise<McpResponse> {
     try {
       const results = await this.workItemService.searchWorkItems(params);
-      return formatMcpResponse(results, `Found ${results.workItems?.length || 0} matching work items`);
+      return await this.formatQueryResponse(results, `Found ${results.workItems?.length || 0} matching work items`, params);
     } catch (error) {
       console.error('Error in searchWorkItems tool:', error);
       return formatErrorResponse(error);
@@ -68,7 +102,7 @@ export class WorkItemTools {
   public async getRecentlyUpdatedWorkItems(params: RecentWorkItemsParams): Promise<McpResponse> {
     try {
       const results = await this.workItemService.getRecentWorkItems(params);
-      return formatMcpResponse(results, `Found ${results.workItems?.length || 0} recently updated work items`);
+      return await this.formatQueryResponse(results, `Found ${results.workItems?.length || 0} recently updated work items`, params);
     } catch (error) {
       console.error('Error in getRecentlyUpdatedWorkItems tool:', error);
       return formatErrorResponse(error);
@@ -81,20 +115,60 @@ export class WorkItemTools {
   public async getMyWorkItems(params: MyWorkItemsParams): Promise<McpResponse> {
     try {
       const results = await this.workItemService.getMyWorkItems(params);
-      return formatMcpResponse(results, `Found ${results.workItems?.length || 0} work items assigned to you`);
+      return await this.formatQueryResponse(results, `Found ${results.workItems?.length || 0} work items assigned to you`, params);
     } catch (error) {
       console.error('Error in getMyWorkItems tool:', error);
       return formatErrorResponse(error);
     }
   }
 
+  /**
+   * Query work items with structured filters
+   */
+  public async queryWorkItems(params: QueryWorkItemsParams): Promise<McpResponse> {
+    try {
+      const results = await this.workItemService.queryWorkItems(params);
+      return await this.formatQueryResponse(results, `Found ${results.workItems?.length || 0} work items with query: ${results.query}`, params);
+    } catch (error) {
+      console.error('Error in queryWorkItems tool:', error);
+      return formatErrorResponse(error);
+    }
+  }
+
+  /**
+   * Get the changes of each revision of a work item
+   */
+  public async getWorkItemHistory(params: WorkItemHistoryParams): Promise<McpResponse> {
+    try {
+      const history = await this.workItemService.getWorkItemHistory(params);
+      const more = history.truncated ? ' More revisions follow; pass skip to get them.' : '';
+      return formatMcpResponse({ id: params.id, ...history }, `History of work item ${params.id}: ${history.revisions.length} revisions.${more}\n\n${formatRevisionChanges(history.revisions)}`);
+    } catch (error) {
+      console.error('Error in getWorkItemHistory tool:', error);
+      return formatErrorResponse(error);
+    }
+  }
+
+  /**
+   * Compare two revisions of a work item
+   */
+  public async diffWorkItemRevisions(params: DiffWorkItemRevisionsParams): Promise<McpResponse> {
+    try {
+      const diff = await this.workItemService.diffWorkItemRevisions(params);
+      return formatMcpResponse(diff, `Changes to work item ${diff.id} from revision ${diff.fromRevision} to ${diff.toRevision}:\n${formatRevisionDiff(diff)}`);
+    } catch (error) {
+      console.error('Error in diffWorkItemRevisions tool:', error);
+      return formatErrorResponse(error);
+    }
+  }
+
   /**
    * Create a work item
    */
   public async createWorkItem(params: CreateWorkItemParams): Promise<McpResponse> {
     try {
       const workItem = await this.workItemService.createWorkItem(params);
-      return formatMcpResponse(workItem, `Created work item: ${workItem.id}`);
+      return formatMcpResponse({ workItem }, `Created work item: ${workItem.id}`);
     } catch (error) {
       console.error('Error in createWorkItem tool:', error);
       return formatErrorResponse(error);
@@ -107,7 +181,7 @@ export class WorkItemTools {
   public async updateWorkItem(params: UpdateWorkItemParams): Promise<McpResponse> {
     try {
       const workItem = await this.workItemService.updateWorkItem(params);
-      return formatMcpResponse(workItem, `Updated work item: ${params.id}`);
+      return formatMcpResponse({ workItem }, `Updated work item: ${params.id}`);
     } catch (error) {
       console.error('Error in updateWorkItem tool:', error);
       return formatErrorResponse(error);
@@ -120,20 +194,82 @@ export class WorkItemTools {
   public async addWorkItemComment(params: AddWorkItemCommentParams): Promise<McpResponse> {
     try {
       const comment = await this.workItemService.addWorkItemComment(params);
-      return formatMcpResponse(comment, `Comment added to work item: ${params.id}`);
+      return formatMcpResponse({ comment }, `Comment added to work item: ${params.id}`);
     } catch (error) {
       console.error('Error in addWorkItemComment tool:', error);
       return formatErrorResponse(error);
     }
   }
 
+  /**
+   * List the comments of a work item
+   */
+  public async getWorkItemComments(params: WorkItemCommentsParams): Promise<McpResponse> {
+    try {
+      const result = await this.workItemService.getWorkItemComments(params);
+      const comments = result.comments || [];
+      const more = result.continuationToken ? '; pass continuationToken to get the next page' : '';
+      const lines = comments.map(comment => {
+        const text = htmlToText(comment.text || '').replace(/\s+/g, ' ');
+        return `- ${comment.id} by ${comment.createdBy?.displayName || 'unknown'} on ${comment.createdDate ? new Date(comment.createdDate).toISOString() : 'unknown date'}: ${text.length > 200 ? `${text.slice(0, 200)}…` : text}`;
+      });
+      return formatMcpResponse({
+        comments,
+        totalCount: result.totalCount,
+        continuationToken: result.continuationToken
+      }, [`${comments.length} of ${result.totalCount ?? comments.length} comments on work item ${params.id}${more}`, ...lines].join('\n'));
+    } catch (error) {
+      console.error('Error in getWorkItemComments tool:', error);
+      return formatErrorResponse(error);
+    }
+  }
+
+  /**
+   * Edit a work item comment
+   */
+  public async updateWorkItemComment(params: UpdateWorkItemCommentParams): Promise<McpResponse> {
+    try {
+      const comment = await this.workItemService.updateWorkItemComment(params);
+      return formatMcpResponse({ comment }, `Updated comment ${params.commentId} of work item ${params.id}`);
+    } catch (error) {
+      console.error('Error in updateWorkItemComment tool:', error);
+      return formatErrorResponse(error);
+    }
+  }
+
+  /**
+   * Delete a work item comment
+   */
+  public async deleteWorkItemComment(params: DeleteWorkItemCommentParams): Promise<McpResponse> {
+    try {
+      await this.workItemService.deleteWorkItemComment(params);
+      return formatMcpResponse({ deleted: true, commentId: params.commentId }, `Deleted comment ${params.commentId} of work item ${params.id}`);
+    } catch (error) {
+      console.error('Error in deleteWorkItemComment tool:', error);
+      return formatErrorResponse(error);
+    }
+  }
+
+  /**
+   * Add or remove a reaction to a work item comment
+   */
+  public async setWorkItemCommentReaction(params: WorkItemCommentReactionParams): Promise<McpResponse> {
+    try {
+      const reaction = await this.workItemService.setWorkItemCommentReaction(params);
+      return formatMcpResponse({ reaction }, `${params.remove ? 'Removed' : 'Added'} ${params.reaction} reaction ${params.remove ? 'from' : 'to'} comment ${params.commentId} of work item ${params.id}`);
+    } catch (error) {
+      console.error('Error in setWorkItemCommentReaction tool:', error);
+      return formatErrorResponse(error);
+    }
+  }
+
   /**
    * Update work item state
    */
   public async updateWorkItemState(params: UpdateWorkItemStateParams): Promise<McpResponse> {
     try {
       const workItem = await this.workItemService.updateWorkItemState(params);
-      return formatMcpResponse(workItem, `Updated state of work item ${params.id} to "${params.state}"`);
+      return formatMcpResponse({ workItem }, `Updated state of work item ${params.id} to "${params.state}"`);
     } catch (error) {
       console.error('Error in updateWorkItemState tool:', error);
       return formatErrorResponse(error);
@@ -146,7 +282,7 @@ export class WorkItemTools {
   public async assignWorkItem(params: AssignWorkItemParams): Promise<McpResponse> {
     try {
       const workItem = await this.workItemService.assignWorkItem(params);
-      return formatMcpResponse(workItem, `Assigned work item ${params.id} to ${params.assignedTo}`);
+      return formatMcpResponse({ workItem }, `Assigned work item ${params.id} to ${params.assignedTo}`);
     } catch (error) {
       console.error('Error in assignWorkItem tool:', error);
       return formatErrorResponse(error);
@@ -159,7 +295,7 @@ export class WorkItemTools {
   public async createLink(params: CreateLinkParams): Promise<McpResponse> {
     try {
       const workItem = await this.workItemService.createLink(params);
-      return formatMcpResponse(workItem, `Created ${params.linkType} link from work item ${params.sourceId} to ${params.targetId}`);
+      return formatMcpResponse({ workItem }, `Created ${params.linkType} link from work item ${params.sourceId} to ${params.targetId}`);
     } catch (error) {
       console.error('Error in createLink tool:', error);
       return formatErrorResponse(error);
@@ -178,6 +314,448 @@ export class WorkItemTools {
       return formatErrorResponse(error);
     }
   }
+
+  /**
+   * Preview creating a work item without applying it
+   */
+  public async planCreateWorkItem(params: CreateWorkItemParams): Promise<McpResponse> {
+    try {
+      const plan = this.workItemService.planCreateWorkItem(params);
+      return formatPlanResponse(plan);
+    } catch (error) {
+      console.error('Error in createWorkItem dry run:', error);
+      return formatErrorResponse(error);
+    }
+  }
+
+  /**
+   * Preview a work item update without applying it
+   */
+  public async planUpdateWorkItem(params: UpdateWorkItemParams): Promise<McpResponse> {
+    try {
+      const plan = await this.workItemService.planUpdateWorkItem(params);
+      return formatPlanResponse(plan);
+    } catch (error) {
+      console.error('Error in updateWorkItem dry run:', error);
+      return formatErrorResponse(error);
+    }
+  }
+
+  /**
+   * Preview a work item comment without applying it
+   */
+  public async planAddWorkItemComment(params: AddWorkItemCommentParams): Promise<McpResponse> {
+    try {
+      const plan = await this.workItemService.planAddWorkItemComment(params);
+      return formatPlanResponse(plan);
+    } catch (error) {
+      console.error('Error in addWorkItemComment dry run:', error);
+      return formatErrorResponse(error);
+    }
+  }
+
+  /**
+   * Preview a comment edit without saving it
+   */
+  public async planUpdateWorkItemComment(params: UpdateWorkItemCommentParams): Promise<McpResponse> {
+    try {
+      const plan = await this.workItemService.planUpdateWorkItemComment(params);
+      return formatPlanResponse(plan);
+    } catch (error) {
+      console.error('Error in updateWorkItemComment dry run:', error);
+      return formatErrorResponse(error);
+    }
+  }
+
+  /**
+   * Preview deleting a comment without deleting it
+   */
+  public async planDeleteWorkItemComment(params: DeleteWorkItemCommentParams): Promise<McpResponse> {
+    try {
+      const plan = await this.workItemService.planDeleteWorkItemComment(params);
+      return formatPlanResponse(plan);
+    } catch (error) {
+      console.error('Error in deleteWorkItemComment dry run:', error);
+      return formatErrorResponse(error);
+    }
+  }
+
+  /**
+   * Preview adding or removing a comment reaction without changing it
+   */
+  public async planSetWorkItemCommentReaction(params: WorkItemCommentReactionParams): Promise<McpResponse> {
+    try {
+      const plan = await this.workItemService.planSetWorkItemCommentReaction(params);
+      return formatPlanResponse(plan);
+    } catch (error) {
+      console.error('Error in setWorkItemCommentReaction dry run:', error);
+      return formatErrorResponse(error);
+    }
+  }
+
+  /**
+   * Preview a work item state change without applying it
+   */
+  public async planUpdateWorkItemState(params: UpdateWorkItemStateParams): Promise<McpResponse> {
+    try {
+      const plan = await this.workItemService.planUpdateWorkItemState(params);
+      return formatPlanResponse(plan);
+    } catch (error) {
+      console.error('Error in updateWorkItemState dry run:', error);
+      return formatErrorResponse(error);
+    }
+  }
+
+  /**
+   * Preview a work item assignment without applying it
+   */
+  public async planAssignWorkItem(params: AssignWorkItemParams): Promise<McpResponse> {
+    try {
+      const plan = await this.workItemService.planAssignWorkItem(params);
+      return formatPlanResponse(plan);
+    } catch (error) {
+      console.error('Error in assignWorkItem dry run:', error);
+      return formatErrorResponse(error);
+    }
+  }
+
+  /**
+   * Preview a link between work items without applying it
+   */
+  public async planCreateLink(params: CreateLinkParams): Promise<McpResponse> {
+    try {
+      const plan = await this.workItemService.planCreateLink(params);
+      return formatPlanResponse(plan);
+    } catch (error) {
+      console.error('Error in createLink dry run:', error);
+      return formatErrorResponse(error);
+    }
+  }
+
+  /**
+   * Preview a bulk create or update of work items without applying it
+   */
+  public async planBulkCreateWorkItems(params: BulkWorkItemParams): Promise<McpResponse> {
+    try {
+      const plan = await this.workItemService.planBulkUpdateWorkItems(params);
+      return formatPlanResponse(plan);
+    } catch (error) {
+      console.error('Error in bulkCreateWorkItems dry run:', error);
+      return formatErrorResponse(error);
+    }
+  }
+
+  /**
+   * Format a WIQL query result. When the caller asked for fields, the work items are fetched
+   * through the batch API and returned as a table in place of the bare references.
+   */
+  private async formatQueryResponse(result: any, text: string, params: WorkItemHydrationParams): Promise<McpResponse> {
+    const message = result.continuationToken
+      ? `${text}. More work items match; pass the continuationToken to get the next page.`
+      : result.truncated ? `${text}. More work items match than were returned.` : text;
+    if (!isHydrationRequested(params)) {
+      return formatMcpResponse(result, message);
+    }
+    const { workItems: references = [], columns, ...query } = result;
+    const ids: number[] = references.map((reference: { id: number }) => reference.id).slice(0, MAX_HYDRATED_WORK_ITEMS);
+    const fields = params.fields?.length ? params.fields : DEFAULT_HYDRATION_FIELDS;
+    const workItems = await this.workItemService.getWorkItemsBatch(ids, { ...params, fields });
+    const table = toWorkItemTable(workItems, fields, params.expand);
+    const note = references.length > ids.length ? ` Fields of the first ${ids.length} are shown.` : '';
+    return formatMcpResponse({ ...query, table }, `${message}${note}\n\n${formatWorkItemTable(table)}`);
+  }
 }
 
-export const WorkItemToolMethods = getClassMethods(WorkItemTools.prototype);
\ No newline at end of file
+/**
+ * Condition of the `queryWorkItems` tool
+ */
+const workItemFilterSchema = z.object({
+  field: z.string().describe("Field reference name, e.g. System.State or Microsoft.VSTS.Common.Priority"),
+  operator: z.enum(WIQL_OPERATORS).describe("Comparison operator. UNDER matches an area or iteration path and its children; EVER (or WAS EVER) matches any past value"),
+  value: z.union([z.string(), z.number(), z.boolean(), z.array(z.union([z.string(), z.number()]))])
+    .describe("Value to compare with, a list for IN and NOT IN. Macros such as @me, @today, @today-7, @currentIteration and @project are allowed")
+});
+
+/**
+ * Format of comment text for the comment tools
+ */
+const commentFormatSchema = z.enum(['html', 'markdown']).optional()
+  .describe("Format of the text: html (default) or markdown, which is converted to HTML");
+
+/**
+ * Definitions of the work item tools, registered with the MCP server in `index.ts`
+ */
+export const WorkItemToolDefinitions: ToolDefinition<WorkItemTools>[] = [
+  defineTool({
+    name: "listWorkItems",
+    description: "List work items based on a WIQL query",
+    access: 'read',
+    schema: {
+      query: z.string().describe("WIQL query to get work items"),
+      timePrecision: z.boolean().optional().describe("Compare dates in the query with their time instead of the day"),
+      ...workItemHydrationSchema
+    },
+    output: workItemQueryResultShape,
+    handler: (tools: WorkItemTools, params) => tools.listWorkItems(params)
+  }),
+  defineTool({
+    name: "getWorkItemById",
+    description: "Get a specific work item by ID",
+    access: 'read',
+    schema: {
+      id: z.number().describe("Work item ID"),
+      ...responseBudgetSchema
+    },
+    output: { workItem: workItemSchema, ...responsePageShape },
+    handler: (tools: WorkItemTools, params) => tools.getWorkItemById(params)
+  }),
+  defineTool({
+    name: "searchWorkItems",
+    description: "Search for work items by text",
+    access: 'read',
+    schema: {
+      searchText: z.string().describe("Text to search for in work items"),
+      top: z.number().optional().describe("Maximum number of work items to return"),
+      ...workItemHydrationSchema
+    },
+    output: workItemQueryResultShape,
+    handler: (tools: WorkItemTools, params) => tools.searchWorkItems(params)
+  }),
+  defineTool({
+    name: "getRecentlyUpdatedWorkItems",
+    description: "Get recently updated work items",
+    access: 'read',
+    schema: {
+      top: z.number().optional().describe("Maximum number of work items to return"),
+      continuationToken: z.string().optional().describe("Token from the previous page to get the next one"),
+      timePrecision: z.boolean().optional().describe("Compare dates with their time instead of the day"),
+      skip: z.number().optional().describe("Number of work items to skip on the first page; not allowed with continuationToken"),
+      ...workItemHydrationSchema
+    },
+    output: workItemQueryResultShape,
+    handler: (tools: WorkItemTools, params) => tools.getRecentlyUpdatedWorkItems(params)
+  }),
+  defineTool({
+    name: "getMyWorkItems",
+    description: "Get work items assigned to you",
+    access: 'read',
+    schema: {
+      state: z.string().optional().describe("Filter by work item state"),
+      top: z.number().optional().describe("Maximum number of work items to return"),
+      continuationToken: z.string().optional().describe("Token from the previous page to get the next one"),
+      timePrecision: z.boolean().optional().describe("Compare dates with their time instead of the day"),
+      ...workItemHydrationSchema
+    },
+    output: workItemQueryResultShape,
+    handler: (tools: WorkItemTools, params) => tools.getMyWorkItems(params)
+  }),
+  defineTool({
+    name: "queryWorkItems",
+    description: "Query work items of the project with structured filters instead of WIQL. Filters are combined with AND; use anyOf for OR",
+    access: 'read',
+    schema: {
+      filters: z.array(z.union([
+        workItemFilterSchema,
+        z.object({ anyOf: z.array(workItemFilterSchema).min(1).describe("Conditions of which at least one must hold") })
+      ])).describe("Conditions the work items must meet"),
+      orderBy: z.array(z.object({
+        field: z.string().describe("Field reference name to sort by"),
+        direction: z.enum(['asc', 'desc']).optional().describe("Sort direction (default: asc)")
+      })).optional().describe("Sort order (default: changed date, newest first)"),
+      team: z.string().optional().describe("Team whose current iteration @currentIteration refers to (default team if not specified)"),
+      top: z.number().optional().describe("Maximum number of work items to return"),
+      timePrecision: z.boolean().optional().describe("Compare dates with their time; date values must then be ISO dates and times"),
+      ...workItemHydrationSchema
+    },
+    output: workItemQueryResultShape,
+    handler: (tools: WorkItemTools, params) => tools.queryWorkItems(params)
+  }),
+  defineTool({
+    name: "getWorkItemHistory",
+    description: "Get the revision history of a work item: the fields changed in each revision with their old and new values, links added and removed, and who made the change when. HTML fields are shown as text diffs",
+    access: 'read',
+    schema: {
+      id: z.number().describe("Work item ID"),
+      fields: z.array(z.string()).optional().describe("Only report changes to these fields, e.g. [\"Microsoft.VSTS.Common.Priority\", \"System.State\"]"),
+      top: z.number().int().min(1).max(200).optional().describe("Maximum number of revisions to return (default 50)"),
+      skip: z.number().int().min(0).optional().describe("Number of revisions to skip, oldest first")
+    },
+    output: {
+      id: z.number(),
+      revisions: z.array(workItemRevisionChangesSchema),
+      truncated: z.boolean().optional()
+    },
+    handler: (tools: WorkItemTools, params) => tools.getWorkItemHistory(params)
+  }),
+  defineTool({
+    name: "diffWorkItemRevisions",
+    description: "Compare two revisions of a work item: changed fields with their old and new values and the revision, person and date of the last change, and links added and removed. HTML fields are shown as text diffs",
+    access: 'read',
+    schema: {
+      id: z.number().describe("Work item ID"),
+      fromRevision: z.number().int().min(1).describe("Earlier revision number"),
+      toRevision: z.number().int().min(1).optional().describe("Later revision number (default: the latest revision)"),
+      fields: z.array(z.string()).optional().describe("Only compare these fields")
+    },
+    output: {
+      id: z.number(),
+      fromRevision: z.number(),
+      toRevision: z.number(),
+      fields: z.array(workItemFieldChangeSchema),
+      relationsAdded: z.array(workItemRelationChangeSchema),
+      relationsRemoved: z.array(workItemRelationChangeSchema)
+    },
+    handler: (tools: WorkItemTools, params) => tools.diffWorkItemRevisions(params)
+  }),
+  defineTool({
+    name: "createWorkItem",
+    description: "Create a new work item",
+    access: 'write',
+    schema: {
+      workItemType: z.string().describe("Type of work item to create"),
+      title: z.string().describe("Title of the work item"),
+      description: z.string().optional().describe("Description of the work item"),
+      assignedTo: z.string().optional().describe("User to assign the work item to"),
+      state: z.string().optional().describe("Initial state of the work item"),
+      areaPath: z.string().optional().describe("Area path for the work item"),
+      iterationPath: z.string().optional().describe("Iteration path for the work item"),
+      additionalFields: z.record(z.any()).optional().describe("Additional fields to set on the work item")
+    },
+    output: { workItem: workItemSchema },
+    handler: (tools: WorkItemTools, params) => tools.createWorkItem(params),
+    plan: (tools: WorkItemTools, params) => tools.planCreateWorkItem(params)
+  }),
+  defineTool({
+    name: "updateWorkItem",
+    description: "Update an existing work item",
+    access: 'write',
+    schema: {
+      id: z.number().describe("ID of the work item to update"),
+      fields: z.record(z.any()).describe("Fields to update on the work item")
+    },
+    output: { workItem: workItemSchema },
+    handler: (tools: WorkItemTools, params) => tools.updateWorkItem(params),
+    plan: (tools: WorkItemTools, params) => tools.planUpdateWorkItem(params)
+  }),
+  defineTool({
+    name: "addWorkItemComment",
+    description: "Add a comment to a work item",
+    access: 'write',
+    schema: {
+      id: z.number().describe("ID of the work item"),
+      text: z.string().describe("Comment text. Mention people as @user@example.com or @[Display Name] to notify them"),
+      format: commentFormatSchema
+    },
+    output: { comment: workItemCommentSchema },
+    handler: (tools: WorkItemTools, params) => tools.addWorkItemComment(params),
+    plan: (tools: WorkItemTools, params) => tools.planAddWorkItemComment(params)
+  }),
+  defineTool({
+    name: "getWorkItemComments",
+    description: "List the comments of a work item with their authors, dates and reactions, newest first",
+    access: 'read',
+    schema: {
+      id: z.number().describe("ID of the work item"),
+      top: z.number().int().min(1).max(200).optional().describe("Maximum number of comments to return"),
+      continuationToken: z.string().optional().describe("Token from the previous page to get the next one"),
+      order: z.enum(['asc', 'desc']).optional().describe("Sort order by creation date (default: desc, newest first)"),
+      includeDeleted: z.boolean().optional().describe("Also return deleted comments")
+    },
+    output: {
+      comments: z.array(workItemCommentSchema),
+      totalCount: z.number().optional(),
+      continuationToken: z.string().optional()
+    },
+    handler: (tools: WorkItemTools, params) => tools.getWorkItemComments(params)
+  }),
+  defineTool({
+    name: "updateWorkItemComment",
+    description: "Replace the text of a work item comment",
+    access: 'write',
+    schema: {
+      id: z.number().describe("ID of the work item"),
+      commentId: z.number().describe("ID of the comment"),
+      text: z.string().describe("New comment text. Mention people as @user@example.com or @[Display Name] to notify them"),
+      format: commentFormatSchema
+    },
+    output: { comment: workItemCommentSchema },
+    handler: (tools: WorkItemTools, params) => tools.updateWorkItemComment(params),
+    plan: (tools: WorkItemTools, params) => tools.planUpdateWorkItemComment(params)
+  }),
+  defineTool({
+    name: "deleteWorkItemComment",
+    description: "Delete a work item comment",
+    access: 'destructive',
+    schema: {
+      id: z.number().describe("ID of the work item"),
+      commentId: z.number().describe("ID of the comment")
+    },
+    output: { deleted: z.boolean(), commentId: z.number() },
+    handler: (tools: WorkItemTools, params) => tools.deleteWorkItemComment(params),
+    plan: (tools: WorkItemTools, params) => tools.planDeleteWorkItemComment(params)
+  }),
+  defineTool({
+    name: "setWorkItemCommentReaction",
+    description: "Add a reaction to a work item comment, or remove one",
+    access: 'write',
+    schema: {
+      id: z.number().describe("ID of the work item"),
+      commentId: z.number().describe("ID of the comment"),
+      reaction: z.enum(['like', 'dislike', 'heart', 'hooray', 'smile', 'confused']).describe("Reaction type"),
+      remove: z.boolean().optional().describe("Remove your reaction instead of adding it")
+    },
+    output: { reaction: workItemCommentReactionSchema },
+    handler: (tools: WorkItemTools, params) => tools.setWorkItemCommentReaction(params),
+    plan: (tools: WorkItemTools, params) => tools.planSetWorkItemCommentReaction(params)
+  }),
+  defineTool({
+    name: "updateWorkItemState",
+    description: "Update the state of a work item",
+    access: 'write',
+    schema: {
+      id: z.number().describe("ID of the work item"),
+      state: z.string().describe("New state for the work item"),
+      comment: z.string().optional().describe("Comment explaining the state change")
+    },
+    output: { workItem: workItemSchema },
+    handler: (tools: WorkItemTools, params) => tools.updateWorkItemState(params),
+    plan: (tools: WorkItemTools, params) => tools.planUpdateWorkItemState(params)
+  }),
+  defineTool({
+    name: "assignWorkItem",
+    description: "Assign a work item to a user",
+    access: 'write',
+    schema: {
+      id: z.number().describe("ID of the work item"),
+      assignedTo: z.string().describe("User to assign the work item to")
+    },
+    output: { workItem: workItemSchema },
+    handler: (tools: WorkItemTools, params) => tools.assignWorkItem(params),
+    plan: (tools: WorkItemTools, params) => tools.planAssignWorkItem(params)
+  }),
+  defineTool({
+    name: "createLink",
+    description: "Create a link between work items",
+    access: 'write',
+    schema: {
+      sourceId: z.number().describe("ID of the source work item"),
+      targetId: z.number().describe("ID of the target work item"),
+      linkType: z.string().describe("Type of link to create"),
+      comment: z.string().optional().describe("Comment explaining the link")
+    },
+    output: { workItem: workItemSchema },
+    handler: (tools: WorkItemTools, params) => tools.createLink(params),
+    plan: (tools: WorkItemTools, params) => tools.planCreateLink(params)
+  }),
+  defineTool({
+    name: "bulkCreateWorkItems",
+    description: "Create or update multiple work items in a single operation",
+    access: 'destructive',
+    schema: {
+      workItems: z.array(z.any()).describe("Array of work items to create or update")
+    },
+    output: { count: z.number(), workItems: z.array(workItemSchema) },
+    handler: (tools: WorkItemTools, params) => tools.bulkCreateWorkItems(params),
+    plan: (tools: WorkItemTools, params) => tools.planBulkCreateWorkItems(params)
+  })
+];
@@ -2,14 +2,29 @@ import dotenv from 'dotenv';
 import path from 'path';
 import fs from 'fs';
 import { AzureDevOpsConfig } from './Interfaces/AzureDevOps';
-import { AIAssistedDevelopmentToolMethods } from './Tools/AIAssistedDevelopmentTools';
-import { ArtifactManagementToolMethods } from './Tools/ArtifactManagementTools';
-import { BoardsSprintsToolMethods } from './Tools/BoardsSprintsTools';
-import { DevSecOpsToolMethods } from './Tools/DevSecOpsTools';
-import { GitToolMethods } from './Tools/GitTools';
-import { ProjectToolMethods } from './Tools/ProjectTools';
-import { TestingCapabilitiesToolMethods } from './Tools/TestingCapabilitiesTools';
-import { WorkItemToolMethods } from './Tools/WorkItemTools';
+import { ConnectionParams } from './Interfaces/Connection';
+import { RetryConfig } from './Interfaces/Retry';
+import { AuditConfig } from './Interfaces/Audit';
+import { LoggingConfig } from './Interfaces/Logging';
+import { TraceExporterType, TracingConfig } from './Interfaces/Tracing';
+import { CacheConfig, METADATA_ENTITIES, MetadataEntity } from './Interfaces/Cache';
+import { DEFAULT_CACHE_CONFIG } from './Services/MetadataCache';
+import { DEFAULT_RETRY_CONFIG } from './Services/RequestPipeline';
+import { DEFAULT_TRACING_CONFIG } from './Services/Tracer';
+import { TransportConfig } from './Interfaces/Transport';
+import { ToolAccess, ToolSafetyMode } from './Interfaces/ToolDefinition';
+import { ALL_TOOL_DEFINITIONS, TOOL_GROUPS } from './Tools/ToolRegistry';
+import { DEFAULT_LOGGING_CONFIG, getDefaultLogDirectory, logger, LogLevel } from './utils/logger';
+import { redactText } from './utils/redaction';
+import { ValidationError } from './utils/errors';
+import { findConfigFile, getProfileEnvironment, readConfigProfile } from './configFile';
+
+// Variables set before the .env file was loaded, which take precedence over the configuration file
+const processEnvironment = new Set(Object.keys(process.env));
+
+// Messages about loading the .env and configuration files, written once both are loaded so
+// that they go to the log directory either of them sets
+const envDebugLog: string[] = [];
 
 // Try to load environment variables from .env file with multiple possible locations
 function loadEnvFile() {
@@ -34,7 +49,7 @@ function loadEnvFile() {
   if (fs.existsSync(projectRootEnv)) {
     debugInfo.push('  ✓ Found .env at project root: ' + projectRootEnv);
     dotenv.config({ path: projectRootEnv });
-    writeEnvDebugLog(debugInfo.join('\n'));
+    envDebugLog.push(debugInfo.join('\n'));
     return;
   }
   
@@ -45,7 +60,7 @@ function loadEnvFile() {
   if (fs.existsSync('.env')) {
     debugInfo.push('  ⚠️  Found .env in current directory - this might be the wrong project!');
     debugInfo.push('  ⚠️  Current dir: ' + process.cwd());
-    debugInfo.push('  ⚠️  Expected project: /mnt/c/Users/Jordan.HHHC/Documents/MCP/AzureDevOps-MCP');
+    debugInfo.push('  ⚠️  Expected project: ' + path.resolve(scriptDir, '..'));
     // Don't load it - continue checking other paths
   }
 
@@ -70,22 +85,23 @@ function loadEnvFile() {
     if (exists) {
       debugInfo.push('    ✓ Found .env at: ' + p);
       dotenv.config({ path: p });
-      writeEnvDebugLog(debugInfo.join('\n'));
+      envDebugLog.push(debugInfo.join('\n'));
       return;
     }
   }
 
   debugInfo.push('\n❌ No .env file found. Using environment variables if available.');
   debugInfo.push('Please ensure .env file is in one of the checked locations.');
-  writeEnvDebugLog(debugInfo.join('\n'));
+  envDebugLog.push(debugInfo.join('\n'));
 }
 
-// Write debug info to a file that can be read even in MCP mode
-function writeEnvDebugLog(message: string) {
+// Write debug info to a file that can be read even in MCP mode.
+// Secrets, e.g. a token passed on the command line, are redacted first.
+function writeEnvDebugLog(debugMessage: string) {
+  const message = redactText(debugMessage);
   try {
     // Write to the same logs directory as our main logger
-    const baseDir = path.dirname(require.main?.filename || __dirname);
-    const logsDir = path.join(baseDir, 'logs');
+    const logsDir = logger.getLogDirectory();
     
     // Ensure logs directory exists
     if (!fs.existsSync(logsDir)) {
@@ -109,36 +125,336 @@ function writeEnvDebugLog(message: string) {
   }
 }
 
-// Load environment variables
+/**
+ * Apply the profile selected from the configuration file to `process.env`.
+ *
+ * The file is given with `--config` or `AZURE_DEVOPS_CONFIG_FILE`, or found in the current
+ * directory, the project root or the home directory. The profile is selected with `--profile`
+ * or `AZURE_DEVOPS_PROFILE`. Its settings override the .env file but not the process environment.
+ */
+function loadConfigFile() {
+  const profileName = getCommandLineOption('profile') || process.env.AZURE_DEVOPS_PROFILE;
+  const configuredFile = getCommandLineOption('config') || process.env.AZURE_DEVOPS_CONFIG_FILE;
+  const file = configuredFile
+    ? path.resolve(configuredFile)
+    : findConfigFile([process.cwd(), path.join(__dirname, '..'), process.env.HOME || '']);
+  if (!file) {
+    if (profileName) {
+      throw new Error(`Profile "${profileName}" was selected but no configuration file was found. Create azuredevops-mcp.config.json or .yaml, or pass --config.`);
+    }
+    return;
+  }
+  if (!fs.existsSync(file)) {
+    throw new Error(`Configuration file ${file} not found.`);
+  }
+
+  const { name, profile } = readConfigProfile(file, profileName);
+  const applied: string[] = [];
+  for (const [variable, value] of Object.entries(getProfileEnvironment(profile))) {
+    if (!processEnvironment.has(variable)) {
+      process.env[variable] = value;
+      applied.push(variable);
+    }
+  }
+  envDebugLog.push(`=== Configuration File ===\nLoaded profile "${name}" from ${file}\nApplied: ${applied.join(', ') || 'none'}`);
+}
+
+// Load environment variables, then the configuration file. Errors in the file are reported
+// when the configuration is read, so they reach the server log and `--doctor`.
 loadEnvFile();
+let configFileError: Error | undefined;
+try {
+  loadConfigFile();
+} catch (error) {
+  configFileError = error instanceof Error ? error : new Error(String(error));
+}
+writeEnvDebugLog(envDebugLog.join('\n\n'));
 
 /**
- * Get Azure DevOps configuration from environment variables
+ * Get Azure DevOps configuration from environment variables and the selected configuration file
+ * profile, including the named connections listed in `AZURE_DEVOPS_CONNECTIONS`
+ * @throws Error when the configuration file is invalid or a required setting is missing
  */
 export function getAzureDevOpsConfig(): AzureDevOpsConfig {
-  const orgUrl = process.env.AZURE_DEVOPS_ORG_URL;
-  const project = process.env.AZURE_DEVOPS_PROJECT;
-  const personalAccessToken = process.env.AZURE_DEVOPS_PERSONAL_ACCESS_TOKEN || '';
-  const isOnPremises = process.env.AZURE_DEVOPS_IS_ON_PREMISES === 'true';
-  const collection = process.env.AZURE_DEVOPS_COLLECTION;
-  const apiVersion = process.env.AZURE_DEVOPS_API_VERSION;
+  if (configFileError) {
+    throw configFileError;
+  }
+  return {
+    ...readConnectionConfig('AZURE_DEVOPS_', true),
+    connections: getNamedConnections(),
+    retry: getRetryConfig()
+  };
+}
+
+/**
+ * Get the retry configuration from `AZURE_DEVOPS_MAX_RETRIES`, `AZURE_DEVOPS_RETRY_BASE_DELAY_MS`
+ * and `AZURE_DEVOPS_MAX_RETRY_DELAY_MS`
+ */
+export function getRetryConfig(): RetryConfig {
+  return {
+    maxRetries: readNonNegativeInteger('AZURE_DEVOPS_MAX_RETRIES', DEFAULT_RETRY_CONFIG.maxRetries),
+    baseDelayMs: readNonNegativeInteger('AZURE_DEVOPS_RETRY_BASE_DELAY_MS', DEFAULT_RETRY_CONFIG.baseDelayMs),
+    maxDelayMs: readNonNegativeInteger('AZURE_DEVOPS_MAX_RETRY_DELAY_MS', DEFAULT_RETRY_CONFIG.maxDelayMs)
+  };
+}
+
+// Environment variable suffix of each metadata entity's TTL, e.g. AZURE_DEVOPS_CACHE_TTL_AREAS
+const CACHE_TTL_VARIABLES: Record<MetadataEntity, string> = {
+  workItemTypes: 'WORK_ITEM_TYPES',
+  workItemTypeFields: 'WORK_ITEM_TYPE_FIELDS',
+  areas: 'AREAS',
+  iterations: 'ITERATIONS',
+  teams: 'TEAMS'
+};
+
+/**
+ * Get the metadata cache configuration.
+ *
+ * `AZURE_DEVOPS_CACHE_TTL` sets the TTL in seconds of every entity and `AZURE_DEVOPS_CACHE_TTL_<ENTITY>`
+ * overrides it for one entity; 0 disables caching. `AZURE_DEVOPS_CACHE_FILE` persists the cache to disk.
+ */
+export function getCacheConfig(): CacheConfig {
+  const defaultTtl = readNonNegativeInteger('AZURE_DEVOPS_CACHE_TTL', DEFAULT_CACHE_CONFIG.ttlSeconds.workItemTypes);
+  const ttlSeconds = {} as CacheConfig['ttlSeconds'];
+  for (const entity of METADATA_ENTITIES) {
+    ttlSeconds[entity] = readNonNegativeInteger(`AZURE_DEVOPS_CACHE_TTL_${CACHE_TTL_VARIABLES[entity]}`, defaultTtl);
+  }
+  const file = process.env.AZURE_DEVOPS_CACHE_FILE;
+  return {
+    ttlSeconds,
+    ...(file && { file: path.resolve(file) })
+  };
+}
+
+/**
+ * Get the logging configuration from `LOG_LEVEL`, `LOG_DIR`, `LOG_MAX_SIZE_MB` and `LOG_MAX_FILES`
+ */
+export function getLoggingConfig(): LoggingConfig {
+  const levelInput = process.env.LOG_LEVEL;
+  let level = DEFAULT_LOGGING_CONFIG.level;
+  if (levelInput) {
+    const name = levelInput.toUpperCase() === 'WARNING' ? LogLevel.WARN : levelInput.toUpperCase();
+    if (!Object.values(LogLevel).includes(name as LogLevel)) {
+      throw new Error(`Invalid LOG_LEVEL "${levelInput}". Must be one of: error, warn, info, debug.`);
+    }
+    level = name as LogLevel;
+  }
+  return {
+    level,
+    directory: getDefaultLogDirectory(),
+    maxFileSizeBytes: readNonNegativeInteger('LOG_MAX_SIZE_MB', DEFAULT_LOGGING_CONFIG.maxFileSizeBytes / (1024 * 1024)) * 1024 * 1024,
+    maxFiles: readNonNegativeInteger('LOG_MAX_FILES', DEFAULT_LOGGING_CONFIG.maxFiles)
+  };
+}
+
+/**
+ * Get the tracing configuration from the standard OpenTelemetry variables: `OTEL_TRACES_EXPORTER`
+ * (`otlp`, `file` or `none`), `OTEL_EXPORTER_OTLP_TRACES_ENDPOINT` or `OTEL_EXPORTER_OTLP_ENDPOINT`,
+ * `OTEL_EXPORTER_OTLP_HEADERS` and `OTEL_SERVICE_NAME`. `AZURE_DEVOPS_TRACE_FILE` sets the file
+ * of the `file` exporter.
+ */
+export function getTracingConfig(): TracingConfig {
+  const exporter = (process.env.OTEL_TRACES_EXPORTER || DEFAULT_TRACING_CONFIG.exporter).toLowerCase() as TraceExporterType;
+  if (!['none', 'otlp', 'file'].includes(exporter)) {
+    throw new Error(`Unsupported OTEL_TRACES_EXPORTER "${exporter}". Must be 'otlp', 'file' or 'none'.`);
+  }
+  const serviceName = process.env.OTEL_SERVICE_NAME || DEFAULT_TRACING_CONFIG.serviceName;
+  if (exporter === 'file') {
+    const file = process.env.AZURE_DEVOPS_TRACE_FILE;
+    return { exporter, serviceName, file: file ? path.resolve(file) : path.join(logger.getLogDirectory(), 'traces.jsonl') };
+  }
+  if (exporter === 'otlp') {
+    const baseEndpoint = (process.env.OTEL_EXPORTER_OTLP_ENDPOINT || 'http://localhost:4318').replace(/\/+$/, '');
+    return {
+      exporter,
+      serviceName,
+      endpoint: process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT || `${baseEndpoint}/v1/traces`,
+      headers: parseOtlpHeaders(process.env.OTEL_EXPORTER_OTLP_HEADERS || '')
+    };
+  }
+  return { exporter, serviceName };
+}
+
+/**
+ * Parse OTLP headers given as `key1=value1,key2=value2`, with URL-encoded values
+ */
+function parseOtlpHeaders(input: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const pair of input.split(',')) {
+    const separator = pair.indexOf('=');
+    if (separator > 0) {
+      headers[pair.substring(0, separator).trim()] = decodeURIComponent(pair.substring(separator + 1).trim());
+    }
+  }
+  return headers;
+}
+
+/**
+ * Get the audit log configuration. `AZURE_DEVOPS_AUDIT_LOG` sets the JSONL file, or
+ * disables the audit log when set to `false` or `off`.
+ */
+export function getAuditConfig(): AuditConfig {
+  const value = process.env.AZURE_DEVOPS_AUDIT_LOG;
+  if (value && ['false', 'off'].includes(value.toLowerCase())) {
+    return { enabled: false };
+  }
+  return {
+    enabled: true,
+    ...(value && { file: path.resolve(value) })
+  };
+}
+
+function readNonNegativeInteger(name: string, defaultValue: number): number {
+  const input = process.env[name];
+  if (input === undefined || input === '') {
+    return defaultValue;
+  }
+  const value = Number(input);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`Invalid ${name} "${input}". Must be a non-negative integer.`);
+  }
+  return value;
+}
+
+/**
+ * Read the named connections listed in `AZURE_DEVOPS_CONNECTIONS`.
+ *
+ * A connection named `fabrikam` is configured with the same variables as the default
+ * connection, prefixed `AZURE_DEVOPS_CONNECTION_FABRIKAM_` (e.g. `AZURE_DEVOPS_CONNECTION_FABRIKAM_ORG_URL`).
+ * Its project is optional; without one, callers must pass `project`.
+ */
+function getNamedConnections(): Record<string, AzureDevOpsConfig> {
+  const connections: Record<string, AzureDevOpsConfig> = {};
+  const names = (process.env.AZURE_DEVOPS_CONNECTIONS || '').split(',').map(name => name.trim()).filter(name => name);
+  for (const name of names) {
+    const prefix = `AZURE_DEVOPS_CONNECTION_${name.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_`;
+    connections[name] = { ...readConnectionConfig(prefix, false), name };
+  }
+  return connections;
+}
+
+/**
+ * Resolve the configuration a tool call runs with from its `project` and `organization` parameters.
+ *
+ * `organization` is matched against the named connections by name, then against the org URL or
+ * organization name of the default and named connections. An organization name that matches none of
+ * them reuses the default credentials as the collection on-premises or `https://dev.azure.com/<name>`
+ * in the cloud. A URL must match a configured connection, so that the credentials are never sent to
+ * a host the caller names.
+ * @param config The configuration returned by `getAzureDevOpsConfig`
+ * @param params The `project` and `organization` tool parameters
+ * @returns The configuration to run the call with
+ */
+export function resolveConnectionConfig(config: AzureDevOpsConfig, params: ConnectionParams): AzureDevOpsConfig {
+  const connection = params.organization ? findConnection(config, params.organization.trim()) : config;
+  const project = params.project?.trim() || connection.project;
+  if (!project) {
+    throw new Error(`No project configured for organization "${params.organization}". Pass the project parameter.`);
+  }
+  if (connection === config && project === config.project) {
+    return config;
+  }
+  return {
+    ...connection,
+    project,
+    entraAuthHandler: config.entraAuthHandler,
+    connections: config.connections,
+    retry: config.retry
+  };
+}
+
+// Organization and collection names; no characters that could change the host or path of the URL
+const ORGANIZATION_NAME = /^[A-Za-z0-9][A-Za-z0-9 ._-]*$/;
+
+/**
+ * Find the connection for an `organization` parameter, see `resolveConnectionConfig`
+ */
+function findConnection(config: AzureDevOpsConfig, organization: string): AzureDevOpsConfig {
+  const value = organization.toLowerCase();
+  const connections = Object.values(config.connections || {});
+
+  const named = connections.find(connection => connection.name?.toLowerCase() === value);
+  if (named) {
+    return named;
+  }
+
+  const isUrl = /^https?:\/\//i.test(organization);
+  const matching = [config, ...connections].find(connection => isUrl
+    ? normalizeUrl(connection.orgUrl) === normalizeUrl(organization)
+    : getOrganizationName(connection)?.toLowerCase() === value);
+  if (matching) {
+    return matching;
+  }
+
+  if (isUrl) {
+    const configured = [config, ...connections].map(connection => connection.name || connection.orgUrl).join(', ');
+    throw new ValidationError(`Organization URL ${organization} is not configured. Use one of: ${configured}, or add it to AZURE_DEVOPS_CONNECTIONS.`, { fields: ['organization'] });
+  }
+  if (!ORGANIZATION_NAME.test(organization)) {
+    throw new ValidationError(`Invalid organization name "${organization}".`, { fields: ['organization'] });
+  }
+  return config.isOnPremises
+    ? { ...config, collection: organization, name: undefined }
+    : { ...config, orgUrl: `https://dev.azure.com/${encodeURIComponent(organization)}`, name: undefined };
+}
+
+/**
+ * Get the organization name of a connection: the collection on-premises, otherwise
+ * the name in a `dev.azure.com/<name>` or `<name>.visualstudio.com` URL
+ */
+function getOrganizationName(config: AzureDevOpsConfig): string | undefined {
+  if (config.isOnPremises) {
+    return config.collection;
+  }
+  try {
+    const url = new URL(config.orgUrl);
+    if (url.hostname.toLowerCase().endsWith('.visualstudio.com')) {
+      return url.hostname.split('.')[0];
+    }
+    return decodeURIComponent(url.pathname.split('/').filter(segment => segment)[0] || '') || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function normalizeUrl(url: string): string {
+  return url.replace(/\/+$/, '').toLowerCase();
+}
+
+/**
+ * Read a connection configuration from environment variables with the given prefix
+ * @param prefix Prefix of the variable names, e.g. `AZURE_DEVOPS_`
+ * @param requireProject Whether `<prefix>PROJECT` must be set
+ */
+function readConnectionConfig(prefix: string, requireProject: boolean): AzureDevOpsConfig {
+  const orgUrl = process.env[`${prefix}ORG_URL`];
+  const project = process.env[`${prefix}PROJECT`] || '';
+  const personalAccessToken = process.env[`${prefix}PERSONAL_ACCESS_TOKEN`] || '';
+  const isOnPremises = process.env[`${prefix}IS_ON_PREMISES`] === 'true';
+  const collection = process.env[`${prefix}COLLECTION`];
+  const apiVersion = process.env[`${prefix}API_VERSION`];
+  const username = process.env[`${prefix}USERNAME`];
+  const password = process.env[`${prefix}PASSWORD`];
+  const domain = process.env[`${prefix}DOMAIN`];
+  const defaultTeam = process.env[`${prefix}DEFAULT_TEAM`];
+  const defaultRepository = process.env[`${prefix}DEFAULT_REPOSITORY`];
   
   // Basic validation
-  if (!orgUrl || !project) {
+  if (!orgUrl || (requireProject && !project)) {
     const missingVars = [];
-    if (!orgUrl) missingVars.push('AZURE_DEVOPS_ORG_URL');
-    if (!project) missingVars.push('AZURE_DEVOPS_PROJECT');
+    if (!orgUrl) missingVars.push(`${prefix}ORG_URL`);
+    if (requireProject && !project) missingVars.push(`${prefix}PROJECT`);
     
     console.error('Environment variables check:');
-    console.error('AZURE_DEVOPS_ORG_URL:', orgUrl ? 'SET' : 'NOT SET');
-    console.error('AZURE_DEVOPS_PROJECT:', project ? 'SET' : 'NOT SET');
+    console.error(`${prefix}ORG_URL:`, orgUrl ? 'SET' : 'NOT SET');
+    console.error(`${prefix}PROJECT:`, project ? 'SET' : 'NOT SET');
     console.error('Missing variables:', missingVars.join(', '));
     
     throw new Error(`Missing required Azure DevOps configuration: ${missingVars.join(', ')}. Please check .env file or environment variables.`);
   }
 
   // Authentication configuration
-  const authTypeInput = process.env.AZURE_DEVOPS_AUTH_TYPE || 'pat';
+  const authTypeInput = process.env[`${prefix}AUTH_TYPE`] || 'pat';
   const authType = (authTypeInput === 'ntlm' || authTypeInput === 'basic' || authTypeInput === 'pat' || authTypeInput === 'entra')
     ? authTypeInput
     : 'pat';
@@ -153,24 +469,24 @@ export function getAzureDevOpsConfig(): AzureDevOpsConfig {
   } else if (isOnPremises) {
     switch (authType) {
       case 'ntlm':
-        if (!process.env.AZURE_DEVOPS_USERNAME || !process.env.AZURE_DEVOPS_PASSWORD) {
+        if (!username || !password) {
           throw new Error('NTLM authentication requires username and password.');
         }
         auth = {
           type: 'ntlm',
-          username: process.env.AZURE_DEVOPS_USERNAME,
-          password: process.env.AZURE_DEVOPS_PASSWORD,
-          domain: process.env.AZURE_DEVOPS_DOMAIN
+          username,
+          password,
+          domain
         };
         break;
       case 'basic':
-        if (!process.env.AZURE_DEVOPS_USERNAME || !process.env.AZURE_DEVOPS_PASSWORD) {
+        if (!username || !password) {
           throw new Error('Basic authentication requires username and password.');
         }
         auth = {
           type: 'basic',
-          username: process.env.AZURE_DEVOPS_USERNAME,
-          password: process.env.AZURE_DEVOPS_PASSWORD
+          username,
+          password
         };
         break;
       case 'pat':
@@ -185,7 +501,7 @@ export function getAzureDevOpsConfig(): AzureDevOpsConfig {
   } else { // Cloud environment
     if (authType === 'pat') {
       if (!personalAccessToken) {
-        throw new Error('PAT authentication requires a personal access token for Azure DevOps cloud unless AZURE_DEVOPS_AUTH_TYPE is set to entra.');
+        throw new Error(`PAT authentication requires a personal access token for Azure DevOps cloud unless ${prefix}AUTH_TYPE is set to entra.`);
       }
       auth = { type: 'pat' };
     } else { // If not 'pat' and not 'entra' (already handled), then it's an unsupported type for cloud
@@ -200,27 +516,229 @@ export function getAzureDevOpsConfig(): AzureDevOpsConfig {
     isOnPremises,
     collection,
     apiVersion,
-    ...(auth && { auth })
+    ...(auth && { auth }),
+    ...((defaultTeam || defaultRepository) && {
+      defaults: {
+        ...(defaultTeam && { team: defaultTeam }),
+        ...(defaultRepository && { repository: defaultRepository })
+      }
+    })
   };
 }
 
-const ALL_ALLOWED_TOOLS = AIAssistedDevelopmentToolMethods
-  .concat(ArtifactManagementToolMethods)
-  .concat(BoardsSprintsToolMethods)
-  .concat(DevSecOpsToolMethods)
-  .concat(GitToolMethods)
-  .concat(ProjectToolMethods)
-  .concat(TestingCapabilitiesToolMethods)
-  .concat(WorkItemToolMethods);
+/**
+ * Check whether a command-line flag such as `--doctor` was given
+ */
+export function hasCommandLineFlag(name: string): boolean {
+  return process.argv.slice(2).includes(`--${name}`);
+}
+
+/**
+ * Read a command-line option given as `--name value` or `--name=value`.
+ */
+function getCommandLineOption(name: string): string | undefined {
+  const args = process.argv.slice(2);
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === `--${name}`) {
+      return args[i + 1];
+    }
+    if (args[i].startsWith(`--${name}=`)) {
+      return args[i].substring(name.length + 3);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Get the MCP transport configuration from command-line options, falling back to environment variables.
+ *
+ * Defaults to stdio. The HTTP transport binds to 127.0.0.1:3000 unless `--host`/`--port`
+ * (or `MCP_HTTP_HOST`/`MCP_HTTP_PORT`) say otherwise.
+ */
+export function getTransportConfig(): TransportConfig {
+  const typeInput = (getCommandLineOption('transport') || process.env.MCP_TRANSPORT || 'stdio').toLowerCase();
+  if (typeInput !== 'stdio' && typeInput !== 'http') {
+    throw new Error(`Unsupported transport "${typeInput}". Must be 'stdio' or 'http'.`);
+  }
+
+  const host = getCommandLineOption('host') || process.env.MCP_HTTP_HOST || '127.0.0.1';
+  const portInput = getCommandLineOption('port') || process.env.MCP_HTTP_PORT || '3000';
+  const port = Number(portInput);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid HTTP port "${portInput}". Must be an integer between 0 and 65535.`);
+  }
+
+  const idleTimeoutInput = process.env.MCP_HTTP_SESSION_IDLE_TIMEOUT || '1800';
+  const sessionIdleTimeoutSeconds = Number(idleTimeoutInput);
+  if (!Number.isFinite(sessionIdleTimeoutSeconds) || sessionIdleTimeoutSeconds < 0) {
+    throw new Error(`Invalid MCP_HTTP_SESSION_IDLE_TIMEOUT "${idleTimeoutInput}". Must be a number of seconds, 0 to disable.`);
+  }
+
+  const allowedHosts = parseList(process.env.MCP_HTTP_ALLOWED_HOSTS);
+  const allowedOrigins = parseList(process.env.MCP_HTTP_ALLOWED_ORIGINS);
+  return {
+    type: typeInput,
+    host,
+    port,
+    metrics: hasCommandLineFlag('metrics') || process.env.MCP_HTTP_METRICS === 'true',
+    allowedHosts: allowedHosts.length > 0 ? allowedHosts : getDefaultAllowedHosts(host, port),
+    allowedOrigins: allowedOrigins.length > 0 ? allowedOrigins : undefined,
+    authToken: process.env.MCP_HTTP_AUTH_TOKEN || undefined,
+    sessionIdleTimeoutSeconds
+  };
+}
+
+/**
+ * `Host` headers accepted by default: the loopback names, and the bound host unless it is a wildcard
+ */
+function getDefaultAllowedHosts(host: string, port: number): string[] {
+  const names = ['localhost', '127.0.0.1', '[::1]'];
+  if (!['0.0.0.0', '::', '[::]'].includes(host)) {
+    names.push(host.includes(':') && !host.startsWith('[') ? `[${host}]` : host);
+  }
+  return Array.from(new Set(names)).map(name => `${name}:${port}`);
+}
+
+/**
+ * Split a comma-separated setting into trimmed, non-empty items
+ */
+function parseList(value: string | undefined): string[] {
+  return (value || '').split(',').map(item => item.trim()).filter(item => item);
+}
+
+const ALL_TOOL_NAMES = ALL_TOOL_DEFINITIONS.map(definition => definition.name);
+
+// Tool tiers exposed in each safety mode
+const MODE_ACCESS: Record<ToolSafetyMode, ToolAccess[]> = {
+  readonly: ['read'],
+  write: ['read', 'write'],
+  full: ['read', 'write', 'destructive']
+};
+
+/**
+ * Get the tool safety mode from `process.env.AZURE_DEVOPS_MODE`.
+ *
+ * Defaults to `full` so existing setups keep every tool.
+ */
+export function getToolSafetyMode(): ToolSafetyMode {
+  const modeInput = (process.env.AZURE_DEVOPS_MODE || 'full').toLowerCase();
+  if (modeInput !== 'readonly' && modeInput !== 'write' && modeInput !== 'full') {
+    throw new Error(`Unsupported AZURE_DEVOPS_MODE "${modeInput}". Must be 'readonly', 'write' or 'full'.`);
+  }
+  return modeInput;
+}
+
+// Tier tokens usable in ALLOWED_TOOLS and DENIED_TOOLS
+const ACCESS_TOKENS: Record<string, ToolAccess> = {
+  '@readonly': 'read',
+  '@write': 'write',
+  '@destructive': 'destructive'
+};
 
 /**
- * Get allowed tools from `process.env.ALLOWED_TOOLS`.
+ * Resolve a single ALLOWED_TOOLS/DENIED_TOOLS token to tool names.
+ *
+ * A token is a tool name, a wildcard pattern such as `get*`, a group such as `@workitems`,
+ * or a tier such as `@readonly`.
+ */
+function resolveToolToken(token: string): string[] {
+  if (token.startsWith('@')) {
+    const group = TOOL_GROUPS.find(group => `@${group.id}` === token);
+    if (group) {
+      return group.definitions.map(definition => definition.name);
+    }
+    const access = ACCESS_TOKENS[token];
+    return access
+      ? ALL_TOOL_DEFINITIONS.filter(definition => definition.access === access).map(definition => definition.name)
+      : [];
+  }
+
+  if (token.includes('*') || token.includes('?')) {
+    const pattern = new RegExp('^' + token
+      .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+      .replace(/\*/g, '.*')
+      .replace(/\?/g, '.') + '$');
+    return ALL_TOOL_NAMES.filter(name => pattern.test(name));
+  }
+
+  return ALL_TOOL_NAMES.includes(token) ? [token] : [];
+}
+
+/**
+ * Split a comma-separated tool list into trimmed, non-empty tokens
+ */
+function parseToolTokens(value: string): string[] {
+  return value.split(',').map(token => token.trim()).filter(token => token);
+}
+
+/**
+ * Get allowed tools from `process.env.ALLOWED_TOOLS` and `process.env.DENIED_TOOLS`,
+ * limited to the tiers permitted by `AZURE_DEVOPS_MODE`.
  * 
- * For backward compatibility, if `process.env.ALLOWED_TOOLS` is `undefined`, all tools are allowed.
+ * `ALLOWED_TOOLS` tokens are applied left to right; a token prefixed with `-` removes tools.
+ * For backward compatibility, if `process.env.ALLOWED_TOOLS` is `undefined` (or only removes tools),
+ * it starts from all tools permitted by the mode. `DENIED_TOOLS` is subtracted from the result.
+ * Tools declared `optIn` are only enabled when `ALLOWED_TOOLS` names them.
+ * Tokens that match no tool, and tools the mode does not permit, are ignored with a warning.
  */
 export function getAllowedTools(): Set<string> {
-  const ALLOWED_TOOLS = process.env.ALLOWED_TOOLS;
-  if (!ALLOWED_TOOLS) return new Set(ALL_ALLOWED_TOOLS);
-  const allowedTools = ALLOWED_TOOLS.split(',');
-  return new Set(allowedTools);
+  const mode = getToolSafetyMode();
+  const permittedTools = new Set(ALL_TOOL_DEFINITIONS
+    .filter(definition => MODE_ACCESS[mode].includes(definition.access))
+    .map(definition => definition.name));
+  const optInTools = new Set(ALL_TOOL_DEFINITIONS
+    .filter(definition => definition.optIn)
+    .map(definition => definition.name));
+
+  const unknownTokens: string[] = [];
+  const resolve = (token: string): string[] => {
+    const names = resolveToolToken(token);
+    if (names.length === 0) {
+      unknownTokens.push(token);
+    }
+    return names;
+  };
+
+  const allowedTokens = parseToolTokens(process.env.ALLOWED_TOOLS || '');
+  const startsFromAll = !allowedTokens.some(token => !token.startsWith('-'));
+  const selectedTools = new Set<string>(startsFromAll
+    ? Array.from(permittedTools).filter(name => !optInTools.has(name))
+    : []);
+  const explicitTools = new Set<string>();
+
+  for (const token of allowedTokens) {
+    if (token.startsWith('-')) {
+      resolve(token.substring(1)).forEach(name => selectedTools.delete(name));
+    } else {
+      resolve(token).forEach(name => {
+        if (optInTools.has(name) && token !== name) {
+          return;
+        }
+        selectedTools.add(name);
+        explicitTools.add(name);
+      });
+    }
+  }
+
+  for (const token of parseToolTokens(process.env.DENIED_TOOLS || '')) {
+    resolve(token.startsWith('-') ? token.substring(1) : token).forEach(name => selectedTools.delete(name));
+  }
+
+  const allowedTools = new Set<string>();
+  const blockedTools: string[] = [];
+  for (const name of selectedTools) {
+    if (permittedTools.has(name)) {
+      allowedTools.add(name);
+    } else if (explicitTools.has(name)) {
+      blockedTools.push(name);
+    }
+  }
+
+  if (unknownTokens.length > 0) {
+    logger.warn('Config', 'ALLOWED_TOOLS/DENIED_TOOLS contain tokens that match no tool, ignoring them', { unknownTokens });
+  }
+  if (blockedTools.length > 0) {
+    logger.warn('Config', `ALLOWED_TOOLS contains tools not permitted in ${mode} mode, ignoring them`, { blockedTools });
+  }
+  return allowedTools;
 }
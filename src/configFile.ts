@@ -0,0 +1,175 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { parse as parseYaml } from 'yaml';
+import { ConfigProfile } from './Interfaces/ConfigFile';
+
+/**
+ * Names of the configuration file, looked up in this order in each directory
+ */
+export const CONFIG_FILE_NAMES = ['azuredevops-mcp.config.json', 'azuredevops-mcp.config.yaml', 'azuredevops-mcp.config.yml'];
+
+// `${NAME}` or `${NAME:-default}`
+const ENV_REFERENCE = /\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+
+const toolListSchema = z.array(z.string().min(1));
+
+const profileSchema = z.object({
+  orgUrl: z.string().url(),
+  project: z.string().min(1).optional(),
+  authType: z.enum(['pat', 'ntlm', 'basic', 'entra']).optional(),
+  personalAccessToken: z.string().optional(),
+  isOnPremises: z.boolean().optional(),
+  collection: z.string().min(1).optional(),
+  apiVersion: z.string().min(1).optional(),
+  username: z.string().optional(),
+  password: z.string().optional(),
+  domain: z.string().optional(),
+  mode: z.enum(['readonly', 'write', 'full']).optional(),
+  allowedTools: toolListSchema.optional(),
+  deniedTools: toolListSchema.optional(),
+  defaults: z.object({
+    team: z.string().min(1).optional(),
+    repository: z.string().min(1).optional()
+  }).strict().optional()
+}).strict();
+
+// Profiles are validated once selected, after their environment variables are substituted
+const fileSchema = z.object({
+  defaultProfile: z.string().min(1).optional(),
+  profiles: z.record(z.record(z.unknown()))
+}).strict();
+
+/**
+ * Find the configuration file in the first directory that has one
+ * @param directories The directories to look in
+ * @returns The path of the file, or undefined when there is none
+ */
+export function findConfigFile(directories: string[]): string | undefined {
+  for (const directory of directories) {
+    for (const name of CONFIG_FILE_NAMES) {
+      const file = path.join(directory, name);
+      if (fs.existsSync(file)) {
+        return file;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Read a profile from a configuration file.
+ *
+ * Without a profile name, the file's `defaultProfile` is used, or its only profile.
+ * `${NAME}` and `${NAME:-default}` in the profile's strings are replaced with environment variables,
+ * so secrets can stay out of the file.
+ * @param file The JSON or YAML configuration file
+ * @param profileName The profile to read, e.g. from `--profile`
+ * @returns The profile name and its settings
+ * @throws Error naming the file and the setting when the file cannot be read or is invalid
+ */
+export function readConfigProfile(file: string, profileName?: string): { name: string; profile: ConfigProfile } {
+  const config = parseConfigFile(file);
+  const names = Object.keys(config.profiles);
+  const name = profileName || config.defaultProfile || (names.length === 1 ? names[0] : undefined);
+  if (!name) {
+    throw new Error(`${file}: Select a profile with --profile or AZURE_DEVOPS_PROFILE, or set defaultProfile. Profiles: ${names.join(', ') || 'none'}.`);
+  }
+  const rawProfile = config.profiles[name];
+  if (!rawProfile) {
+    throw new Error(`${file}: Profile "${name}" not found. Profiles: ${names.join(', ') || 'none'}.`);
+  }
+
+  const missing: string[] = [];
+  const interpolated = interpolate(rawProfile, `profiles.${name}`, missing);
+  if (missing.length > 0) {
+    throw new Error(`${file}: ${missing.join('; ')}`);
+  }
+  const result = profileSchema.safeParse(interpolated);
+  if (!result.success) {
+    throw new Error(`${file}: ${formatIssues(result.error, ['profiles', name])}`);
+  }
+  return { name, profile: result.data };
+}
+
+/**
+ * Get the environment variables a profile stands for, e.g. `AZURE_DEVOPS_ORG_URL` for `orgUrl`
+ * @param profile The profile
+ * @returns The variables of the settings the profile has
+ */
+export function getProfileEnvironment(profile: ConfigProfile): Record<string, string> {
+  const variables: Record<string, string | undefined> = {
+    AZURE_DEVOPS_ORG_URL: profile.orgUrl,
+    AZURE_DEVOPS_PROJECT: profile.project,
+    AZURE_DEVOPS_AUTH_TYPE: profile.authType,
+    AZURE_DEVOPS_PERSONAL_ACCESS_TOKEN: profile.personalAccessToken,
+    AZURE_DEVOPS_IS_ON_PREMISES: profile.isOnPremises === undefined ? undefined : String(profile.isOnPremises),
+    AZURE_DEVOPS_COLLECTION: profile.collection,
+    AZURE_DEVOPS_API_VERSION: profile.apiVersion,
+    AZURE_DEVOPS_USERNAME: profile.username,
+    AZURE_DEVOPS_PASSWORD: profile.password,
+    AZURE_DEVOPS_DOMAIN: profile.domain,
+    AZURE_DEVOPS_MODE: profile.mode,
+    ALLOWED_TOOLS: profile.allowedTools?.join(','),
+    DENIED_TOOLS: profile.deniedTools?.join(','),
+    AZURE_DEVOPS_DEFAULT_TEAM: profile.defaults?.team,
+    AZURE_DEVOPS_DEFAULT_REPOSITORY: profile.defaults?.repository
+  };
+  return Object.fromEntries(Object.entries(variables).filter(([, value]) => value !== undefined)) as Record<string, string>;
+}
+
+function parseConfigFile(file: string): z.infer<typeof fileSchema> {
+  let content: unknown;
+  try {
+    const text = fs.readFileSync(file, 'utf8');
+    content = path.extname(file).toLowerCase() === '.json' ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    throw new Error(`${file}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const result = fileSchema.safeParse(content);
+  if (!result.success) {
+    throw new Error(`${file}: ${formatIssues(result.error, [])}`);
+  }
+  return result.data;
+}
+
+/**
+ * Replace environment variable references in every string of a value
+ * @param value The value
+ * @param location Path of the value in the file, for error messages
+ * @param missing Collects the references to variables that are not set
+ */
+function interpolate(value: unknown, location: string, missing: string[]): unknown {
+  if (typeof value === 'string') {
+    return value.replace(ENV_REFERENCE, (reference, name: string, defaultValue: string | undefined) => {
+      const variable = process.env[name];
+      if (variable !== undefined && variable !== '') {
+        return variable;
+      }
+      if (defaultValue !== undefined) {
+        return defaultValue;
+      }
+      missing.push(`${location}: Environment variable ${name} is not set`);
+      return reference;
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) => interpolate(item, `${location}[${index}]`, missing));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, interpolate(item, `${location}.${key}`, missing)]));
+  }
+  return value;
+}
+
+/**
+ * Format validation issues as `path: message`, e.g. `profiles.work.orgUrl: Invalid url`
+ */
+function formatIssues(error: z.ZodError, basePath: (string | number)[]): string {
+  return error.issues.map(issue => {
+    const location = [...basePath, ...issue.path]
+      .map((segment, index) => typeof segment === 'number' ? `[${segment}]` : `${index > 0 ? '.' : ''}${segment}`)
+      .join('');
+    return location ? `${location}: ${issue.message}` : issue.message;
+  }).join('; ');
+}
@@ -0,0 +1,48 @@
+import { getAzureDevOpsConfig } from './config';
+import { AzureDevOpsConfig } from './Interfaces/AzureDevOps';
+import { DiagnosticReport } from './Interfaces/Diagnostics';
+import { createReport, DiagnosticsService, formatDiagnosticReport, getAuthHint } from './Services/DiagnosticsService';
+import { EntraAuthHandler } from './Services/EntraAuthHandler';
+
+/**
+ * Diagnose the configured connection for `--doctor` and print the report
+ * @returns The process exit code: 0 when no check failed, 1 otherwise
+ */
+export async function runDoctor(): Promise<number> {
+  const report = await diagnose();
+  console.log(formatDiagnosticReport(report));
+  return report.healthy ? 0 : 1;
+}
+
+async function diagnose(): Promise<DiagnosticReport> {
+  let config: AzureDevOpsConfig;
+  try {
+    config = getAzureDevOpsConfig();
+  } catch (error) {
+    return createReport({
+      orgUrl: process.env.AZURE_DEVOPS_ORG_URL || '',
+      project: process.env.AZURE_DEVOPS_PROJECT || '',
+      isOnPremises: process.env.AZURE_DEVOPS_IS_ON_PREMISES === 'true'
+    }, [{
+      name: 'Configuration',
+      status: 'fail',
+      message: error instanceof Error ? error.message : String(error),
+      hint: 'Set the variables in a .env file or the MCP client configuration, see "Environment Variables" in the README.'
+    }]);
+  }
+
+  if (config.auth?.type === 'entra') {
+    try {
+      config.entraAuthHandler = await EntraAuthHandler.getInstance();
+    } catch (error) {
+      return createReport(config, [{
+        name: 'Authentication',
+        status: 'fail',
+        message: `Could not get an Entra token: ${error instanceof Error ? error.message : String(error)}`,
+        hint: getAuthHint(config)
+      }]);
+    }
+  }
+
+  return await new DiagnosticsService(config).diagnose();
+}
@@ -0,0 +1,245 @@
+/**
+ * Classifies failures from Azure DevOps into typed errors that carry a stable error code,
+ * the Azure DevOps message ID (e.g. `TF401027`) and a hint on how to recover.
+ */
+
+/**
+ * Stable codes returned to MCP clients in error responses
+ */
+export type AzureDevOpsErrorCode =
+  | 'AUTHENTICATION_FAILED'
+  | 'PERMISSION_DENIED'
+  | 'NOT_FOUND'
+  | 'VALIDATION_FAILED'
+  | 'CONFLICT'
+  | 'THROTTLED'
+  | 'SERVER_ERROR'
+  | 'NETWORK_ERROR'
+  | 'UNKNOWN';
+
+export interface AzureDevOpsErrorOptions {
+  statusCode?: number;
+  messageId?: string; // Azure DevOps message ID such as TF401027 or VS402323
+  hint?: string;
+  fields?: string[]; // Fields named in a validation error
+  retryAfterSeconds?: number;
+}
+
+/**
+ * An error from Azure DevOps, classified by `classifyError`
+ */
+export class AzureDevOpsError extends Error {
+  public readonly statusCode?: number;
+  public readonly messageId?: string;
+  public readonly hint?: string;
+  public readonly fields?: string[];
+  public readonly retryAfterSeconds?: number;
+
+  constructor(public readonly code: AzureDevOpsErrorCode, message: string, options: AzureDevOpsErrorOptions = {}) {
+    super(message);
+    this.name = 'AzureDevOpsError';
+    this.statusCode = options.statusCode;
+    this.messageId = options.messageId ?? getMessageId(message);
+    this.hint = options.hint;
+    this.fields = options.fields;
+    this.retryAfterSeconds = options.retryAfterSeconds;
+  }
+}
+
+/**
+ * Azure DevOps did not accept the credentials (HTTP 401, or a sign-in page returned with HTTP 203)
+ */
+export class AuthenticationError extends AzureDevOpsError {
+  constructor(message: string, options: AzureDevOpsErrorOptions = {}) {
+    super('AUTHENTICATION_FAILED', message, {
+      hint: 'Check that the credentials are valid and not expired, then run the diagnoseConnection tool to find the failing setting.',
+      ...options
+    });
+    this.name = 'AuthenticationError';
+  }
+}
+
+/**
+ * The credentials were accepted but lack a PAT scope or permission (HTTP 403, TF401027, TF400813)
+ */
+export class PermissionError extends AzureDevOpsError {
+  constructor(message: string, options: AzureDevOpsErrorOptions = {}) {
+    super('PERMISSION_DENIED', message, {
+      hint: 'The credentials lack a permission this operation needs. Ask a project administrator for access, or grant the PAT the matching scope.',
+      ...options
+    });
+    this.name = 'PermissionError';
+  }
+}
+
+/**
+ * The item does not exist or the credentials cannot see it (HTTP 404, TF401019, VS402323)
+ */
+export class NotFoundError extends AzureDevOpsError {
+  constructor(message: string, options: AzureDevOpsErrorOptions = {}) {
+    super('NOT_FOUND', message, {
+      hint: 'Check the ID or name. The item may have been deleted, may be in another project, or may not be visible to these credentials.',
+      ...options
+    });
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * Azure DevOps rejected the request content, e.g. a missing required field or a value a rule does not allow (HTTP 400)
+ */
+export class ValidationError extends AzureDevOpsError {
+  constructor(message: string, options: AzureDevOpsErrorOptions = {}) {
+    const fields = options.fields && options.fields.length > 0 ? options.fields : undefined;
+    // Work item fields have reference names such as System.State, tool parameters do not
+    const workItemFields = fields?.some(field => field.includes('.'));
+    super('VALIDATION_FAILED', message, {
+      hint: fields
+        ? `Check the values of ${fields.join(', ')}.${workItemFields ? ' getWorkItemTypeFields lists the fields of a work item type.' : ''}`
+        : 'Check the parameters against the tool description and correct the values Azure DevOps rejected.',
+      ...options,
+      fields
+    });
+    this.name = 'ValidationError';
+  }
+}
+
+/**
+ * Azure DevOps kept throttling a request after the retries allowed for it (HTTP 429)
+ */
+export class ThrottledError extends AzureDevOpsError {
+  constructor(retryAfterSeconds: number, resource?: string) {
+    super('THROTTLED', `Azure DevOps is throttling requests${resource ? ` (${resource})` : ''}, retry in ${retryAfterSeconds}s`, {
+      statusCode: 429,
+      hint: `Wait ${retryAfterSeconds} seconds before retrying, and request fewer items per call.`,
+      retryAfterSeconds
+    });
+    this.name = 'ThrottledError';
+  }
+}
+
+// Message IDs whose meaning does not follow from the HTTP status alone
+const MESSAGE_ID_CODES: Record<string, AzureDevOpsErrorCode> = {
+  TF400813: 'PERMISSION_DENIED', // Not authorized to access the resource, usually a missing PAT scope
+  TF401027: 'PERMISSION_DENIED', // Missing Git permission
+  TF401019: 'NOT_FOUND', // Git repository does not exist or is not visible
+  TF401174: 'NOT_FOUND', // Item not found in the Git repository
+  TF401232: 'NOT_FOUND', // Work item does not exist or is not visible
+  TF200016: 'NOT_FOUND', // Project does not exist
+  VS402323: 'NOT_FOUND',
+  TF401320: 'VALIDATION_FAILED', // Rule error for a work item field
+  TF401326: 'VALIDATION_FAILED', // Invalid field status
+  TF401347: 'VALIDATION_FAILED', // Invalid area or iteration path
+  TF51535: 'VALIDATION_FAILED' // Field does not exist
+};
+
+// Socket errors meaning Azure DevOps could not be reached
+const NETWORK_ERROR_CODES = ['ENOTFOUND', 'ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'EAI_AGAIN', 'CERT_HAS_EXPIRED', 'UNABLE_TO_VERIFY_LEAF_SIGNATURE', 'SELF_SIGNED_CERT_IN_CHAIN'];
+
+/**
+ * Classify any error thrown while calling Azure DevOps
+ * @param error The error, usually thrown by `azure-devops-node-api`
+ * @returns The classified error; `AzureDevOpsError`s are returned unchanged
+ */
+export function classifyError(error: unknown): AzureDevOpsError {
+  if (error instanceof AzureDevOpsError) {
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  const statusCode = (error as { statusCode?: number })?.statusCode;
+  const messageId = getMessageId(message);
+  const options: AzureDevOpsErrorOptions = { statusCode, messageId };
+
+  switch (messageId ? MESSAGE_ID_CODES[messageId] : undefined) {
+    case 'PERMISSION_DENIED':
+      return new PermissionError(message, options);
+    case 'NOT_FOUND':
+      return new NotFoundError(message, options);
+    case 'VALIDATION_FAILED':
+      return new ValidationError(message, { ...options, fields: getFieldNames(message) });
+  }
+
+  switch (statusCode) {
+    case 401:
+    case 203:
+      return new AuthenticationError(message, options);
+    case 403:
+      return new PermissionError(message, options);
+    case 404:
+      return new NotFoundError(message, options);
+    case 400:
+      return new ValidationError(message, { ...options, fields: getFieldNames(message) });
+    case 409:
+    case 412:
+      return new AzureDevOpsError('CONFLICT', message, {
+        ...options,
+        hint: 'The item changed since it was read. Get it again and retry the change.'
+      });
+    case 429:
+      return new AzureDevOpsError('THROTTLED', message, {
+        ...options,
+        hint: 'Azure DevOps is throttling requests. Wait a minute before retrying.'
+      });
+  }
+
+  if (statusCode !== undefined && statusCode >= 500) {
+    return new AzureDevOpsError('SERVER_ERROR', message, {
+      ...options,
+      hint: 'Azure DevOps failed to process the request. Retry later; if it keeps failing, check https://status.dev.azure.com.'
+    });
+  }
+
+  const code = (error as NodeJS.ErrnoException)?.code;
+  if (code && NETWORK_ERROR_CODES.includes(code)) {
+    return new AzureDevOpsError('NETWORK_ERROR', message, {
+      ...options,
+      hint: 'Azure DevOps could not be reached. Check the network connection and proxy, then run the diagnoseConnection tool.'
+    });
+  }
+
+  return new AzureDevOpsError('UNKNOWN', message, options);
+}
+
+/**
+ * Get the PAT scope a request needs, from its route and verb
+ * @param verb The HTTP verb
+ * @param route The request path
+ * @param readOnly Whether the request only reads data, e.g. a WIQL query sent with POST
+ * @returns The scope, e.g. `vso.work_write`, or undefined for routes without a known scope
+ */
+export function getRequiredScope(verb: string, route: string, readOnly: boolean): string | undefined {
+  const area = SCOPE_AREAS.find(candidate => candidate.pattern.test(route));
+  if (!area) {
+    return undefined;
+  }
+  return readOnly || verb.toUpperCase() === 'GET' ? area.read : area.write;
+}
+
+// PAT scopes by API area; the first matching pattern wins
+const SCOPE_AREAS = [
+  { pattern: /\/_apis\/(wit|work)\//i, read: 'vso.work', write: 'vso.work_write' },
+  { pattern: /\/_apis\/git\//i, read: 'vso.code', write: 'vso.code_write' },
+  { pattern: /\/_apis\/wiki\//i, read: 'vso.wiki', write: 'vso.wiki_write' },
+  { pattern: /\/_apis\/build\//i, read: 'vso.build', write: 'vso.build_execute' },
+  { pattern: /\/_apis\/(test|testplan)\//i, read: 'vso.test', write: 'vso.test_write' },
+  { pattern: /\/_apis\/(projects|teams)\b/i, read: 'vso.project', write: 'vso.project_write' }
+];
+
+function getMessageId(message: string): string | undefined {
+  return /\b((?:TF|VS)\d{5,6})\b/.exec(message)?.[1];
+}
+
+/**
+ * Get the field names a validation message refers to, e.g. `System.Title` in
+ * "TF401320: Rule Error for field Title" or "TF51535: Cannot find field System.Foo."
+ */
+function getFieldNames(message: string): string[] {
+  const fields = new Set<string>();
+  const pattern = /\bfield\s+'?([A-Za-z][\w.]*[\w])'?/gi;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(message)) !== null) {
+    fields.add(match[1]);
+  }
+  return Array.from(fields);
+}
@@ -1,6 +0,0 @@
-function getClassMethods (classPrototype: object): string[] {
-  const propertyNames = Object.getOwnPropertyNames(classPrototype);
-  return propertyNames.filter(propertyName => propertyName !== 'constructor');
-}
-
-export default getClassMethods;
\ No newline at end of file
@@ -0,0 +1,43 @@
+import {
+  GitVersionDescriptor,
+  GitVersionOptions,
+  GitVersionType
+} from 'azure-devops-node-api/interfaces/GitInterfaces';
+
+/**
+ * Version of a Git item as accepted by the tools, e.g. `{ version: 'main', versionType: 'branch' }`
+ */
+export interface VersionDescriptorParams {
+  version?: string;
+  versionOptions?: string;
+  versionType?: string;
+}
+
+/**
+ * Converts a tool version descriptor into the Git API descriptor. Version types and options are
+ * matched case-insensitively; the version type defaults to a branch.
+ * @param descriptor The version descriptor from the tool parameters
+ * @returns The Git API version descriptor, or undefined for the default branch
+ */
+export function toGitVersionDescriptor(descriptor?: VersionDescriptorParams): GitVersionDescriptor | undefined {
+  if (!descriptor?.version) {
+    return undefined;
+  }
+
+  return {
+    version: descriptor.version.replace(/^refs\/(heads|tags)\//, ''),
+    versionType: parseEnumValue(GitVersionType, descriptor.versionType, GitVersionType.Branch),
+    versionOptions: parseEnumValue(GitVersionOptions, descriptor.versionOptions, GitVersionOptions.None)
+  };
+}
+
+function parseEnumValue<T extends number>(values: Record<string, string | number>, name: string | undefined, fallback: T): T {
+  if (!name) {
+    return fallback;
+  }
+  const key = Object.keys(values).find(key => key.toLowerCase() === name.toLowerCase() && typeof values[key] === 'number');
+  if (key === undefined) {
+    throw new Error(`Unknown version value "${name}"`);
+  }
+  return values[key] as T;
+}
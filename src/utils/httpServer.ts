@@ -0,0 +1,335 @@
+import * as http from 'http';
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { TransportConfig } from '../Interfaces/Transport';
+import { logger } from './logger';
+import { metrics } from '../Services/MetricsCollector';
+
+const MCP_ENDPOINT = '/mcp';
+const SSE_ENDPOINT = '/sse';
+const SSE_MESSAGES_ENDPOINT = '/messages';
+const METRICS_ENDPOINT = '/metrics';
+
+// Largest request body read, the same limit the SDK transports apply
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+// How often idle sessions are looked for
+const IDLE_CHECK_INTERVAL_MS = 60 * 1000;
+
+interface HttpSession {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: McpServer;
+  kind: 'streamable-http' | 'sse';
+  createdAt: number;
+  lastActivityAt: number;
+}
+
+class BodyTooLargeError extends Error {}
+
+/**
+ * Serves MCP over Streamable HTTP (with the legacy HTTP+SSE transport as a fallback).
+ *
+ * Every session gets its own `McpServer` from `createServer`, so any number of clients can
+ * be connected at the same time. Requests must carry the configured bearer token, if any, and a
+ * `Host` header of `allowedHosts`, which stops web pages from reaching the server through DNS
+ * rebinding. Sessions without requests for `sessionIdleTimeoutSeconds` are closed.
+ */
+export class McpHttpServer {
+  private sessions = new Map<string, HttpSession>();
+  private httpServer: http.Server;
+  private idleTimer: NodeJS.Timeout | undefined;
+
+  constructor(private createServer: () => McpServer, private config: TransportConfig) {
+    this.httpServer = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch(error => {
+        logger.error('HttpServer', 'Error handling HTTP request', error as Error, {
+          method: req.method,
+          url: req.url
+        });
+        if (!res.headersSent) {
+          this.sendJsonRpcError(res, 500, -32603, 'Internal server error');
+        }
+      });
+    });
+  }
+
+  /**
+   * Start listening on the configured host and port
+   */
+  public listen(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.httpServer.once('error', reject);
+      this.httpServer.listen(this.config.port, this.config.host, () => {
+        this.httpServer.off('error', reject);
+        logger.info('HttpServer', 'Listening for MCP connections', {
+          host: this.config.host,
+          port: this.config.port,
+          streamableHttpEndpoint: MCP_ENDPOINT,
+          sseEndpoint: SSE_ENDPOINT,
+          metricsEndpoint: this.config.metrics ? METRICS_ENDPOINT : undefined,
+          allowedHosts: this.config.allowedHosts,
+          authentication: this.config.authToken ? 'bearer token' : 'none'
+        });
+        if (!this.config.authToken && !isLoopback(this.config.host)) {
+          logger.warn('HttpServer', 'The server is reachable from the network without authentication; set MCP_HTTP_AUTH_TOKEN', {
+            host: this.config.host
+          });
+        }
+        if (this.config.sessionIdleTimeoutSeconds > 0) {
+          this.idleTimer = setInterval(() => this.closeIdleSessions(), IDLE_CHECK_INTERVAL_MS);
+          this.idleTimer.unref();
+        }
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Close every open session and stop accepting connections
+   */
+  public async close(): Promise<void> {
+    clearInterval(this.idleTimer);
+    for (const [sessionId, session] of this.sessions) {
+      try {
+        await session.transport.close();
+      } catch (error) {
+        logger.warn('HttpServer', 'Failed to close session', { sessionId: logSessionId(sessionId), error: String(error) });
+      }
+    }
+    this.sessions.clear();
+    await new Promise<void>(resolve => this.httpServer.close(() => resolve()));
+    logger.info('HttpServer', 'HTTP server stopped');
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    // Checked here as well as by the SDK transports, so that /metrics is protected too
+    if (!this.isAllowedHost(req)) {
+      this.sendJsonRpcError(res, 403, -32000, `Invalid Host header: ${req.headers.host}`);
+      return;
+    }
+
+    if (!this.isAuthorized(req)) {
+      res.writeHead(401, { 'Content-Type': 'application/json', 'WWW-Authenticate': 'Bearer' });
+      res.end(JSON.stringify({ jsonrpc: '2.0', error: { code: -32001, message: 'Unauthorized' }, id: null }));
+      return;
+    }
+
+    if (url.pathname === MCP_ENDPOINT) {
+      await this.handleStreamableHttpRequest(req, res);
+    } else if (url.pathname === SSE_ENDPOINT && req.method === 'GET') {
+      await this.handleSseConnection(res);
+    } else if (url.pathname === SSE_MESSAGES_ENDPOINT && req.method === 'POST') {
+      await this.handleSseMessage(req, res, url.searchParams.get('sessionId'));
+    } else if (url.pathname === METRICS_ENDPOINT && req.method === 'GET' && this.config.metrics) {
+      res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4' }).end(metrics.toPrometheus());
+    } else {
+      res.writeHead(404, { 'Content-Type': 'text/plain' }).end('Not found');
+    }
+  }
+
+  private async handleStreamableHttpRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const sessionId = req.headers['mcp-session-id'];
+
+    if (typeof sessionId === 'string') {
+      const session = this.sessions.get(sessionId);
+      if (!session || session.kind !== 'streamable-http') {
+        this.sendJsonRpcError(res, 404, -32001, `Session ${sessionId} not found`);
+        return;
+      }
+      session.lastActivityAt = Date.now();
+      await (session.transport as StreamableHTTPServerTransport).handleRequest(req, res);
+      return;
+    }
+
+    // Without a session id, the only valid request is a POSTed initialize request
+    if (req.method !== 'POST') {
+      this.sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    let body: unknown;
+    try {
+      body = await this.readJsonBody(req);
+    } catch (error) {
+      if (error instanceof BodyTooLargeError) {
+        this.sendJsonRpcError(res, 413, -32000, `Request body larger than ${MAX_BODY_BYTES} bytes`);
+        return;
+      }
+      throw error;
+    }
+    const messages = Array.isArray(body) ? body : [body];
+    if (!messages.some(message => isInitializeRequest(message))) {
+      this.sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    const server = this.createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      enableDnsRebindingProtection: true,
+      allowedHosts: this.config.allowedHosts,
+      allowedOrigins: this.config.allowedOrigins,
+      onsessioninitialized: newSessionId => {
+        this.sessions.set(newSessionId, {
+          transport,
+          server,
+          kind: 'streamable-http',
+          createdAt: Date.now(),
+          lastActivityAt: Date.now()
+        });
+        logger.info('HttpServer', 'Session initialized', {
+          sessionId: logSessionId(newSessionId),
+          transport: 'streamable-http',
+          activeSessions: this.sessions.size
+        });
+      }
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        this.removeSession(transport.sessionId);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  private async handleSseConnection(res: http.ServerResponse): Promise<void> {
+    const server = this.createServer();
+    const transport = new SSEServerTransport(SSE_MESSAGES_ENDPOINT, res, {
+      enableDnsRebindingProtection: true,
+      allowedHosts: this.config.allowedHosts,
+      allowedOrigins: this.config.allowedOrigins
+    });
+    const sessionId = transport.sessionId;
+
+    this.sessions.set(sessionId, {
+      transport,
+      server,
+      kind: 'sse',
+      createdAt: Date.now(),
+      lastActivityAt: Date.now()
+    });
+    logger.info('HttpServer', 'Session initialized', {
+      sessionId: logSessionId(sessionId),
+      transport: 'sse',
+      activeSessions: this.sessions.size
+    });
+
+    res.on('close', () => this.removeSession(sessionId));
+    await server.connect(transport);
+  }
+
+  private async handleSseMessage(req: http.IncomingMessage, res: http.ServerResponse, sessionId: string | null): Promise<void> {
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+    if (!session || session.kind !== 'sse') {
+      res.writeHead(404, { 'Content-Type': 'text/plain' }).end(`Session ${sessionId} not found`);
+      return;
+    }
+    session.lastActivityAt = Date.now();
+    await (session.transport as SSEServerTransport).handlePostMessage(req, res);
+  }
+
+  private removeSession(sessionId: string): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+    this.sessions.delete(sessionId);
+    logger.info('HttpServer', 'Session closed', {
+      sessionId: logSessionId(sessionId),
+      transport: session.kind,
+      durationMs: Date.now() - session.createdAt,
+      activeSessions: this.sessions.size
+    });
+  }
+
+  /**
+   * Close the sessions that had no request for the idle timeout, e.g. of clients that went away
+   * without closing them. Their transport closing removes them.
+   */
+  private closeIdleSessions(): void {
+    const idleSince = Date.now() - this.config.sessionIdleTimeoutSeconds * 1000;
+    for (const [sessionId, session] of this.sessions) {
+      if (session.lastActivityAt < idleSince) {
+        logger.info('HttpServer', 'Closing idle session', {
+          sessionId: logSessionId(sessionId),
+          transport: session.kind,
+          idleSeconds: Math.round((Date.now() - session.lastActivityAt) / 1000)
+        });
+        // The SSE transport does not report its own close, so the session is removed here too
+        session.transport.close().catch(error => {
+          logger.warn('HttpServer', 'Failed to close session', { sessionId: logSessionId(sessionId), error: String(error) });
+        });
+        this.removeSession(sessionId);
+      }
+    }
+  }
+
+  /**
+   * Check the `Host` header against `allowedHosts`, the same way the SDK transports do
+   */
+  private isAllowedHost(req: http.IncomingMessage): boolean {
+    const host = req.headers.host;
+    return this.config.allowedHosts.length === 0 || (!!host && this.config.allowedHosts.includes(host));
+  }
+
+  /**
+   * Check the bearer token, when one is configured, in constant time
+   */
+  private isAuthorized(req: http.IncomingMessage): boolean {
+    if (!this.config.authToken) {
+      return true;
+    }
+    const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization || '');
+    // Hashing gives both values the same length, which timingSafeEqual requires
+    const digest = (value: string) => createHash('sha256').update(value).digest();
+    return !!match && timingSafeEqual(digest(match[1].trim()), digest(this.config.authToken));
+  }
+
+  private async readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+    if (Number(req.headers['content-length']) > MAX_BODY_BYTES) {
+      throw new BodyTooLargeError();
+    }
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+      size += (chunk as Buffer).length;
+      if (size > MAX_BODY_BYTES) {
+        throw new BodyTooLargeError();
+      }
+      chunks.push(chunk as Buffer);
+    }
+    const raw = Buffer.concat(chunks).toString('utf8');
+    try {
+      return raw ? JSON.parse(raw) : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private sendJsonRpcError(res: http.ServerResponse, status: number, code: number, message: string): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify({
+      jsonrpc: '2.0',
+      error: { code, message },
+      id: null
+    }));
+  }
+}
+
+/**
+ * Shorten a session ID for the log. The full ID is a credential: anyone who has it can send
+ * requests in the session.
+ */
+function logSessionId(sessionId: string): string {
+  return `${sessionId.slice(0, 8)}…`;
+}
+
+function isLoopback(host: string): boolean {
+  return ['127.0.0.1', 'localhost', '::1', '[::1]'].includes(host.toLowerCase());
+}
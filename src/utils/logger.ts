@@ -1,5 +1,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import { LoggingConfig } from '../Interfaces/Logging';
+import { redact, redactText } from './redaction';
 
 export enum LogLevel {
   ERROR = 'ERROR',
@@ -8,35 +10,92 @@ export enum LogLevel {
   DEBUG = 'DEBUG'
 }
 
-interface LogEntry {
+// Most severe first
+const LOG_LEVEL_SEVERITY: Record<LogLevel, number> = {
+  [LogLevel.ERROR]: 0,
+  [LogLevel.WARN]: 1,
+  [LogLevel.INFO]: 2,
+  [LogLevel.DEBUG]: 3
+};
+
+const LOG_FILE_NAME = 'mcp-azure-devops';
+
+/**
+ * Used until `configure` is called, with the directory from `getDefaultLogDirectory`
+ */
+export const DEFAULT_LOGGING_CONFIG: Omit<LoggingConfig, 'directory'> = {
+  level: LogLevel.INFO,
+  maxFileSizeBytes: 10 * 1024 * 1024,
+  maxFiles: 5
+};
+
+/**
+ * Get the log directory to use when none is configured: `LOG_DIR`, read on every call so that
+ * a value from the .env file or configuration profile applies, or else `logs` next to the
+ * entry script, e.g. dist/logs when built
+ */
+export function getDefaultLogDirectory(): string {
+  return process.env.LOG_DIR
+    ? path.resolve(process.env.LOG_DIR)
+    : path.join(path.dirname(require.main?.filename || process.cwd()), 'logs');
+}
+
+export interface LogEntry {
   timestamp: string;
   level: LogLevel;
   component: string;
   message: string;
   context?: any;
   error?: Error;
+  traceId?: string; // Trace of the tool call the entry was written in
 }
 
+/**
+ * Receives every log entry, whatever the configured level, e.g. to forward it to MCP clients
+ */
+export type LogListener = (entry: LogEntry) => void;
+
 export class Logger {
   private static instance: Logger;
-  private logDir: string;
-  private currentLogFile: string;
+  private config: Omit<LoggingConfig, 'directory'> = DEFAULT_LOGGING_CONFIG;
+  private logDir: string | undefined; // Set by `configure`
+  private currentLogFileSize: number | undefined; // Read from disk before the first write
   private isMcpMode: boolean;
+  private listeners = new Set<LogListener>();
+  private traceIdProvider: (() => string | undefined) | undefined;
 
   private constructor() {
     // Check if we're in MCP mode to avoid stdio interference
     this.isMcpMode = process.env.MCP_MODE === 'true';
-    
-    // Set up log directory - will be created in dist/logs when built
-    const baseDir = path.dirname(require.main?.filename || process.cwd());
-    this.logDir = path.join(baseDir, 'logs');
-    
-    // Ensure log directory exists
+  }
+
+  /**
+   * Apply a configuration, switching to its log directory
+   * @param config The logging configuration
+   */
+  public configure(config: LoggingConfig): void {
+    this.config = config;
+    this.logDir = config.directory;
+    this.currentLogFileSize = undefined;
     this.ensureLogDirectory();
-    
-    // Set current log file with date
-    const date = new Date().toISOString().split('T')[0];
-    this.currentLogFile = path.join(this.logDir, `mcp-azure-devops-${date}.log`);
+  }
+
+  /**
+   * Set the function that gives the trace ID added to each entry
+   * @param provider Returns the trace ID of the active span, if any
+   */
+  public setTraceIdProvider(provider: () => string | undefined): void {
+    this.traceIdProvider = provider;
+  }
+
+  /**
+   * Receive every log entry until the returned function is called
+   * @param listener Called with each entry, whatever the configured level
+   * @returns A function that removes the listener
+   */
+  public addListener(listener: LogListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
   }
 
   public static getInstance(): Logger {
@@ -47,9 +106,10 @@ export class Logger {
   }
 
   private ensureLogDirectory(): void {
+    const logDir = this.getLogDirectory();
     try {
-      if (!fs.existsSync(this.logDir)) {
-        fs.mkdirSync(this.logDir, { recursive: true });
+      if (!fs.existsSync(logDir)) {
+        fs.mkdirSync(logDir, { recursive: true });
       }
     } catch (error) {
       // If we can't create log directory, we'll just use console
@@ -59,19 +119,21 @@ export class Logger {
     }
   }
 
+  // Secrets are redacted from the message, context and error, see utils/redaction.ts
   private formatLogEntry(entry: LogEntry): string {
-    const baseLog = `${entry.timestamp} [${entry.level}] [${entry.component}] ${entry.message}`;
+    const trace = entry.traceId ? ` [trace=${entry.traceId}]` : '';
+    const baseLog = `${entry.timestamp} [${entry.level}] [${entry.component}]${trace} ${redactText(entry.message)}`;
     
     let additionalInfo = '';
     
     if (entry.context) {
-      additionalInfo += `\nContext: ${JSON.stringify(entry.context, null, 2)}`;
+      additionalInfo += `\nContext: ${JSON.stringify(redact(entry.context), null, 2)}`;
     }
     
     if (entry.error) {
-      additionalInfo += `\nError: ${entry.error.message}`;
+      additionalInfo += `\nError: ${redactText(entry.error.message)}`;
       if (entry.error.stack) {
-        additionalInfo += `\nStack: ${entry.error.stack}`;
+        additionalInfo += `\nStack: ${redactText(entry.error.stack)}`;
       }
     }
     
@@ -80,7 +142,20 @@ export class Logger {
 
   private writeToFile(logEntry: string): void {
     try {
-      fs.appendFileSync(this.currentLogFile, logEntry + '\n\n', 'utf8');
+      const data = logEntry + '\n\n';
+      const size = Buffer.byteLength(data, 'utf8');
+      const logFile = this.getLogFilePath();
+      if (this.currentLogFileSize === undefined) {
+        // First write since the logger was configured, which may not have been yet
+        this.ensureLogDirectory();
+        this.currentLogFileSize = fs.existsSync(logFile) ? fs.statSync(logFile).size : 0;
+      }
+      if (this.config.maxFileSizeBytes > 0 && this.currentLogFileSize > 0 &&
+        this.currentLogFileSize + size > this.config.maxFileSizeBytes) {
+        this.rotate();
+      }
+      fs.appendFileSync(logFile, data, 'utf8');
+      this.currentLogFileSize += size;
     } catch (error) {
       // Silently fail file writing in MCP mode
       if (!this.isMcpMode) {
@@ -89,16 +164,54 @@ export class Logger {
     }
   }
 
+  /**
+   * Rotate the log file: mcp-azure-devops.log becomes mcp-azure-devops.1.log, .1 becomes .2 and
+   * so on, and the file beyond the retention count is deleted
+   */
+  private rotate(): void {
+    const rotatedFile = (index: number) => path.join(this.getLogDirectory(), `${LOG_FILE_NAME}.${index}.log`);
+    const maxFiles = this.config.maxFiles;
+    if (maxFiles === 0) {
+      fs.rmSync(this.getLogFilePath(), { force: true });
+    } else {
+      fs.rmSync(rotatedFile(maxFiles), { force: true });
+      for (let index = maxFiles - 1; index >= 1; index--) {
+        if (fs.existsSync(rotatedFile(index))) {
+          fs.renameSync(rotatedFile(index), rotatedFile(index + 1));
+        }
+      }
+      fs.renameSync(this.getLogFilePath(), rotatedFile(1));
+    }
+    this.currentLogFileSize = 0;
+  }
+
   private log(level: LogLevel, component: string, message: string, context?: any, error?: Error): void {
+    const isEnabled = LOG_LEVEL_SEVERITY[level] <= LOG_LEVEL_SEVERITY[this.config.level];
+    if (!isEnabled && this.listeners.size === 0) {
+      return;
+    }
+
     const entry: LogEntry = {
       timestamp: new Date().toISOString(),
       level,
       component,
       message,
       context,
-      error
+      error,
+      traceId: this.traceIdProvider?.()
     };
 
+    for (const listener of this.listeners) {
+      try {
+        listener(entry);
+      } catch {
+        // A failing listener must not stop logging
+      }
+    }
+    if (!isEnabled) {
+      return;
+    }
+
     const formattedEntry = this.formatLogEntry(entry);
     
     // Always write to file
@@ -161,7 +274,12 @@ export class Logger {
 
   // Get the current log file path
   public getLogFilePath(): string {
-    return this.currentLogFile;
+    return path.join(this.getLogDirectory(), `${LOG_FILE_NAME}.log`);
+  }
+
+  // Get the directory log files are written to
+  public getLogDirectory(): string {
+    return this.logDir ?? getDefaultLogDirectory();
   }
 }
 
@@ -0,0 +1,45 @@
+/**
+ * Map that holds at most `maxSize` entries. When it is full, adding an entry drops the
+ * least recently used one, so that caches keyed by caller-supplied values stay bounded.
+ */
+export class LruMap<K, V> {
+  // Map iterates in insertion order, so entries are moved to the end when used
+  private entries = new Map<K, V>();
+
+  /**
+   * @param maxSize Maximum number of entries
+   */
+  constructor(private readonly maxSize: number) {}
+
+  /**
+   * Get an entry and mark it as the most recently used
+   */
+  public get(key: K): V | undefined {
+    if (!this.entries.has(key)) {
+      return undefined;
+    }
+    const value = this.entries.get(key) as V;
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    return value;
+  }
+
+  /**
+   * Add or replace an entry, dropping the least recently used entry when full
+   */
+  public set(key: K, value: V): this {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    if (this.entries.size > this.maxSize) {
+      this.entries.delete(this.entries.keys().next().value as K);
+    }
+    return this;
+  }
+
+  /**
+   * Number of entries
+   */
+  public get size(): number {
+    return this.entries.size;
+  }
+}
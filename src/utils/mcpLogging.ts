@@ -0,0 +1,82 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { LoggingLevel, SetLevelRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { LogEntry, logger, LogLevel } from './logger';
+import { redact } from './redaction';
+
+// MCP logging levels of the logger levels
+const MCP_LEVELS: Record<LogLevel, LoggingLevel> = {
+  [LogLevel.ERROR]: 'error',
+  [LogLevel.WARN]: 'warning',
+  [LogLevel.INFO]: 'info',
+  [LogLevel.DEBUG]: 'debug'
+};
+
+// MCP logging levels, least severe first
+const MCP_LEVEL_ORDER: LoggingLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
+
+// Level forwarded until the client sends `logging/setLevel`
+const DEFAULT_MCP_LEVEL: LoggingLevel = 'warning';
+
+// The server whose client message is being handled, so that entries reach only the client that caused them
+const activeServer = new AsyncLocalStorage<McpServer>();
+
+/**
+ * Forward server log entries to an MCP client as `notifications/message`.
+ *
+ * Entries at or above the level the client set with `logging/setLevel` are sent, warnings and
+ * errors until it sets one. The level applies to this server only, so each HTTP session has its own.
+ * Only entries written while this server handles a message of its client are sent, so one HTTP
+ * session never sees the queries, projects or errors of another.
+ * The server must be created with the `logging` capability.
+ * @param server The MCP server of one client
+ * @param includeServerEntries Also send entries written outside any request, e.g. at startup;
+ *   only for a server that has the process to itself, as with stdio
+ */
+export function bridgeMcpLogging(server: McpServer, includeServerEntries = false): void {
+  let minimumLevel = DEFAULT_MCP_LEVEL;
+
+  // Handle every message of the client within its server's context
+  const connect = server.connect.bind(server);
+  server.connect = async (transport: Transport) => {
+    await connect(transport);
+    const onmessage = transport.onmessage;
+    transport.onmessage = (message, extra) => activeServer.run(server, () => onmessage?.(message, extra));
+  };
+
+  server.server.setRequestHandler(SetLevelRequestSchema, async request => {
+    minimumLevel = request.params.level;
+    logger.debug('McpLogging', 'Client set log level', { level: minimumLevel });
+    return {};
+  });
+
+  const removeListener = logger.addListener((entry: LogEntry) => {
+    const level = MCP_LEVELS[entry.level];
+    const source = activeServer.getStore();
+    if (source ? source !== server : !includeServerEntries) {
+      return;
+    }
+    if (!server.isConnected() || MCP_LEVEL_ORDER.indexOf(level) < MCP_LEVEL_ORDER.indexOf(minimumLevel)) {
+      return;
+    }
+    server.server.sendLoggingMessage({
+      level,
+      logger: entry.component,
+      data: redact({
+        message: entry.message,
+        ...(entry.context !== undefined && { context: entry.context }),
+        ...(entry.error && { error: entry.error.message }),
+        ...(entry.traceId && { traceId: entry.traceId })
+      })
+    }).catch(() => {
+      // The client went away; the transport closing removes the listener
+    });
+  });
+
+  const onclose = server.server.onclose;
+  server.server.onclose = () => {
+    removeListener();
+    onclose?.();
+  };
+}
@@ -0,0 +1,12 @@
+/**
+ * Reads a stream returned by the Azure DevOps API, such as file or wiki page content, into a string
+ * @param stream The content stream
+ * @returns The content decoded as UTF-8
+ */
+export async function readStreamAsString(stream: NodeJS.ReadableStream): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk, 'utf8') : chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
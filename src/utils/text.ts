@@ -0,0 +1,218 @@
+/**
+ * Helpers for the rich text of work item fields and comments
+ */
+
+// Line diffs of longer texts are not computed; the texts are shown as replaced
+const MAX_DIFF_LINES = 2000;
+
+/**
+ * Whether a string contains HTML tags, as work item descriptions and comments do
+ */
+export function containsHtml(text: string): boolean {
+  return /<[a-z][^>]*>/i.test(text);
+}
+
+/**
+ * Convert HTML to plain text, one line per paragraph, list item or line break
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(br|\/p|\/div|\/li|\/h[1-6])[^>]*>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n\s*\n+/g, '\n')
+    .trim();
+}
+
+/**
+ * Compare two texts line by line.
+ *
+ * Removed lines start with `- `, added lines with `+ ` and unchanged lines with two spaces.
+ * Only the unchanged lines next to a change are kept; longer runs are written as `  ...`.
+ * @param oldText The text before the change
+ * @param newText The text after the change
+ * @returns The changed lines, or an empty string when the texts are the same
+ */
+export function diffLines(oldText: string, newText: string): string {
+  const oldLines = oldText ? oldText.split('\n') : [];
+  const newLines = newText ? newText.split('\n') : [];
+  if (oldLines.length > MAX_DIFF_LINES || newLines.length > MAX_DIFF_LINES) {
+    return [...oldLines.map(line => `- ${line}`), ...newLines.map(line => `+ ${line}`)].join('\n');
+  }
+
+  // Lengths of the longest common subsequences of the remaining lines
+  const common: number[][] = Array.from({ length: oldLines.length + 1 }, () => new Array(newLines.length + 1).fill(0));
+  for (let i = oldLines.length - 1; i >= 0; i--) {
+    for (let j = newLines.length - 1; j >= 0; j--) {
+      common[i][j] = oldLines[i] === newLines[j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const lines: Array<{ kind: ' ' | '-' | '+'; text: string }> = [];
+  let i = 0;
+  let j = 0;
+  while (i < oldLines.length || j < newLines.length) {
+    if (i < oldLines.length && j < newLines.length && oldLines[i] === newLines[j]) {
+      lines.push({ kind: ' ', text: oldLines[i++] });
+      j++;
+    } else if (j >= newLines.length || (i < oldLines.length && common[i + 1][j] >= common[i][j + 1])) {
+      lines.push({ kind: '-', text: oldLines[i++] });
+    } else {
+      lines.push({ kind: '+', text: newLines[j++] });
+    }
+  }
+  if (lines.every(line => line.kind === ' ')) {
+    return '';
+  }
+
+  const isChange = (index: number) => index >= 0 && index < lines.length && lines[index].kind !== ' ';
+  const output: string[] = [];
+  lines.forEach((line, index) => {
+    if (isChange(index - 1) || isChange(index) || isChange(index + 1)) {
+      output.push(`${line.kind} ${line.text}`);
+    } else if (output[output.length - 1] !== '  ...') {
+      output.push('  ...');
+    }
+  });
+  return output.join('\n');
+}
+
+// `@[Display Name]`, `@user@example.com` or `@DOMAIN\user`, not preceded by a word character as in an e-mail address
+const MENTION = /(^|[^\w@])@(?:\[([^\]\n]+)\]|([\w.+-]+@[\w-]+(?:\.[\w-]+)+|[\w.-]+\\[\w.$-]+))/g;
+
+/**
+ * Identity a mention in a comment refers to
+ */
+export interface MentionIdentity {
+  id: string;
+  displayName: string;
+}
+
+/**
+ * Find the people mentioned in comment HTML, outside tags and code
+ * @returns The names, e-mail addresses and accounts after `@`, each once
+ */
+export function findMentions(html: string): string[] {
+  const names = splitHtml(html).filter((part, index) => index % 2 === 0)
+    .flatMap(text => Array.from(text.matchAll(MENTION), match => match[2] || match[3]));
+  return Array.from(new Set(names));
+}
+
+/**
+ * Replace mentions in HTML with the mention links Azure DevOps notifies people of.
+ * Mentions in tags and code are left as they are.
+ * @param html The comment HTML
+ * @param identities The identities of the names found by `findMentions`
+ */
+export function renderMentions(html: string, identities: Map<string, MentionIdentity>): string {
+  return splitHtml(html).map((part, index) => index % 2 === 1 ? part : part.replace(MENTION, (mention, before: string, bracketed?: string, account?: string) => {
+    const identity = identities.get(bracketed || account || '');
+    return identity
+      ? `${before}<a href="#" data-vss-mention="version:2.0,${identity.id}">@${escapeHtml(identity.displayName)}</a>`
+      : mention;
+  })).join('');
+}
+
+/**
+ * Convert Markdown to the HTML work item comments are stored as.
+ *
+ * Supports headings, paragraphs, line breaks, bulleted and numbered lists, quotes, fenced code,
+ * bold, italic, strikethrough, inline code and links. Other HTML in the text is escaped.
+ */
+export function markdownToHtml(markdown: string): string {
+  const blocks: string[] = [];
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  let paragraph: string[] = [];
+  let list: { tag: 'ul' | 'ol'; items: string[] } | undefined;
+  const flush = () => {
+    if (paragraph.length > 0) {
+      blocks.push(`<p>${paragraph.map(renderInline).join('<br>')}</p>`);
+      paragraph = [];
+    }
+    if (list) {
+      blocks.push(`<${list.tag}>${list.items.map(item => `<li>${renderInline(item)}</li>`).join('')}</${list.tag}>`);
+      list = undefined;
+    }
+  };
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+    const fence = /^\s*(```|~~~)/.exec(line);
+    if (fence) {
+      flush();
+      const code: string[] = [];
+      while (++index < lines.length && !lines[index].trim().startsWith(fence[1])) {
+        code.push(lines[index]);
+      }
+      blocks.push(`<pre><code>${escapeHtml(code.join('\n'))}</code></pre>`);
+      continue;
+    }
+    const heading = /^\s*(#{1,6})\s+(.*?)\s*#*\s*$/.exec(line);
+    const item = /^\s*(?:([-*+])|\d+[.)])\s+(.*)$/.exec(line);
+    const quote = /^\s*>\s?(.*)$/.exec(line);
+    if (heading) {
+      flush();
+      blocks.push(`<h${heading[1].length}>${renderInline(heading[2])}</h${heading[1].length}>`);
+    } else if (item) {
+      const tag = item[1] ? 'ul' : 'ol';
+      if (paragraph.length > 0 || list?.tag !== tag) {
+        flush();
+        list = { tag, items: [] };
+      }
+      list!.items.push(item[2]);
+    } else if (quote) {
+      flush();
+      blocks.push(`<blockquote>${renderInline(quote[1])}</blockquote>`);
+    } else if (line.trim() === '') {
+      flush();
+    } else if (list && /^\s+\S/.test(line)) {
+      list.items[list.items.length - 1] += ` ${line.trim()}`; // Continuation of a list item
+    } else {
+      if (list) {
+        flush();
+      }
+      paragraph.push(line.trim());
+    }
+  }
+  flush();
+  return blocks.join('');
+}
+
+function renderInline(text: string): string {
+  // Code spans and escaped characters are set aside so that no other formatting applies to them
+  const kept: string[] = [];
+  const keep = (html: string) => `\u0000${kept.push(html) - 1}\u0000`;
+  const html = escapeHtml(text
+    .replace(/`([^`]+)`/g, (match, code: string) => keep(`<code>${escapeHtml(code)}</code>`))
+    .replace(/\\([\\`*_{}[\]()#+\-.!~>])/g, (match, character: string) => keep(escapeHtml(character))))
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (match, label: string, url: string) =>
+      /^(https?:|mailto:|#|\/)/i.test(url) ? `<a href="${url}">${label}</a>` : match)
+    .replace(/\*\*(?=\S)([\s\S]*?\S)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|\W)__(?=\S)([\s\S]*?\S)__(?!\w)/g, '$1<strong>$2</strong>')
+    .replace(/\*(?=\S)([\s\S]*?\S)\*/g, '<em>$1</em>')
+    // Underscores within words, as in snake_case names, are not emphasis
+    .replace(/(^|\W)_(?=\S)([\s\S]*?\S)_(?!\w)/g, '$1<em>$2</em>')
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<del>$1</del>');
+  return html.replace(/\u0000(\d+)\u0000/g, (match, index: string) => kept[Number(index)]);
+}
+
+/**
+ * Split HTML into text and markup; the odd parts are tags and code, which mentions are not looked for in
+ */
+function splitHtml(html: string): string[] {
+  return html.split(/(<code>[\s\S]*?<\/code>|<pre>[\s\S]*?<\/pre>|<[^>]+>)/);
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
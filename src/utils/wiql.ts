@@ -0,0 +1,205 @@
+import { WiqlCondition, WiqlExpression, WiqlMacro, WiqlOperator, WiqlOrder, WiqlValue } from '../Interfaces/Wiql';
+import { ValidationError } from './errors';
+
+/**
+ * Builds WIQL queries from structured conditions.
+ *
+ * Values are written as quoted, escaped literals and field names are checked, so text such as
+ * a search term cannot end a string literal and add clauses of its own. Macros such as `@me`
+ * are written unquoted and only when passed as a `WiqlMacro`, see `wiqlMacro` and `parseWiqlMacro`.
+ */
+
+// Macros accepted by Azure DevOps, keyed by lower-case name
+const MACROS = new Map(['me', 'today', 'project', 'currentIteration', 'startOfDay', 'startOfWeek', 'startOfMonth',
+  'startOfYear', 'follows', 'myRecentActivity', 'recentMentions', 'recentProjectActivity', 'teamAreas']
+  .map(name => [name.toLowerCase(), name]));
+
+// Macros that take an offset, e.g. `@today - 7` or `@currentIteration - 1`
+const OFFSET_MACROS = new Set(['today', 'currentIteration', 'startOfDay', 'startOfWeek', 'startOfMonth', 'startOfYear']);
+
+// `@today-7`, `@today - 7`, `@currentIteration + 1`
+const MACRO_TEXT = /^@([A-Za-z]+)(?:\s*([+-])\s*(\d+))?$/;
+
+// Reference names such as `Microsoft.VSTS.Common.Priority`, or display names such as `Assigned To`
+const FIELD_NAME = /^[A-Za-z_][\w. -]*$/;
+
+const LIST_OPERATORS: WiqlOperator[] = ['IN', 'NOT IN'];
+
+/**
+ * Create a macro value
+ * @param name The macro name without `@`, e.g. `today`
+ * @param offset Offset for date and iteration macros, e.g. -7
+ */
+export function wiqlMacro(name: string, offset?: number): WiqlMacro {
+  const macro = MACROS.get(name.replace(/^@/, '').toLowerCase());
+  if (!macro) {
+    throw new ValidationError(`Unknown WIQL macro @${name}. Supported macros: ${Array.from(MACROS.values()).map(value => `@${value}`).join(', ')}.`);
+  }
+  if (offset && !OFFSET_MACROS.has(macro)) {
+    throw new ValidationError(`WIQL macro @${macro} does not take an offset.`);
+  }
+  return offset ? { macro, offset } : { macro };
+}
+
+/**
+ * Read a macro written as text, e.g. `@me` or `@today-7`
+ * @param text The text, e.g. a value passed to a tool
+ * @returns The macro, or undefined when the text is not a known macro and so is a literal
+ * @throws ValidationError when the macro takes no offset but has one, e.g. `@me+1`
+ */
+export function parseWiqlMacro(text: string): WiqlMacro | undefined {
+  const match = MACRO_TEXT.exec(text.trim());
+  if (!match || !MACROS.has(match[1].toLowerCase())) {
+    return undefined;
+  }
+  const offset = match[3] ? Number(match[3]) * (match[2] === '-' ? -1 : 1) : undefined;
+  return wiqlMacro(match[1], offset);
+}
+
+/**
+ * Quote a string as a WIQL literal, doubling single quotes
+ */
+export function quoteWiql(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Format a field name as `[Name]`
+ * @throws ValidationError when the name could change the query, e.g. contains `]`
+ */
+export function formatWiqlField(field: string): string {
+  const name = field.trim();
+  if (!FIELD_NAME.test(name)) {
+    throw new ValidationError(`Invalid WIQL field name "${field}". Use a field reference name such as System.State.`, { fields: [field] });
+  }
+  return `[${name}]`;
+}
+
+/**
+ * Format a value as a WIQL literal or macro
+ * @param value The value
+ * @param timePrecision Whether dates keep their time, for queries run with `timePrecision`
+ */
+export function formatWiqlValue(value: WiqlValue, timePrecision = false): string {
+  if (typeof value === 'string') {
+    return quoteWiql(value);
+  }
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new ValidationError(`Invalid WIQL number ${value}.`);
+    }
+    return String(value);
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'true' : 'false';
+  }
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) {
+      throw new ValidationError('Invalid WIQL date.');
+    }
+    return quoteWiql(timePrecision ? value.toISOString() : value.toISOString().slice(0, 10));
+  }
+  const macro = wiqlMacro(value.macro, value.offset);
+  return macro.offset ? `@${macro.macro} ${macro.offset < 0 ? '-' : '+'} ${Math.abs(macro.offset)}` : `@${macro.macro}`;
+}
+
+/**
+ * Format a condition or group of conditions
+ * @param expression The condition or group
+ * @param timePrecision Whether dates keep their time, see `formatWiqlValue`
+ */
+export function formatWiqlExpression(expression: WiqlExpression, timePrecision = false): string {
+  if ('anyOf' in expression || 'allOf' in expression) {
+    const expressions = 'anyOf' in expression ? expression.anyOf : expression.allOf;
+    if (expressions.length === 0) {
+      throw new ValidationError(`Empty ${'anyOf' in expression ? 'anyOf' : 'allOf'} group in WIQL conditions.`);
+    }
+    const parts = expressions.map(item => formatWiqlExpression(item, timePrecision));
+    return parts.length === 1 ? parts[0] : `(${parts.join('anyOf' in expression ? ' OR ' : ' AND ')})`;
+  }
+  return formatCondition(expression, timePrecision);
+}
+
+function formatCondition(condition: WiqlCondition, timePrecision: boolean): string {
+  const field = formatWiqlField(condition.field);
+  // The query editor's "Was Ever" is the EVER operator
+  const operator = condition.operator === 'WAS EVER' ? 'EVER' : condition.operator;
+  if (LIST_OPERATORS.includes(operator)) {
+    const values = Array.isArray(condition.value) ? condition.value : [condition.value];
+    if (values.length === 0) {
+      throw new ValidationError(`${operator} needs at least one value for ${condition.field}.`, { fields: [condition.field] });
+    }
+    return `${field} ${operator} (${values.map(value => formatWiqlValue(value, timePrecision)).join(', ')})`;
+  }
+  if (Array.isArray(condition.value)) {
+    throw new ValidationError(`${operator} takes a single value for ${condition.field}; use IN for a list.`, { fields: [condition.field] });
+  }
+  return `${field} ${operator} ${formatWiqlValue(condition.value, timePrecision)}`;
+}
+
+/**
+ * Builds a `SELECT ... FROM WorkItems WHERE ... ORDER BY ...` query
+ *
+ * @example
+ * new WiqlBuilder()
+ *   .where('System.TeamProject', '=', wiqlMacro('project'))
+ *   .where('System.AssignedTo', '=', wiqlMacro('me'))
+ *   .where('System.State', 'NOT IN', ['Closed', 'Removed'])
+ *   .orderBy('System.ChangedDate', 'DESC')
+ *   .build();
+ */
+export class WiqlBuilder {
+  private fields: string[] = ['System.Id'];
+  private conditions: WiqlExpression[] = [];
+  private order: WiqlOrder[] = [];
+
+  /**
+   * Set the columns to select, `System.Id` by default
+   */
+  public select(fields: string[]): this {
+    if (fields.length > 0) {
+      this.fields = fields;
+    }
+    return this;
+  }
+
+  /**
+   * Add a condition on a field, combined with the others with AND
+   */
+  public where(field: string, operator: WiqlOperator, value: WiqlValue | WiqlValue[]): this {
+    this.conditions.push({ field, operator, value });
+    return this;
+  }
+
+  /**
+   * Add a condition or group of conditions, combined with the others with AND
+   */
+  public match(expression: WiqlExpression): this {
+    this.conditions.push(expression);
+    return this;
+  }
+
+  /**
+   * Add a sort column
+   */
+  public orderBy(field: string, direction: 'ASC' | 'DESC' = 'ASC'): this {
+    this.order.push({ field, direction });
+    return this;
+  }
+
+  /**
+   * Build the query text
+   * @param options `timePrecision` keeps the time of dates; the query must then be run with `timePrecision`
+   * @throws ValidationError when a field name, operator or value is invalid
+   */
+  public build(options: { timePrecision?: boolean } = {}): string {
+    const parts = [`SELECT ${this.fields.map(formatWiqlField).join(', ')} FROM WorkItems`];
+    if (this.conditions.length > 0) {
+      parts.push(`WHERE ${this.conditions.map(condition => formatWiqlExpression(condition, options.timePrecision)).join(' AND ')}`);
+    }
+    if (this.order.length > 0) {
+      parts.push(`ORDER BY ${this.order.map(order => `${formatWiqlField(order.field)} ${order.direction || 'ASC'}`).join(', ')}`);
+    }
+    return parts.join(' ');
+  }
+}
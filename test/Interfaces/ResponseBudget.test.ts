@@ -0,0 +1,53 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { formatBudgetedResponse } from '../../src/Interfaces/ResponseBudget';
+
+const workItems = Array.from({ length: 20 }, (_, index) => ({
+  id: index + 1,
+  fields: { 'System.Title': `Work item ${index + 1}`, 'System.State': 'Active', 'System.Description': 'x'.repeat(100) }
+}));
+
+describe('formatBudgetedResponse', () => {
+  it('returns small results unchanged', () => {
+    const { structuredContent } = formatBudgetedResponse('listWorkItems', {}, { workItems, count: 20 }, 'workItems', 'Found 20');
+    assert.deepEqual(structuredContent, { workItems, count: 20 });
+  });
+
+  it('projects dotted field names', () => {
+    const { structuredContent } = formatBudgetedResponse('listWorkItems', { fields: ['id', 'fields.System.Title'] },
+      { workItems: workItems.slice(0, 1) }, 'workItems', 'Found 1');
+    assert.deepEqual(structuredContent?.workItems, [{ id: 1, fields: { 'System.Title': 'Work item 1' } }]);
+  });
+
+  it('pages lists with a continuation token until every item is returned', () => {
+    const params = { maxResponseSize: 1000 };
+    const ids: number[] = [];
+    let continuationToken: string | undefined;
+    do {
+      const { structuredContent } = formatBudgetedResponse('listWorkItems', { ...params, continuationToken },
+        { workItems, count: 20 }, 'workItems', 'Found 20');
+      assert.ok(JSON.stringify(structuredContent?.workItems).length <= 1000);
+      assert.equal(structuredContent?.count, structuredContent?.workItems.length);
+      ids.push(...structuredContent?.workItems.map((workItem: any) => workItem.id));
+      continuationToken = structuredContent?.continuationToken;
+    } while (continuationToken);
+    assert.deepEqual(ids, workItems.map(workItem => workItem.id));
+  });
+
+  it('splits long text into chunks', () => {
+    const text = 'line\n'.repeat(100);
+    const first = formatBudgetedResponse('getFileContent', { maxResponseSize: 200 }, { content: text }, 'content', 'File').structuredContent;
+    const second = formatBudgetedResponse('getFileContent', { maxResponseSize: 200, continuationToken: first?.continuationToken },
+      { content: text }, 'content', 'File').structuredContent;
+    assert.equal(first?.truncated, true);
+    assert.equal(first?.total, text.length);
+    assert.ok(text.startsWith(first?.content + second?.content));
+  });
+
+  it('rejects a continuation token of another request', () => {
+    const { structuredContent } = formatBudgetedResponse('listWorkItems', { maxResponseSize: 1000 },
+      { workItems }, 'workItems', 'Found 20');
+    assert.throws(() => formatBudgetedResponse('listWorkItems', { fields: ['id'], continuationToken: structuredContent?.continuationToken },
+      { workItems }, 'workItems', 'Found 20'), /does not belong/);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { formatWiqlField, formatWiqlValue, parseWiqlMacro, quoteWiql, WiqlBuilder, wiqlMacro } from '../../src/utils/wiql';
+import { ValidationError } from '../../src/utils/errors';
+
+describe('quoteWiql', () => {
+  it('doubles single quotes', () => {
+    assert.equal(quoteWiql("O'Brien"), "'O''Brien'");
+  });
+
+  it('keeps text that tries to end the literal inside it', () => {
+    assert.equal(quoteWiql("x' OR [System.Id] > 0 OR 'y"), "'x'' OR [System.Id] > 0 OR ''y'");
+  });
+});
+
+describe('formatWiqlField', () => {
+  it('brackets reference and display names', () => {
+    assert.equal(formatWiqlField('System.State'), '[System.State]');
+    assert.equal(formatWiqlField(' Assigned To '), '[Assigned To]');
+  });
+
+  it('rejects names that could change the query', () => {
+    for (const field of ['System.State] = 1 OR [System.Id', "System.Title'", 'System.Id)', '@me', '']) {
+      assert.throws(() => formatWiqlField(field), ValidationError, field);
+    }
+  });
+});
+
+describe('formatWiqlValue', () => {
+  it('writes strings as literals, even when they look like macros', () => {
+    assert.equal(formatWiqlValue('@me'), "'@me'");
+  });
+
+  it('writes macros unquoted, with their offset', () => {
+    assert.equal(formatWiqlValue(wiqlMacro('me')), '@me');
+    assert.equal(formatWiqlValue(wiqlMacro('today', -7)), '@today - 7');
+    assert.equal(formatWiqlValue({ macro: 'currentiteration', offset: 1 }), '@currentIteration + 1');
+  });
+
+  it('rejects unknown macros passed as objects', () => {
+    assert.throws(() => formatWiqlValue({ macro: 'me OR 1=1' }), ValidationError);
+  });
+
+  it('writes dates as the day, or with the time for time precision', () => {
+    const date = new Date('2024-05-01T14:30:00Z');
+    assert.equal(formatWiqlValue(date), "'2024-05-01'");
+    assert.equal(formatWiqlValue(date, true), "'2024-05-01T14:30:00.000Z'");
+  });
+
+  it('rejects numbers and dates that are not valid', () => {
+    assert.throws(() => formatWiqlValue(NaN), ValidationError);
+    assert.throws(() => formatWiqlValue(new Date('not a date')), ValidationError);
+  });
+});
+
+describe('parseWiqlMacro', () => {
+  it('reads macros with and without an offset', () => {
+    assert.deepEqual(parseWiqlMacro('@Me'), { macro: 'me' });
+    assert.deepEqual(parseWiqlMacro('@today-7'), { macro: 'today', offset: -7 });
+    assert.deepEqual(parseWiqlMacro(' @currentIteration + 1 '), { macro: 'currentIteration', offset: 1 });
+  });
+
+  it('leaves text that is not a known macro as a literal', () => {
+    assert.equal(parseWiqlMacro('@unknown'), undefined);
+    assert.equal(parseWiqlMacro('@me OR 1=1'), undefined);
+    assert.equal(parseWiqlMacro('me'), undefined);
+  });
+
+  it('rejects an offset on a macro that takes none', () => {
+    assert.throws(() => parseWiqlMacro('@me+1'), ValidationError);
+  });
+});
+
+describe('WiqlBuilder', () => {
+  it('builds a query with conditions and sort order', () => {
+    const query = new WiqlBuilder()
+      .select(['System.Id', 'System.Title'])
+      .where('System.TeamProject', '=', wiqlMacro('project'))
+      .where('System.State', 'NOT IN', ['Closed', 'Removed'])
+      .orderBy('System.ChangedDate', 'DESC')
+      .build();
+    assert.equal(query,
+      "SELECT [System.Id], [System.Title] FROM WorkItems WHERE [System.TeamProject] = @project " +
+      "AND [System.State] NOT IN ('Closed', 'Removed') ORDER BY [System.ChangedDate] DESC");
+  });
+
+  it('keeps injected text inside the literal', () => {
+    const query = new WiqlBuilder()
+      .where('System.Title', 'CONTAINS', "bug' OR [System.Id] > 0 --")
+      .build();
+    assert.equal(query, "SELECT [System.Id] FROM WorkItems WHERE [System.Title] CONTAINS 'bug'' OR [System.Id] > 0 --'");
+  });
+
+  it('groups anyOf and allOf conditions in parentheses', () => {
+    const query = new WiqlBuilder()
+      .match({
+        anyOf: [
+          { field: 'System.Title', operator: 'CONTAINS', value: 'login' },
+          { allOf: [{ field: 'System.State', operator: '=', value: 'Active' }, { field: 'System.Id', operator: '<', value: 10 }] }
+        ]
+      })
+      .build();
+    assert.equal(query,
+      "SELECT [System.Id] FROM WorkItems WHERE ([System.Title] CONTAINS 'login' OR ([System.State] = 'Active' AND [System.Id] < 10))");
+  });
+
+  it('writes WAS EVER as EVER', () => {
+    const query = new WiqlBuilder().where('System.AssignedTo', 'WAS EVER', wiqlMacro('me')).build();
+    assert.equal(query, 'SELECT [System.Id] FROM WorkItems WHERE [System.AssignedTo] EVER @me');
+  });
+
+  it('rejects invalid field names in every clause', () => {
+    assert.throws(() => new WiqlBuilder().select(['System.Id] FROM WorkItems --']).build(), ValidationError);
+    assert.throws(() => new WiqlBuilder().where('System.Id] > 0 OR [System.Id', '=', 1).build(), ValidationError);
+    assert.throws(() => new WiqlBuilder().orderBy('System.Id]; DROP').build(), ValidationError);
+  });
+
+  it('rejects lists for single-value operators and empty lists and groups', () => {
+    assert.throws(() => new WiqlBuilder().where('System.State', '=', ['Active', 'New']).build(), ValidationError);
+    assert.throws(() => new WiqlBuilder().where('System.State', 'IN', []).build(), ValidationError);
+    assert.throws(() => new WiqlBuilder().match({ anyOf: [] }).build(), ValidationError);
+  });
+});